@@ -10,6 +10,13 @@ import MetaDescriptionTool from "@/pages/MetaDescriptionTool";
 import TitleCaseTool from "@/pages/TitleCaseTool";
 import KeywordDensityTool from "@/pages/KeywordDensityTool";
 import BlogOutlineTool from "@/pages/BlogOutlineTool";
+import ReadabilityTool from "@/pages/ReadabilityTool";
+import PageAuditTool from "@/pages/PageAuditTool";
+import HeadingsTool from "@/pages/HeadingsTool";
+import ContentBriefTool from "@/pages/ContentBriefTool";
+import FaqTool from "@/pages/FaqTool";
+import StructuredDataTool from "@/pages/StructuredDataTool";
+import RobotsTool from "@/pages/RobotsTool";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -23,6 +30,13 @@ function Router() {
           <Route path="/title-case" component={TitleCaseTool} />
           <Route path="/keyword-density" component={KeywordDensityTool} />
           <Route path="/blog-outline" component={BlogOutlineTool} />
+          <Route path="/readability" component={ReadabilityTool} />
+          <Route path="/page-audit" component={PageAuditTool} />
+          <Route path="/headings" component={HeadingsTool} />
+          <Route path="/content-brief" component={ContentBriefTool} />
+          <Route path="/faq" component={FaqTool} />
+          <Route path="/structured-data" component={StructuredDataTool} />
+          <Route path="/robots" component={RobotsTool} />
           <Route component={NotFound} />
         </Switch>
       </main>
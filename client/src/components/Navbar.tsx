@@ -13,6 +13,13 @@ export default function Navbar() {
     { href: "/title-case", label: "Title Case" },
     { href: "/keyword-density", label: "Keyword Density" },
     { href: "/blog-outline", label: "Blog Outline" },
+    { href: "/readability", label: "Readability" },
+    { href: "/page-audit", label: "Page Audit" },
+    { href: "/headings", label: "Headings" },
+    { href: "/content-brief", label: "Content Brief" },
+    { href: "/faq", label: "FAQ" },
+    { href: "/structured-data", label: "Structured Data" },
+    { href: "/robots", label: "robots.txt" },
   ];
 
   return (
@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { ChevronRight, GripVertical, IndentDecrease, IndentIncrease, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  demoteSection,
+  insertSection,
+  moveSection,
+  newSection,
+  promoteSection,
+  removeSection,
+  updateSection,
+  type SectionPath,
+} from "@/lib/outline-editor";
+import type { BlogOutlineResponse, OutlineSection, OutlineSectionRequest, OutlineSectionResponse } from "@shared/schema";
+
+interface OutlineEditorProps {
+  outline: BlogOutlineResponse;
+  audience?: string;
+  onChange: (sections: OutlineSection[]) => void;
+}
+
+type DropPosition = "before" | "after";
+
+interface EditorActions {
+  edit: (next: OutlineSection[] | null) => void;
+  sections: OutlineSection[];
+  dragPath: SectionPath | null;
+  setDragPath: (path: SectionPath | null) => void;
+  dropTarget: { key: string; position: DropPosition } | null;
+  setDropTarget: (target: { key: string; position: DropPosition } | null) => void;
+  regenerate: (path: SectionPath) => void;
+  regeneratingKey: string | null;
+}
+
+function IconButton({ label, onClick, disabled, children }: { label: string; onClick: () => void; disabled?: boolean; children: React.ReactNode }) {
+  return (
+    <Button type="button" variant="ghost" size="icon" className="h-7 w-7 text-gray-500" title={label} aria-label={label} onClick={onClick} disabled={disabled}>
+      {children}
+    </Button>
+  );
+}
+
+function EditorNode({ section, path, actions }: { section: OutlineSection; path: SectionPath; actions: EditorActions }) {
+  const [open, setOpen] = useState(true);
+  const key = path.join(".");
+  const { sections, edit, dropTarget } = actions;
+  const hasChildren = section.children.length > 0;
+  const dropClass = dropTarget?.key === key
+    ? dropTarget.position === "before" ? "border-t-2 border-t-purple-500" : "border-b-2 border-b-purple-500"
+    : "border-y-2 border-transparent";
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!actions.dragPath) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const position: DropPosition = e.clientY < rect.top + rect.height / 2 ? "before" : "after";
+    if (dropTarget?.key !== key || dropTarget.position !== position) actions.setDropTarget({ key, position });
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (actions.dragPath && dropTarget) edit(moveSection(sections, actions.dragPath, path, dropTarget.position));
+    actions.setDragPath(null);
+    actions.setDropTarget(null);
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div
+        className={`flex items-center gap-1 py-0.5 ${dropClass}`}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+        data-testid={`editor-node-${key}`}
+      >
+        <span
+          draggable
+          className="cursor-grab text-gray-400 hover:text-gray-700"
+          title="Drag to reorder"
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = "move";
+            e.dataTransfer.setDragImage(e.currentTarget.parentElement!, 0, 0);
+            actions.setDragPath(path);
+          }}
+          onDragEnd={() => {
+            actions.setDragPath(null);
+            actions.setDropTarget(null);
+          }}
+        >
+          <GripVertical className="h-4 w-4" />
+        </span>
+        {hasChildren ? (
+          <CollapsibleTrigger className="text-gray-400 hover:text-gray-700" aria-label={open ? "Collapse section" : "Expand section"}>
+            <ChevronRight className={`h-4 w-4 transition-transform ${open ? "rotate-90" : ""}`} />
+          </CollapsibleTrigger>
+        ) : (
+          <span className="w-4 shrink-0" />
+        )}
+        <span className="text-xs font-mono text-gray-400 w-6">H{section.level}</span>
+        <Input
+          value={section.heading}
+          onChange={(e) => edit(updateSection(sections, path, (current) => ({ ...current, heading: e.target.value })))}
+          className={`h-8 flex-1 ${section.level <= 2 ? "font-semibold" : ""}`}
+          data-testid={`input-heading-${key}`}
+        />
+        {section.targetWords > 0 && (
+          <span className="text-xs text-gray-500 whitespace-nowrap w-20 text-right">{section.targetWords} words</span>
+        )}
+        <IconButton label="Promote" onClick={() => edit(promoteSection(sections, path))} disabled={path.length < 2}>
+          <IndentDecrease className="h-4 w-4" />
+        </IconButton>
+        <IconButton label="Demote" onClick={() => edit(demoteSection(sections, path))} disabled={path[path.length - 1] === 0}>
+          <IndentIncrease className="h-4 w-4" />
+        </IconButton>
+        <IconButton
+          label="Add subsection"
+          onClick={() => {
+            edit(insertSection(sections, path, section.children.length, newSection(section.level + 1)));
+            setOpen(true);
+          }}
+          disabled={section.level >= 6}
+        >
+          <Plus className="h-4 w-4" />
+        </IconButton>
+        <IconButton label="Regenerate subsections" onClick={() => actions.regenerate(path)} disabled={actions.regeneratingKey !== null}>
+          <RefreshCw className={`h-4 w-4 ${actions.regeneratingKey === key ? "animate-spin" : ""}`} />
+        </IconButton>
+        <IconButton label="Delete" onClick={() => edit(removeSection(sections, path))}>
+          <Trash2 className="h-4 w-4" />
+        </IconButton>
+      </div>
+      {section.notes && <p className="ml-16 text-sm text-gray-500 italic">{section.notes}</p>}
+      {hasChildren && (
+        <CollapsibleContent className="ml-6 border-l border-gray-200 pl-2">
+          {section.children.map((child, index) => (
+            <EditorNode key={index} section={child} path={[...path, index]} actions={actions} />
+          ))}
+        </CollapsibleContent>
+      )}
+    </Collapsible>
+  );
+}
+
+// Editable outline: rename, add, delete, drag to reorder, promote/demote and
+// regenerate a single section's subsections
+export default function OutlineEditor({ outline, audience, onChange }: OutlineEditorProps) {
+  const { toast } = useToast();
+  const [dragPath, setDragPath] = useState<SectionPath | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ key: string; position: DropPosition } | null>(null);
+  const [regenerations, setRegenerations] = useState(0);
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (path: SectionPath) => {
+      const request: OutlineSectionRequest = { outline, path, audience: audience || undefined, variant: regenerations + 1 };
+      const response = await apiRequest("POST", "/api/blog-outline/section", request);
+      return response.json();
+    },
+    onSuccess: (data: OutlineSectionResponse, path) => {
+      setRegenerations(regenerations + 1);
+      onChange(updateSection(outline.sections, path, (current) => ({ ...current, children: data.section.children })));
+      toast({
+        title: "Section regenerated!",
+        description: `New subsections for "${data.section.heading}".`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Regeneration failed",
+        description: error.message || "Failed to regenerate the section. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const actions: EditorActions = {
+    sections: outline.sections,
+    // Invalid moves come back as null and are ignored
+    edit: (next) => {
+      if (next) onChange(next);
+    },
+    dragPath,
+    setDragPath,
+    dropTarget,
+    setDropTarget,
+    regenerate: (path) => regenerateMutation.mutate(path),
+    regeneratingKey: regenerateMutation.isPending && regenerateMutation.variables ? regenerateMutation.variables.join(".") : null,
+  };
+
+  return (
+    <div data-testid="outline-editor">
+      <div className="space-y-1">
+        {outline.sections.map((section, index) => (
+          <EditorNode key={index} section={section} path={[index]} actions={actions} />
+        ))}
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="mt-4"
+        onClick={() => onChange(insertSection(outline.sections, [], outline.sections.length, newSection(2)))}
+        data-testid="button-add-section"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add Section
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { ChevronRight } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { OutlineSection } from "@shared/schema";
+
+interface OutlineTreeProps {
+  sections: OutlineSection[];
+}
+
+// Plain-text copy of an outline: numbered top-level sections, nested points as indented bullets
+export function outlineToText(title: string | null, sections: OutlineSection[]): string {
+  const lines = (section: OutlineSection, depth: number): string[] => [
+    `${"   ".repeat(depth)}- ${section.heading}${section.targetWords > 0 ? ` (${section.targetWords} words)` : ""}`,
+    ...section.children.flatMap(child => lines(child, depth + 1)),
+  ];
+  const body = sections.map((section, index) => {
+    const [first, ...rest] = lines(section, 0);
+    return [first.replace(/^- /, `${index + 1}. `), ...rest].join("\n");
+  }).join("\n\n");
+  return title ? `${title}\n\n${body}` : body;
+}
+
+function OutlineNode({ section, number }: { section: OutlineSection; number: string }) {
+  const [open, setOpen] = useState(true);
+  const hasChildren = section.children.length > 0;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <div className="flex items-start gap-1" data-testid={`outline-node-${number}`}>
+        {hasChildren ? (
+          <CollapsibleTrigger className="mt-0.5 text-gray-400 hover:text-gray-700" aria-label={open ? "Collapse section" : "Expand section"}>
+            <ChevronRight className={`h-4 w-4 transition-transform ${open ? "rotate-90" : ""}`} />
+          </CollapsibleTrigger>
+        ) : (
+          <span className="w-4 shrink-0" />
+        )}
+        <div className="min-w-0 flex-1">
+          <div className="flex justify-between gap-4">
+            <span className={section.level <= 2 ? "font-semibold text-gray-900" : "text-gray-800"}>
+              <span className="text-xs font-mono text-gray-400 mr-2">H{section.level}</span>
+              {number}. {section.heading}
+            </span>
+            {section.targetWords > 0 && (
+              <span className="text-xs text-gray-500 whitespace-nowrap">{section.targetWords} words</span>
+            )}
+          </div>
+          {section.notes && <p className="text-sm text-gray-500 italic">{section.notes}</p>}
+        </div>
+      </div>
+      {hasChildren && (
+        <CollapsibleContent className="ml-5 mt-1 space-y-1 border-l border-gray-200 pl-2">
+          {section.children.map((child, index) => (
+            <OutlineNode key={index} section={child} number={`${number}.${index + 1}`} />
+          ))}
+        </CollapsibleContent>
+      )}
+    </Collapsible>
+  );
+}
+
+export default function OutlineTree({ sections }: OutlineTreeProps) {
+  return (
+    <div className="space-y-2" data-testid="outline-tree">
+      {sections.map((section, index) => (
+        <OutlineNode key={index} section={section} number={`${index + 1}`} />
+      ))}
+    </div>
+  );
+}
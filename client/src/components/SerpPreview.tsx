@@ -0,0 +1,87 @@
+import { useQuery } from "@tanstack/react-query";
+import { Monitor, Smartphone } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { apiRequest } from "@/lib/queryClient";
+import type { SerpPreviewRequest, SerpPreviewResponse } from "@shared/schema";
+
+interface SerpPreviewProps {
+  title: string;
+  description: string;
+  url?: string;
+}
+
+function WidthMeter({ label, width, maxWidth, truncated }: { label: string; width: number; maxWidth: number; truncated: boolean }) {
+  return (
+    <span className={`text-xs font-mono ${truncated ? "text-red-600" : "text-gray-500"}`}>
+      {label}: {width}/{maxWidth}px{truncated ? " (truncated)" : ""}
+    </span>
+  );
+}
+
+export default function SerpPreview({ title, description, url = "https://example.com/" }: SerpPreviewProps) {
+  const request: SerpPreviewRequest = { title, description, url };
+  const { data, isLoading } = useQuery<SerpPreviewResponse>({
+    queryKey: ["/api/serp-preview", title, description, url],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/serp-preview", request);
+      return response.json();
+    },
+    enabled: title.length > 0,
+  });
+
+  if (isLoading || !data) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6" data-testid="serp-preview">
+      <Tabs defaultValue="desktop">
+        <div className="flex justify-between items-center mb-4">
+          <h4 className="font-medium text-gray-900">Search Result Preview</h4>
+          <TabsList>
+            <TabsTrigger value="desktop" data-testid="tab-serp-desktop">
+              <Monitor className="h-4 w-4 mr-1" />
+              Desktop
+            </TabsTrigger>
+            <TabsTrigger value="mobile" data-testid="tab-serp-mobile">
+              <Smartphone className="h-4 w-4 mr-1" />
+              Mobile
+            </TabsTrigger>
+          </TabsList>
+        </div>
+
+        <TabsContent value="desktop">
+          <div style={{ fontFamily: "Arial, sans-serif", maxWidth: 600 }} data-testid="serp-desktop">
+            <div className="text-sm text-gray-700 truncate">{data.breadcrumb}</div>
+            <div style={{ fontSize: 20, lineHeight: "26px", color: "#1a0dab" }} className="whitespace-nowrap">
+              {data.desktop.title.text}
+            </div>
+            <div style={{ fontSize: 14, lineHeight: "22px", color: "#4d5156" }}>
+              {data.desktop.description.text}
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-4 mt-3">
+            <WidthMeter label="Title" {...data.desktop.title} />
+            <WidthMeter label="Description" {...data.desktop.description} />
+          </div>
+        </TabsContent>
+
+        <TabsContent value="mobile">
+          <div style={{ fontFamily: "Roboto, Arial, sans-serif", maxWidth: 360 }} className="border border-gray-200 rounded-xl p-4" data-testid="serp-mobile">
+            <div className="text-xs text-gray-700 truncate">{data.breadcrumb}</div>
+            <div style={{ fontSize: 16, lineHeight: "22px", color: "#1a0dab" }}>
+              {data.mobile.title.text}
+            </div>
+            <div style={{ fontSize: 14, lineHeight: "20px", color: "#4d5156" }}>
+              {data.mobile.description.text}
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-4 mt-3">
+            <WidthMeter label="Title" {...data.mobile.title} />
+            <WidthMeter label="Description" {...data.mobile.description} />
+          </div>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
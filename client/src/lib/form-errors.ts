@@ -0,0 +1,12 @@
+import type { FieldError } from "react-hook-form";
+
+// The error react-hook-form keeps for a field. List fields hold one error per
+// entry, or an error on `root` when the list as a whole is invalid.
+export type ListFieldError = (Partial<FieldError> & { root?: FieldError }) | Array<Partial<FieldError> | undefined>;
+
+// The first message in a field's error, whether the field is a value or a list
+export function fieldErrorMessage(error: ListFieldError | undefined): string | undefined {
+  if (!error) return undefined;
+  if (Array.isArray(error)) return error.find((entry) => entry?.message)?.message;
+  return error.message ?? error.root?.message;
+}
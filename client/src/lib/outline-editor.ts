@@ -0,0 +1,122 @@
+import type { OutlineSection } from "@shared/schema";
+
+// Immutable edits on an outline tree. A section is addressed by its path:
+// child indexes from the top level down, so [2, 0] is the first child of
+// the third section.
+
+export type SectionPath = number[];
+
+const MIN_LEVEL = 2;
+const MAX_LEVEL = 6;
+
+function samePath(a: SectionPath, b: SectionPath): boolean {
+  return a.length === b.length && a.every((index, i) => index === b[i]);
+}
+
+export function isAncestor(ancestor: SectionPath, path: SectionPath): boolean {
+  return ancestor.length < path.length && ancestor.every((index, i) => index === path[i]);
+}
+
+export function getSection(sections: OutlineSection[], path: SectionPath): OutlineSection | undefined {
+  let current: OutlineSection | undefined;
+  let level = sections;
+  for (const index of path) {
+    current = level[index];
+    if (!current) return undefined;
+    level = current.children;
+  }
+  return current;
+}
+
+// Replaces the list of children at `parentPath` (the top level for [])
+function updateChildren(
+  sections: OutlineSection[],
+  parentPath: SectionPath,
+  update: (children: OutlineSection[]) => OutlineSection[],
+): OutlineSection[] {
+  if (parentPath.length === 0) return update(sections);
+  const [index, ...rest] = parentPath;
+  return sections.map((section, i) =>
+    i === index ? { ...section, children: updateChildren(section.children, rest, update) } : section);
+}
+
+export function updateSection(sections: OutlineSection[], path: SectionPath, update: (section: OutlineSection) => OutlineSection): OutlineSection[] {
+  return updateChildren(sections, path.slice(0, -1), children =>
+    children.map((section, i) => (i === path[path.length - 1] ? update(section) : section)));
+}
+
+export function removeSection(sections: OutlineSection[], path: SectionPath): OutlineSection[] {
+  return updateChildren(sections, path.slice(0, -1), children => children.filter((_, i) => i !== path[path.length - 1]));
+}
+
+export function insertSection(sections: OutlineSection[], parentPath: SectionPath, index: number, section: OutlineSection): OutlineSection[] {
+  return updateChildren(sections, parentPath, children => [...children.slice(0, index), section, ...children.slice(index)]);
+}
+
+function depth(section: OutlineSection): number {
+  return section.children.reduce((deepest, child) => Math.max(deepest, depth(child)), section.level);
+}
+
+// Moves a section and everything under it to a new level
+export function withLevel(section: OutlineSection, level: number): OutlineSection {
+  const shift = level - section.level;
+  const move = (node: OutlineSection): OutlineSection => ({ ...node, level: node.level + shift, children: node.children.map(move) });
+  return move(section);
+}
+
+function canTakeLevel(section: OutlineSection, level: number): boolean {
+  return level >= MIN_LEVEL && depth(section) + (level - section.level) <= MAX_LEVEL;
+}
+
+export function newSection(level: number): OutlineSection {
+  return { heading: "New section", level, targetWords: 0, children: [] };
+}
+
+// Drops `from` just before or after `target`, as a sibling of the target.
+// Returns null for moves that make no sense, like into the section's own subtree.
+export function moveSection(
+  sections: OutlineSection[],
+  from: SectionPath,
+  target: SectionPath,
+  position: "before" | "after",
+): OutlineSection[] | null {
+  const moving = getSection(sections, from);
+  const anchor = getSection(sections, target);
+  if (!moving || !anchor || samePath(from, target) || isAncestor(from, target)) return null;
+  if (!canTakeLevel(moving, anchor.level)) return null;
+
+  // Removing `from` shifts later siblings, and the target with them when it sits after it
+  const adjusted = target.slice();
+  const parentLength = from.length - 1;
+  if (target.length > parentLength && samePath(target.slice(0, parentLength), from.slice(0, -1)) && target[parentLength] > from[parentLength]) {
+    adjusted[parentLength] -= 1;
+  }
+
+  const without = removeSection(sections, from);
+  const index = adjusted[adjusted.length - 1] + (position === "after" ? 1 : 0);
+  return insertSection(without, adjusted.slice(0, -1), index, withLevel(moving, anchor.level));
+}
+
+// Demoting nests a section as the last child of the section above it
+export function demoteSection(sections: OutlineSection[], path: SectionPath): OutlineSection[] | null {
+  const index = path[path.length - 1];
+  const section = getSection(sections, path);
+  const previousPath = [...path.slice(0, -1), index - 1];
+  const previous = index > 0 ? getSection(sections, previousPath) : undefined;
+  if (!section || !previous || !canTakeLevel(section, previous.level + 1)) return null;
+
+  const without = removeSection(sections, path);
+  return insertSection(without, previousPath, previous.children.length, withLevel(section, previous.level + 1));
+}
+
+// Promoting lifts a section out of its parent, to sit right after it
+export function promoteSection(sections: OutlineSection[], path: SectionPath): OutlineSection[] | null {
+  if (path.length < 2) return null;
+  const section = getSection(sections, path);
+  const parentPath = path.slice(0, -1);
+  const parent = getSection(sections, parentPath);
+  if (!section || !parent || !canTakeLevel(section, parent.level)) return null;
+
+  const without = removeSection(sections, path);
+  return insertSection(without, parentPath.slice(0, -1), parentPath[parentPath.length - 1] + 1, withLevel(section, parent.level));
+}
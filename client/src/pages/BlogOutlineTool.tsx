@@ -1,16 +1,143 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link } from "wouter";
-import { ArrowLeft, Sparkles, Copy } from "lucide-react";
+import { ArrowLeft, Sparkles, Copy, ListChecks, Download, MessageCircleQuestion } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { blogOutlineRequestSchema, type BlogOutlineRequest, type BlogOutlineResponse } from "@shared/schema";
+import OutlineEditor from "@/components/OutlineEditor";
+import { outlineToText } from "@/components/OutlineTree";
+import {
+  blogOutlineRequestSchema,
+  type BlogOutlineRequest,
+  type BlogOutlineResponse,
+  type FaqRequest,
+  type FaqResponse,
+  type OutlineCoverageResponse,
+  type OutlineExportFormat,
+  type OutlineSection,
+  type SectionCoverage,
+} from "@shared/schema";
+
+const EXPORT_FORMATS: Array<{ format: OutlineExportFormat; label: string }> = [
+  { format: "docx", label: "Word document (.docx)" },
+  { format: "html", label: "HTML (.html)" },
+  { format: "markdown", label: "Markdown (.md)" },
+  { format: "json", label: "JSON brief (.json)" },
+];
+
+const COVERAGE_STATUS: Record<SectionCoverage["status"], { label: string; className: string }> = {
+  missing: { label: "Missing", className: "bg-red-100 text-red-800" },
+  thin: { label: "Too short", className: "bg-yellow-100 text-yellow-800" },
+  "on-target": { label: "On target", className: "bg-green-100 text-green-800" },
+  long: { label: "Over budget", className: "bg-blue-100 text-blue-800" },
+};
+
+function countSubsections(sections: OutlineSection[]): number {
+  return sections.reduce((sum, section) => sum + section.children.length + countSubsections(section.children), 0);
+}
+
+// Checks a finished draft against the generated outline before publishing
+function DraftCoverage({ outline }: { outline: BlogOutlineResponse }) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState("");
+  const [coverage, setCoverage] = useState<OutlineCoverageResponse | null>(null);
+
+  useEffect(() => {
+    setCoverage(null);
+  }, [outline]);
+
+  const coverageMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/outline-coverage", { outline, draft, format: "auto" });
+      return response.json();
+    },
+    onSuccess: (data: OutlineCoverageResponse) => {
+      setCoverage(data);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Coverage check failed",
+        description: error.message || "Failed to compare the draft with the outline. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="mt-8 border-t border-gray-200 pt-8" data-testid="draft-coverage">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Check Draft Coverage</h3>
+      <p className="text-sm text-gray-500 mb-4">Paste the finished post as Markdown or HTML to see which sections and subsections it covers.</p>
+      <Textarea
+        rows={8}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder="Paste your finished draft..."
+        className="resize-none font-mono text-xs"
+        data-testid="textarea-draft"
+      />
+      <Button
+        type="button"
+        onClick={() => coverageMutation.mutate()}
+        disabled={!draft.trim() || coverageMutation.isPending}
+        className="mt-4 bg-purple-600 hover:bg-purple-700"
+        data-testid="button-check-coverage"
+      >
+        <ListChecks className="h-4 w-4 mr-2" />
+        {coverageMutation.isPending ? "Checking..." : "Check Coverage"}
+      </Button>
+
+      {coverage && (
+        <div className="mt-6" data-testid="coverage-results">
+          <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-600">
+            <span className="text-2xl font-bold text-purple-700" data-testid="text-coverage">{coverage.coverage}%</span>
+            <span>covered</span>
+            <span>{coverage.draftWords.toLocaleString()} of {coverage.targetWords.toLocaleString()} words</span>
+            {!coverage.titleMatched && <Badge className="bg-yellow-100 text-yellow-800">H1 doesn't match the outline title</Badge>}
+          </div>
+
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+            {coverage.sections.map((section, index) => (
+              <div key={index} className="p-4" data-testid={`coverage-section-${index}`}>
+                <div className="flex justify-between items-start gap-4">
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900">{index + 1}. {section.heading}</div>
+                    {section.matchedHeading && section.matchedHeading !== section.heading && (
+                      <div className="text-xs text-gray-500">Matched "{section.matchedHeading}" ({section.similarity}%)</div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0 text-sm text-gray-600">
+                    {section.status !== "missing" && <span>{section.words} / {section.targetWords} words</span>}
+                    <Badge className={COVERAGE_STATUS[section.status].className}>{COVERAGE_STATUS[section.status].label}</Badge>
+                  </div>
+                </div>
+                {section.missingSubsections.length > 0 && (
+                  <div className="mt-2 text-sm text-red-700">
+                    Not mentioned: {section.missingSubsections.join(", ")}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {coverage.extraHeadings.length > 0 && (
+            <p className="text-sm text-gray-500 mt-3">
+              Not in the outline: {coverage.extraHeadings.join(", ")}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
 
 export default function BlogOutlineTool() {
   const { toast } = useToast();
@@ -46,19 +173,36 @@ export default function BlogOutlineTool() {
     },
   });
 
+  // Asks the FAQ generator for questions about the post and adds them as a FAQ section
+  const faqMutation = useMutation({
+    mutationFn: async (outline: BlogOutlineResponse) => {
+      const request: FaqRequest = { topic: outline.title, audience: form.getValues("audience") || undefined, count: 5, format: "auto", outline };
+      const response = await apiRequest("POST", "/api/faq", request);
+      return response.json();
+    },
+    onSuccess: (data: FaqResponse) => {
+      if (data.outline) setResult(data.outline);
+      toast({
+        title: "FAQ section added!",
+        description: `${data.faqs.length} questions added to the outline.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "FAQ generation failed",
+        description: error.message || "Failed to add a FAQ section. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: BlogOutlineRequest) => {
     generateMutation.mutate(data);
   };
 
   const copyOutline = async () => {
     if (result) {
-      const outlineText = `${result.title}\n\n${result.sections.map((section, index) => {
-        let text = `${index + 1}. ${section.heading}`;
-        if (section.subsections && section.subsections.length > 0) {
-          text += `\n${section.subsections.map(sub => `   - ${sub}`).join('\n')}`;
-        }
-        return text;
-      }).join('\n\n')}`;
+      const outlineText = outlineToText(result.title, result.sections);
 
       try {
         await navigator.clipboard.writeText(outlineText);
@@ -76,6 +220,27 @@ export default function BlogOutlineTool() {
     }
   };
 
+  const downloadOutline = async (format: OutlineExportFormat) => {
+    if (result) {
+      try {
+        const response = await apiRequest("POST", "/api/blog-outline/export", { outline: result, format });
+        const filename = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `outline.${format}`;
+        const url = URL.createObjectURL(await response.blob());
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = filename;
+        link.click();
+        URL.revokeObjectURL(url);
+      } catch (error: any) {
+        toast({
+          title: "Download failed",
+          description: error.message || "Failed to export the outline.",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
   const clearForm = () => {
     form.reset();
     setResult(null);
@@ -90,7 +255,7 @@ export default function BlogOutlineTool() {
             Back to Tools
           </Link>
           <h1 className="text-3xl font-bold text-gray-900 mb-2">Blog Outline Generator</h1>
-          <p className="text-gray-600">Create structured blog outlines with AI-generated headings and subheadings</p>
+          <p className="text-gray-600">Create structured blog outlines with AI-generated headings and subheadings, then edit them section by section</p>
         </div>
 
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
@@ -176,36 +341,61 @@ export default function BlogOutlineTool() {
             <div className="mt-8" data-testid="results-section">
               <div className="flex justify-between items-center mb-6">
                 <h3 className="text-lg font-semibold text-gray-900">Generated Blog Outline</h3>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={copyOutline}
-                  className="text-purple-600 hover:text-purple-700"
-                  data-testid="button-copy"
-                >
-                  <Copy className="h-4 w-4 mr-1" />
-                  Copy Outline
-                </Button>
+                <div className="flex gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={copyOutline}
+                    className="text-purple-600 hover:text-purple-700"
+                    data-testid="button-copy"
+                  >
+                    <Copy className="h-4 w-4 mr-1" />
+                    Copy Outline
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => faqMutation.mutate(result)}
+                    disabled={faqMutation.isPending}
+                    className="text-purple-600 hover:text-purple-700"
+                    data-testid="button-add-faq"
+                  >
+                    <MessageCircleQuestion className="h-4 w-4 mr-1" />
+                    {faqMutation.isPending ? "Adding..." : "Add FAQ Section"}
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-purple-600 hover:text-purple-700"
+                        data-testid="button-download"
+                      >
+                        <Download className="h-4 w-4 mr-1" />
+                        Download
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {EXPORT_FORMATS.map(({ format, label }) => (
+                        <DropdownMenuItem key={format} onSelect={() => downloadOutline(format)} data-testid={`menu-download-${format}`}>
+                          {label}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
               </div>
 
               <div className="bg-purple-50 border border-purple-200 rounded-lg p-6">
-                <div className="space-y-4 font-mono text-sm">
+                <div className="text-sm">
                   <div className="text-xl font-bold text-purple-900 mb-4" data-testid="text-outline-title">
                     {result.title}
                   </div>
-                  
-                  {result.sections.map((section, index) => (
-                    <div key={index} className="space-y-2" data-testid={`section-${index}`}>
-                      <div className="text-lg font-semibold text-purple-800">
-                        {index + 1}. {section.heading}
-                      </div>
-                      {section.subsections && section.subsections.map((subsection, subIndex) => (
-                        <div key={subIndex} className="ml-4 text-purple-700">
-                          - {subsection}
-                        </div>
-                      ))}
-                    </div>
-                  ))}
+                  <OutlineEditor
+                    outline={result}
+                    audience={form.watch("audience")}
+                    onChange={(sections) => setResult({ ...result, sections })}
+                  />
                 </div>
               </div>
 
@@ -216,7 +406,7 @@ export default function BlogOutlineTool() {
                     <span className="font-medium">Sections:</span> {result.sections.length}
                   </div>
                   <div className="text-blue-700">
-                    <span className="font-medium">Subsections:</span> {result.sections.reduce((sum, section) => sum + (section.subsections?.length || 0), 0)}
+                    <span className="font-medium">Subsections:</span> {countSubsections(result.sections)}
                   </div>
                   <div className="text-blue-700">
                     <span className="font-medium">Est. Word Count:</span> {result.estimatedWordCount.toLocaleString()}
@@ -225,7 +415,12 @@ export default function BlogOutlineTool() {
                     <span className="font-medium">Reading Time:</span> {result.estimatedReadingTime} min
                   </div>
                 </div>
+                <p className="text-xs text-blue-600 mt-3" data-testid="text-engine">
+                  Generated by {result.engine === "template" ? "offline engine" : result.engine}
+                </p>
               </div>
+
+              <DraftCoverage outline={result} />
             </div>
           )}
         </div>
@@ -0,0 +1,331 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, ClipboardList, Copy, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import OutlineTree from "@/components/OutlineTree";
+import {
+  contentBriefRequestSchema,
+  type BriefKeyphrase,
+  type ContentBriefRequest,
+  type ContentBriefResponse,
+  type TitleCaseStyle,
+} from "@shared/schema";
+
+const STYLE_OPTIONS: Array<{ value: TitleCaseStyle; label: string }> = [
+  { value: "ap", label: "AP" },
+  { value: "chicago", label: "Chicago" },
+  { value: "apa", label: "APA" },
+  { value: "mla", label: "MLA" },
+  { value: "wikipedia", label: "Wikipedia" },
+  { value: "sentence", label: "Sentence case" },
+];
+
+function mentionsLabel(mentions: BriefKeyphrase["mentions"]): string | null {
+  if (!mentions) return null;
+  if (mentions.max === null) return `${mentions.min}+ mentions`;
+  return mentions.max <= mentions.min ? `~${mentions.min} mentions` : `${mentions.min}-${mentions.max} mentions`;
+}
+
+function BriefSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="border-t border-gray-200 pt-6">
+      <h4 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-3">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+export default function ContentBriefTool() {
+  const { toast } = useToast();
+  const [result, setResult] = useState<ContentBriefResponse | null>(null);
+
+  const form = useForm<ContentBriefRequest>({
+    resolver: zodResolver(contentBriefRequestSchema),
+    defaultValues: {
+      topic: "",
+      focusKeyphrase: "",
+      audience: "",
+      length: "medium",
+      style: "ap",
+      profile: "default",
+    },
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async (data: ContentBriefRequest) => {
+      const response = await apiRequest("POST", "/api/content-brief", data);
+      return response.json();
+    },
+    onSuccess: (data: ContentBriefResponse) => {
+      setResult(data);
+      toast({
+        title: "Brief generated!",
+        description: "Your content brief is ready.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Generation failed",
+        description: error.message || "Failed to generate content brief. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: ContentBriefRequest) => {
+    generateMutation.mutate(data);
+  };
+
+  const copyText = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied!",
+        description: `${label} copied to clipboard.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Copy failed",
+        description: "Failed to copy to clipboard.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const downloadBrief = async () => {
+    if (result) {
+      try {
+        const response = await apiRequest("POST", "/api/content-brief/export", result);
+        const filename = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? "content-brief.md";
+        const url = URL.createObjectURL(await response.blob());
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = filename;
+        link.click();
+        URL.revokeObjectURL(url);
+      } catch (error: any) {
+        toast({
+          title: "Download failed",
+          description: error.message || "Failed to export the brief.",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const clearForm = () => {
+    form.reset();
+    setResult(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <Link href="/" className="text-primary-600 hover:text-primary-700 font-medium mb-4 flex items-center" data-testid="link-back">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Tools
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Content Brief Generator</h1>
+          <p className="text-gray-600">Turn a topic and focus keyphrase into a writer's brief: title, meta description, outline, keyphrases and FAQs</p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div>
+              <Label htmlFor="topic">Topic</Label>
+              <Input
+                id="topic"
+                placeholder="Enter the topic or working headline..."
+                {...form.register("topic")}
+                data-testid="input-topic"
+              />
+              {form.formState.errors.topic && (
+                <p className="text-sm text-red-600 mt-1">{form.formState.errors.topic.message}</p>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="focusKeyphrase">Focus Keyphrase</Label>
+              <Input
+                id="focusKeyphrase"
+                placeholder="e.g. email newsletter"
+                {...form.register("focusKeyphrase")}
+                data-testid="input-focus-keyphrase"
+              />
+              {form.formState.errors.focusKeyphrase && (
+                <p className="text-sm text-red-600 mt-1">{form.formState.errors.focusKeyphrase.message}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="audience">Target Audience (Optional)</Label>
+                <Select value={form.watch("audience")} onValueChange={(value) => form.setValue("audience", value)}>
+                  <SelectTrigger data-testid="select-audience">
+                    <SelectValue placeholder="Select audience..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="beginners">Beginners</SelectItem>
+                    <SelectItem value="intermediate">Intermediate</SelectItem>
+                    <SelectItem value="advanced">Advanced</SelectItem>
+                    <SelectItem value="business-owners">Business Owners</SelectItem>
+                    <SelectItem value="marketers">Marketers</SelectItem>
+                    <SelectItem value="developers">Developers</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="length">Content Length</Label>
+                <Select value={form.watch("length")} onValueChange={(value) => form.setValue("length", value as any)}>
+                  <SelectTrigger data-testid="select-length">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="short">Short (800-1500 words)</SelectItem>
+                    <SelectItem value="medium">Medium (1500-3000 words)</SelectItem>
+                    <SelectItem value="long">Long (3000+ words)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="style">Title Style</Label>
+                <Select value={form.watch("style")} onValueChange={(value) => form.setValue("style", value as TitleCaseStyle)}>
+                  <SelectTrigger data-testid="select-style">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STYLE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex gap-4">
+              <Button
+                type="submit"
+                disabled={generateMutation.isPending}
+                className="bg-amber-600 hover:bg-amber-700"
+                data-testid="button-generate"
+              >
+                <ClipboardList className="h-4 w-4 mr-2" />
+                {generateMutation.isPending ? "Generating..." : "Generate Brief"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={clearForm}
+                data-testid="button-clear"
+              >
+                Clear
+              </Button>
+            </div>
+          </form>
+
+          {generateMutation.isPending && (
+            <div className="mt-8 p-6 bg-gray-50 rounded-lg" data-testid="loading-state">
+              <div className="flex items-center justify-center">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-amber-600 mr-3"></div>
+                <span className="text-gray-600">Generating content brief...</span>
+              </div>
+            </div>
+          )}
+
+          {result && (
+            <div className="mt-8 space-y-6" data-testid="results-section">
+              <div className="flex justify-between items-center">
+                <h3 className="text-lg font-semibold text-gray-900">Content Brief</h3>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={downloadBrief}
+                  className="text-amber-600 hover:text-amber-700"
+                  data-testid="button-download"
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Download Markdown
+                </Button>
+              </div>
+
+              <BriefSection title="Title">
+                <div className="flex justify-between items-start gap-4">
+                  <p className="text-xl font-bold text-gray-900" data-testid="text-title">{result.title}</p>
+                  <Button variant="ghost" size="sm" onClick={() => copyText(result.title, "Title")} data-testid="button-copy-title">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </BriefSection>
+
+              <BriefSection title="Meta Description">
+                <div className="flex justify-between items-start gap-4">
+                  <p className="text-gray-800" data-testid="text-meta-description">{result.metaDescription}</p>
+                  <Button variant="ghost" size="sm" onClick={() => copyText(result.metaDescription, "Meta description")} data-testid="button-copy-meta">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">{result.metaDescription.length} characters</p>
+              </BriefSection>
+
+              <BriefSection title="Keyphrases">
+                <div className="space-y-3">
+                  {result.keyphrases.map((keyphrase, index) => (
+                    <div key={index} data-testid={`keyphrase-${index}`}>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium text-gray-900">{keyphrase.phrase}</span>
+                        <Badge className={keyphrase.type === "focus" ? "bg-amber-100 text-amber-800" : "bg-gray-100 text-gray-700"}>
+                          {keyphrase.type === "focus" ? "Focus" : "Secondary"}
+                        </Badge>
+                        {mentionsLabel(keyphrase.mentions) && (
+                          <span className="text-xs text-gray-500">{mentionsLabel(keyphrase.mentions)}</span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600">{keyphrase.guidance}</p>
+                    </div>
+                  ))}
+                </div>
+              </BriefSection>
+
+              <BriefSection title="Outline">
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-6 text-sm">
+                  <OutlineTree sections={result.outline.sections} />
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  About {result.outline.estimatedWordCount.toLocaleString()} words, {result.outline.estimatedReadingTime} min read
+                </p>
+              </BriefSection>
+
+              {result.faqs.length > 0 && (
+                <BriefSection title="FAQ Questions">
+                  <ul className="list-disc pl-5 space-y-1 text-gray-800" data-testid="list-faqs">
+                    {result.faqs.map((question, index) => (
+                      <li key={index}>{question}</li>
+                    ))}
+                  </ul>
+                </BriefSection>
+              )}
+
+              <p className="text-xs text-gray-500" data-testid="text-engine">
+                Generated by {result.engine === "template" ? "offline engine" : result.engine}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, MessageCircleQuestion, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { faqRequestSchema, type FaqRequest, type FaqResponse } from "@shared/schema";
+
+type SourceMode = "topic" | "article";
+
+const QUESTION_COUNTS = [3, 4, 5, 6, 7, 8, 9, 10];
+
+export default function FaqTool() {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<SourceMode>("topic");
+  const [result, setResult] = useState<FaqResponse | null>(null);
+
+  const form = useForm<FaqRequest>({
+    resolver: zodResolver(faqRequestSchema),
+    defaultValues: {
+      topic: "",
+      content: "",
+      format: "auto",
+      audience: "",
+      count: 6,
+    },
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async (data: FaqRequest) => {
+      const response = await apiRequest("POST", "/api/faq", data);
+      return response.json();
+    },
+    onSuccess: (data: FaqResponse) => {
+      setResult(data);
+      toast({
+        title: "FAQs generated!",
+        description: `${data.faqs.length} questions with FAQPage markup.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Generation failed",
+        description: error.message || "Failed to generate FAQs. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Only the active tab's input is sent, so a leftover topic doesn't override a pasted article
+  const onSubmit = (data: FaqRequest) => {
+    generateMutation.mutate(mode === "topic" ? { ...data, content: undefined } : { ...data, topic: undefined });
+  };
+
+  const copyText = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied!",
+        description: `${label} copied to clipboard.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Copy failed",
+        description: "Failed to copy to clipboard.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const clearForm = () => {
+    form.reset();
+    setResult(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <Link href="/" className="text-primary-600 hover:text-primary-700 font-medium mb-4 flex items-center" data-testid="link-back">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Tools
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">FAQ Generator</h1>
+          <p className="text-gray-600">Generate the questions readers search for, with short answers and FAQPage structured data ready to paste</p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <Tabs value={mode} onValueChange={(value) => setMode(value as SourceMode)}>
+              <TabsList className="mb-4">
+                <TabsTrigger value="topic" data-testid="tab-topic">From a Topic</TabsTrigger>
+                <TabsTrigger value="article" data-testid="tab-article">From an Article</TabsTrigger>
+              </TabsList>
+              <TabsContent value="topic">
+                <Label htmlFor="topic">Topic</Label>
+                <Input
+                  id="topic"
+                  placeholder="Enter a topic or headline..."
+                  {...form.register("topic")}
+                  data-testid="input-topic"
+                />
+                <p className="text-sm text-gray-500 mt-1">Example: "How to Start a Podcast"</p>
+              </TabsContent>
+              <TabsContent value="article">
+                <Label htmlFor="content">Article</Label>
+                <Textarea
+                  id="content"
+                  rows={10}
+                  placeholder="Paste your article as plain text, Markdown or HTML..."
+                  className="resize-none font-mono text-xs"
+                  {...form.register("content")}
+                  data-testid="textarea-content"
+                />
+                <p className="text-sm text-gray-500 mt-1">Headings phrased as questions are kept, and answers come from the article's text.</p>
+              </TabsContent>
+            </Tabs>
+            {form.formState.errors.topic && (
+              <p className="text-sm text-red-600 -mt-4">{form.formState.errors.topic.message}</p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="audience">Target Audience (Optional)</Label>
+                <Select value={form.watch("audience")} onValueChange={(value) => form.setValue("audience", value)}>
+                  <SelectTrigger data-testid="select-audience">
+                    <SelectValue placeholder="Select audience..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="beginners">Beginners</SelectItem>
+                    <SelectItem value="intermediate">Intermediate</SelectItem>
+                    <SelectItem value="advanced">Advanced</SelectItem>
+                    <SelectItem value="business-owners">Business Owners</SelectItem>
+                    <SelectItem value="marketers">Marketers</SelectItem>
+                    <SelectItem value="developers">Developers</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="count">Number of Questions</Label>
+                <Select value={String(form.watch("count"))} onValueChange={(value) => form.setValue("count", Number(value))}>
+                  <SelectTrigger data-testid="select-count">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {QUESTION_COUNTS.map((count) => (
+                      <SelectItem key={count} value={String(count)}>
+                        {count}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex gap-4">
+              <Button
+                type="submit"
+                disabled={generateMutation.isPending}
+                className="bg-cyan-600 hover:bg-cyan-700"
+                data-testid="button-generate"
+              >
+                <MessageCircleQuestion className="h-4 w-4 mr-2" />
+                {generateMutation.isPending ? "Generating..." : "Generate FAQs"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={clearForm}
+                data-testid="button-clear"
+              >
+                Clear
+              </Button>
+            </div>
+          </form>
+
+          {generateMutation.isPending && (
+            <div className="mt-8 p-6 bg-gray-50 rounded-lg" data-testid="loading-state">
+              <div className="flex items-center justify-center">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-cyan-600 mr-3"></div>
+                <span className="text-gray-600">Generating questions...</span>
+              </div>
+            </div>
+          )}
+
+          {result && (
+            <div className="mt-8" data-testid="results-section">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Questions About "{result.topic}"</h3>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => copyText(result.faqs.map((item) => `${item.question}\n${item.answer}`).join("\n\n"), "Questions and answers")}
+                  className="text-cyan-600 hover:text-cyan-700"
+                  data-testid="button-copy-faqs"
+                >
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy Q&A
+                </Button>
+              </div>
+
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                {result.faqs.map((item, index) => (
+                  <div key={index} className="p-4" data-testid={`faq-${index}`}>
+                    <div className="font-medium text-gray-900">{item.question}</div>
+                    <p className="text-sm text-gray-600 mt-1">{item.answer}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="mt-6">
+                <div className="flex justify-between items-center mb-2">
+                  <h4 className="font-medium text-gray-900">FAQPage JSON-LD</h4>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => copyText(result.jsonLd, "JSON-LD")}
+                    className="text-cyan-600 hover:text-cyan-700"
+                    data-testid="button-copy-json-ld"
+                  >
+                    <Copy className="h-4 w-4 mr-1" />
+                    Copy JSON-LD
+                  </Button>
+                </div>
+                <pre className="bg-gray-900 text-gray-100 text-xs rounded-lg p-4 overflow-x-auto" data-testid="text-json-ld">
+                  {result.jsonLd}
+                </pre>
+                <p className="text-xs text-gray-500 mt-2">
+                  Paste into the page's HTML. Only mark up questions and answers that appear on the page itself.
+                </p>
+              </div>
+
+              <p className="text-xs text-gray-500 mt-4" data-testid="text-engine">
+                Generated by {result.engine === "template" ? "offline engine" : result.engine}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
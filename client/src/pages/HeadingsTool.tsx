@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, Heading, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import OutlineTree, { outlineToText } from "@/components/OutlineTree";
+import {
+  headingAnalysisRequestSchema,
+  type ContentFormat,
+  type HeadingAnalysisRequest,
+  type HeadingAnalysisResponse,
+  type HeadingIssue,
+  type TitleCaseStyle,
+} from "@shared/schema";
+
+const SEVERITY_STYLES: Record<HeadingIssue["severity"], string> = {
+  error: "bg-red-100 text-red-800",
+  warning: "bg-yellow-100 text-yellow-800",
+  notice: "bg-blue-100 text-blue-800",
+};
+
+const CASING_LABELS = {
+  title: "Title case",
+  sentence: "Sentence case",
+  either: "",
+  neither: "Mixed case",
+};
+
+export default function HeadingsTool() {
+  const { toast } = useToast();
+  const [result, setResult] = useState<HeadingAnalysisResponse | null>(null);
+
+  const form = useForm<HeadingAnalysisRequest>({
+    resolver: zodResolver(headingAnalysisRequestSchema),
+    defaultValues: {
+      content: "",
+      format: "auto",
+      style: "ap",
+      maxLength: 70,
+    },
+  });
+
+  const analyzeMutation = useMutation({
+    mutationFn: async (data: HeadingAnalysisRequest) => {
+      const response = await apiRequest("POST", "/api/headings", data);
+      return response.json();
+    },
+    onSuccess: (data: HeadingAnalysisResponse) => {
+      setResult(data);
+      toast({
+        title: "Headings extracted!",
+        description: `Found ${data.headings.length} headings.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Analysis failed",
+        description: error.message || "Failed to analyze headings. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: HeadingAnalysisRequest) => {
+    analyzeMutation.mutate(data);
+  };
+
+  const clearForm = () => {
+    form.reset();
+    setResult(null);
+  };
+
+  const copyOutline = async () => {
+    if (result) {
+      const outlineText = outlineToText(result.title, result.sections);
+
+      try {
+        await navigator.clipboard.writeText(outlineText);
+        toast({
+          title: "Copied!",
+          description: "Extracted outline copied to clipboard.",
+        });
+      } catch (error) {
+        toast({
+          title: "Copy failed",
+          description: "Failed to copy to clipboard.",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <Link href="/" className="text-primary-600 hover:text-primary-700 font-medium mb-4 flex items-center" data-testid="link-back">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Tools
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Heading Structure Analyzer</h1>
+          <p className="text-gray-600">Extract the H1-H6 outline of a page and catch structure and casing problems</p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div>
+              <Label htmlFor="content">HTML or Markdown</Label>
+              <Textarea
+                id="content"
+                rows={10}
+                placeholder="Paste a published page's HTML or your Markdown draft..."
+                {...form.register("content")}
+                className="resize-none font-mono text-xs"
+                data-testid="textarea-content"
+              />
+              {form.formState.errors.content && (
+                <p className="text-sm text-red-600 mt-1">{form.formState.errors.content.message}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="format">Content Format</Label>
+                <Select value={form.watch("format")} onValueChange={(value) => form.setValue("format", value as ContentFormat)}>
+                  <SelectTrigger data-testid="select-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Detect automatically</SelectItem>
+                    <SelectItem value="html">HTML</SelectItem>
+                    <SelectItem value="markdown">Markdown</SelectItem>
+                    <SelectItem value="text">Plain text</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="style">Title Case Style</Label>
+                <Select value={form.watch("style")} onValueChange={(value) => form.setValue("style", value as TitleCaseStyle)}>
+                  <SelectTrigger data-testid="select-style">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ap">AP</SelectItem>
+                    <SelectItem value="chicago">Chicago</SelectItem>
+                    <SelectItem value="apa">APA</SelectItem>
+                    <SelectItem value="mla">MLA</SelectItem>
+                    <SelectItem value="wikipedia">Wikipedia</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex gap-4">
+              <Button
+                type="submit"
+                disabled={analyzeMutation.isPending}
+                className="bg-indigo-600 hover:bg-indigo-700"
+                data-testid="button-analyze"
+              >
+                <Heading className="h-4 w-4 mr-2" />
+                {analyzeMutation.isPending ? "Analyzing..." : "Analyze Headings"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={clearForm}
+                data-testid="button-clear"
+              >
+                Clear
+              </Button>
+            </div>
+          </form>
+
+          {result && (
+            <div className="mt-8" data-testid="results-section">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                {result.headings.length} headings · {result.issues.length} issues
+              </h3>
+
+              {result.issues.filter((issue) => issue.headingIndex === null).map((issue, index) => (
+                <div key={index} className="flex items-center gap-2 mb-2 text-sm" data-testid={`issue-document-${index}`}>
+                  <Badge className={SEVERITY_STYLES[issue.severity]}>{issue.severity}</Badge>
+                  <span className="text-gray-700">{issue.message}</span>
+                </div>
+              ))}
+
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 mb-8 mt-4" data-testid="heading-tree">
+                {result.headings.map((heading, index) => {
+                  const issues = result.issues.filter((issue) => issue.headingIndex === index);
+                  return (
+                    <div key={index} className="py-2 pr-4" style={{ paddingLeft: `${heading.level * 1.25}rem` }} data-testid={`heading-${index}`}>
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs font-mono text-gray-400 w-6">H{heading.level}</span>
+                        <span className={`text-gray-900 ${heading.level <= 2 ? "font-semibold" : ""}`}>
+                          {heading.text || <em className="text-gray-400">(empty)</em>}
+                        </span>
+                        {CASING_LABELS[heading.casing] && (
+                          <span className="text-xs text-gray-400">{CASING_LABELS[heading.casing]}</span>
+                        )}
+                      </div>
+                      {issues.map((issue, issueIndex) => (
+                        <div key={issueIndex} className="flex items-center gap-2 ml-8 mt-1 text-sm">
+                          <Badge className={SEVERITY_STYLES[issue.severity]}>{issue.severity}</Badge>
+                          <span className="text-gray-600">{issue.message}</span>
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="flex justify-between items-center mb-4">
+                <h4 className="font-semibold text-gray-900">Extracted Outline</h4>
+                <Button variant="outline" size="sm" onClick={copyOutline} data-testid="button-copy">
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy
+                </Button>
+              </div>
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
+                <h4 className="text-xl font-bold text-gray-900 mb-4" data-testid="text-outline-title">{result.title ?? "(no H1)"}</h4>
+                <OutlineTree sections={result.sections} />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
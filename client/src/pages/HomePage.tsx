@@ -1,5 +1,5 @@
 import { Link } from "wouter";
-import { FileText, Type, BarChart3, List } from "lucide-react";
+import { FileText, Type, BarChart3, List, BookOpen, ClipboardCheck, Heading, ClipboardList, MessageCircleQuestion, Braces, Bot } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 export default function HomePage() {
@@ -44,6 +44,76 @@ export default function HomePage() {
       iconColor: "text-purple-600",
       href: "/blog-outline",
     },
+    {
+      icon: BookOpen,
+      title: "Readability",
+      description: "Score content with Flesch, Fog, SMOG and more, and spot hard sentences",
+      badge: "Instant • Free",
+      badgeColor: "text-teal-600",
+      iconBg: "bg-teal-100 group-hover:bg-teal-200",
+      iconColor: "text-teal-600",
+      href: "/readability",
+    },
+    {
+      icon: ClipboardCheck,
+      title: "Page Audit",
+      description: "Audit a page's HTML for titles, meta tags, headings, alt text and links",
+      badge: "Analytics • Free",
+      badgeColor: "text-red-600",
+      iconBg: "bg-red-100 group-hover:bg-red-200",
+      iconColor: "text-red-600",
+      href: "/page-audit",
+    },
+    {
+      icon: Heading,
+      title: "Headings",
+      description: "Extract a page's H1-H6 outline and flag skipped levels, duplicates and casing",
+      badge: "Instant • Free",
+      badgeColor: "text-indigo-600",
+      iconBg: "bg-indigo-100 group-hover:bg-indigo-200",
+      iconColor: "text-indigo-600",
+      href: "/headings",
+    },
+    {
+      icon: ClipboardList,
+      title: "Content Brief",
+      description: "Combine a title, meta description, outline, keyphrases and FAQs into one brief",
+      badge: "AI-Powered • Free",
+      badgeColor: "text-amber-600",
+      iconBg: "bg-amber-100 group-hover:bg-amber-200",
+      iconColor: "text-amber-600",
+      href: "/content-brief",
+    },
+    {
+      icon: MessageCircleQuestion,
+      title: "FAQs",
+      description: "Generate People Also Ask style questions and answers with FAQPage schema",
+      badge: "AI-Powered • Free",
+      badgeColor: "text-cyan-600",
+      iconBg: "bg-cyan-100 group-hover:bg-cyan-200",
+      iconColor: "text-cyan-600",
+      href: "/faq",
+    },
+    {
+      icon: Braces,
+      title: "Structured Data",
+      description: "Generate schema.org JSON-LD and validate the markup already on a page",
+      badge: "Instant • Free",
+      badgeColor: "text-emerald-600",
+      iconBg: "bg-emerald-100 group-hover:bg-emerald-200",
+      iconColor: "text-emerald-600",
+      href: "/structured-data",
+    },
+    {
+      icon: Bot,
+      title: "robots.txt",
+      description: "Test URLs against robots.txt rules, catch broken and unreachable rules, and build a new file",
+      badge: "Instant • Free",
+      badgeColor: "text-rose-600",
+      iconBg: "bg-rose-100 group-hover:bg-rose-200",
+      iconColor: "text-rose-600",
+      href: "/robots",
+    },
   ];
 
   return (
@@ -1,26 +1,344 @@
 import { useState } from "react";
 import { Link } from "wouter";
-import { ArrowLeft, BarChart3 } from "lucide-react";
+import { AlertTriangle, ArrowLeft, BarChart3, Check, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { keywordDensityRequestSchema, type KeywordDensityRequest, type KeywordDensityResponse } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  keywordDensityRequestSchema,
+  type ContentFormat,
+  type ContentLanguage,
+  type DensityStatus,
+  type KeywordDensityRequest,
+  type KeywordDensityResponse,
+  type KeywordEntry,
+  type KeywordZones,
+  type OverOptimizationReport,
+  type ScoringProfile,
+  type TargetKeyphraseResult,
+  type WordNormalization,
+} from "@shared/schema";
+
+// Statuses come from the scoring profile, so badges are colored by tone
+function getStatusBadge(status: string, statuses: DensityStatus[]) {
+  const variants = {
+    neutral: "bg-gray-100 text-gray-800",
+    positive: "bg-green-100 text-green-800",
+    warning: "bg-yellow-100 text-yellow-800",
+    negative: "bg-red-100 text-red-800",
+  };
+  const definition = statuses.find((candidate) => candidate.id === status);
+
+  return (
+    <Badge className={variants[definition?.tone ?? "neutral"]}>
+      {definition?.label ?? status}
+    </Badge>
+  );
+}
+
+const ZONE_LABELS: Array<[keyof KeywordZones, string]> = [
+  ["title", "Title"],
+  ["headings", "Headings"],
+  ["strong", "Bold"],
+  ["alt", "Alt text"],
+  ["anchor", "Links"],
+];
+
+function ZoneCounts({ zones }: { zones: KeywordZones }) {
+  const found = ZONE_LABELS.filter(([zone]) => zones[zone] > 0);
+  if (found.length === 0) {
+    return <span className="text-gray-400">—</span>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {found.map(([zone, label]) => (
+        <Badge key={zone} variant="outline" className="font-normal">
+          {label} ×{zones[zone]}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function KeywordTable({ title, keywords, statuses }: { title: string; keywords: KeywordEntry[]; statuses: DensityStatus[] }) {
+  if (keywords.length === 0) {
+    return <p className="text-sm text-gray-500 py-4">No repeated phrases of this length were found.</p>;
+  }
+
+  const showZones = keywords.some(keyword => keyword.zones);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+      <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
+        <h4 className="font-semibold text-gray-900">{title}</h4>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {keywords[0]?.word.includes(" ") ? "Phrase" : "Keyword"}
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Frequency
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Density
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              {showZones && (
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Placement
+                </th>
+              )}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {keywords.map((keyword, index) => (
+              <tr key={index} data-testid={`row-keyword-${index}`}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {keyword.word}
+                  {keyword.forms && keyword.forms.length > 1 && (
+                    <div className="text-xs font-normal text-gray-500" data-testid={`text-forms-${index}`}>
+                      {keyword.forms.join(", ")}
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {keyword.frequency}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {keyword.density}%
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  {getStatusBadge(keyword.status, statuses)}
+                </td>
+                {showZones && (
+                  <td className="px-6 py-4 text-sm" data-testid={`text-zones-${index}`}>
+                    {keyword.zones && <ZoneCounts zones={keyword.zones} />}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function PlacementCheck({ passed, label }: { passed: boolean; label: string }) {
+  return (
+    <span className={`inline-flex items-center text-xs ${passed ? "text-green-700" : "text-red-600"}`}>
+      {passed ? <Check className="h-3 w-3 mr-1" /> : <X className="h-3 w-3 mr-1" />}
+      {label}
+    </span>
+  );
+}
+
+function TargetKeyphraseCard({ target, statuses }: { target: TargetKeyphraseResult; statuses: DensityStatus[] }) {
+  const distributionColors = {
+    none: "text-gray-500",
+    "too-few": "text-gray-500",
+    clustered: "text-red-600",
+    uneven: "text-yellow-700",
+    spread: "text-green-700",
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4" data-testid={`card-target-${target.keyphrase}`}>
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <div className="text-xs uppercase tracking-wide text-gray-500">{target.type === "focus" ? "Focus keyphrase" : "Secondary keyphrase"}</div>
+          <div className="font-semibold text-gray-900">{target.keyphrase} {getStatusBadge(target.status, statuses)}</div>
+        </div>
+        <div className={`text-sm font-medium ${distributionColors[target.distribution]}`}>
+          {target.distributionScore === null
+            ? "Distribution: too few mentions to judge"
+            : `Distribution: ${target.distributionScore}/100 (${target.distribution})`}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-3">
+        <div>
+          <div className="text-gray-500">Exact matches</div>
+          <div className="font-medium text-gray-900">{target.exactMatches} ({target.exactDensity}%)</div>
+        </div>
+        <div>
+          <div className="text-gray-500">Partial matches</div>
+          <div className="font-medium text-gray-900">{target.partialMatches} ({target.partialDensity}%)</div>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-4">
+        <PlacementCheck passed={target.inFirst100Words} label="In first 100 words" />
+        <PlacementCheck passed={target.inHeading} label="In a heading" />
+        <PlacementCheck passed={target.inLastParagraph} label="In last paragraph" />
+      </div>
+    </div>
+  );
+}
+
+const FLAG_LABELS = {
+  "adjacent-repetition": "Repetition",
+  "keyword-list": "Keyword list",
+  "repeated-anchor": "Repeated anchor text",
+  "density-outlier": "Density outlier",
+};
+
+function OverOptimizationPanel({ report }: { report: OverOptimizationReport }) {
+  const riskColors = {
+    low: "bg-green-50 border-green-200 text-green-800",
+    moderate: "bg-yellow-50 border-yellow-200 text-yellow-800",
+    high: "bg-red-50 border-red-200 text-red-800",
+  };
+
+  return (
+    <div className="mb-8" data-testid="over-optimization">
+      <div className={`border rounded-lg p-4 mb-3 flex items-center gap-2 ${riskColors[report.risk]}`}>
+        {report.flags.length > 0 ? <AlertTriangle className="h-5 w-5" /> : <Check className="h-5 w-5" />}
+        <span className="font-semibold" data-testid="text-stuffing-risk">
+          Keyword stuffing risk: {report.risk.charAt(0).toUpperCase() + report.risk.slice(1)}
+        </span>
+        {report.flags.length === 0 && <span className="text-sm">— no over-optimization patterns found</span>}
+      </div>
+      {report.flags.map((flag, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg p-4 mb-3" data-testid={`card-flag-${index}`}>
+          <div className="flex items-center gap-2 mb-2">
+            <Badge className={flag.severity === "critical" ? "bg-red-100 text-red-800" : "bg-yellow-100 text-yellow-800"}>
+              {flag.severity === "critical" ? "Critical" : "Warning"}
+            </Badge>
+            <span className="text-xs uppercase tracking-wide text-gray-500">{FLAG_LABELS[flag.type]}</span>
+          </div>
+          <p className="text-sm text-gray-900 mb-2">{flag.message}</p>
+          <ul className="space-y-1">
+            {flag.sentences.map((sentence) => (
+              <li key={sentence.index} className="text-sm text-gray-600 border-l-2 border-red-200 pl-3">
+                <span className="text-xs text-gray-400 mr-2">#{sentence.index + 1}</span>
+                {sentence.text}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Edits profiles as JSON; saving under a new name creates a profile
+function ScoringProfileEditor({ profile, onSaved }: { profile: ScoringProfile; onSaved: (name: string) => void }) {
+  const { toast } = useToast();
+  const [json, setJson] = useState(() =>
+    JSON.stringify({ ...profile, name: profile.name === "default" ? "my-profile" : profile.name }, null, 2));
+
+  const saveMutation = useMutation({
+    mutationFn: async (body: unknown) => {
+      const response = await apiRequest("POST", "/api/scoring-profiles", body);
+      return response.json();
+    },
+    onSuccess: (saved: ScoringProfile) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-profiles"] });
+      onSaved(saved.name);
+      toast({ title: "Profile saved", description: `"${saved.name}" is ready to use.` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Save failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("DELETE", `/api/scoring-profiles/${encodeURIComponent(name)}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scoring-profiles"] });
+      onSaved("default");
+      toast({ title: "Profile deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Delete failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const save = () => {
+    try {
+      saveMutation.mutate(JSON.parse(json));
+    } catch {
+      toast({ title: "Invalid JSON", description: "Check the profile for syntax errors.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3 mt-3" data-testid="profile-editor">
+      <p className="text-sm text-gray-600">
+        Statuses are listed from least to most dense. Each band covers content up to <code>maxWords</code> and
+        assigns a status to densities <code>below</code> each cutoff, separately for focus, secondary and generic keywords.
+      </p>
+      <Textarea
+        rows={14}
+        value={json}
+        onChange={(e) => setJson(e.target.value)}
+        className="font-mono text-xs"
+        data-testid="textarea-profile-json"
+      />
+      <div className="flex gap-2">
+        <Button type="button" size="sm" onClick={save} disabled={saveMutation.isPending} data-testid="button-save-profile">
+          Save Profile
+        </Button>
+        {profile.name !== "default" && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => deleteMutation.mutate(profile.name)}
+            disabled={deleteMutation.isPending}
+            data-testid="button-delete-profile"
+          >
+            Delete "{profile.name}"
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
 
 export default function KeywordDensityTool() {
   const { toast } = useToast();
   const [result, setResult] = useState<KeywordDensityResponse | null>(null);
   const [wordCount, setWordCount] = useState(0);
+  const [customStopWordsText, setCustomStopWordsText] = useState("");
+  const [secondaryKeyphrasesText, setSecondaryKeyphrasesText] = useState("");
+  const [editingProfile, setEditingProfile] = useState(false);
+
+  const { data: profiles = [] } = useQuery<ScoringProfile[]>({
+    queryKey: ["/api/scoring-profiles"],
+  });
 
   const form = useForm<KeywordDensityRequest>({
     resolver: zodResolver(keywordDensityRequestSchema),
     defaultValues: {
       content: "",
+      format: "auto",
+      ngramSizes: [1, 2, 3],
+      language: "en",
+      removeStopWords: true,
+      customStopWords: [],
+      normalization: "none",
+      focusKeyphrase: "",
+      secondaryKeyphrases: [],
+      profile: "default",
     },
   });
 
@@ -46,13 +364,17 @@ export default function KeywordDensityTool() {
   });
 
   const onSubmit = (data: KeywordDensityRequest) => {
-    analyzeMutation.mutate(data);
+    const customStopWords = customStopWordsText.split(",").map((word) => word.trim()).filter(Boolean);
+    const secondaryKeyphrases = secondaryKeyphrasesText.split(",").map((phrase) => phrase.trim()).filter(Boolean);
+    analyzeMutation.mutate({ ...data, customStopWords, secondaryKeyphrases });
   };
 
   const clearForm = () => {
     form.reset();
     setResult(null);
     setWordCount(0);
+    setCustomStopWordsText("");
+    setSecondaryKeyphrasesText("");
   };
 
   const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -62,21 +384,6 @@ export default function KeywordDensityTool() {
     form.setValue("content", content);
   };
 
-  const getStatusBadge = (status: string) => {
-    const variants = {
-      low: "bg-gray-100 text-gray-800",
-      good: "bg-green-100 text-green-800",
-      optimal: "bg-yellow-100 text-yellow-800",
-      high: "bg-red-100 text-red-800",
-    };
-    
-    return (
-      <Badge className={variants[status as keyof typeof variants] || variants.good}>
-        {status.charAt(0).toUpperCase() + status.slice(1)}
-      </Badge>
-    );
-  };
-
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -96,7 +403,7 @@ export default function KeywordDensityTool() {
               <Textarea
                 id="content"
                 rows={8}
-                placeholder="Paste your blog content, article, or any text you want to analyze for keyword density..."
+                placeholder="Paste your blog content, article, or any text, Markdown or HTML page source you want to analyze for keyword density..."
                 {...form.register("content")}
                 onChange={handleContentChange}
                 className="resize-none"
@@ -111,6 +418,152 @@ export default function KeywordDensityTool() {
               </div>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="focusKeyphrase">Focus Keyphrase (Optional)</Label>
+                <Input
+                  id="focusKeyphrase"
+                  placeholder="e.g. email marketing tips"
+                  {...form.register("focusKeyphrase")}
+                  data-testid="input-focus-keyphrase"
+                />
+              </div>
+              <div>
+                <Label htmlFor="secondaryKeyphrases">Secondary Keyphrases (Optional)</Label>
+                <Input
+                  id="secondaryKeyphrases"
+                  placeholder="Comma-separated, e.g. newsletter design, open rate"
+                  value={secondaryKeyphrasesText}
+                  onChange={(e) => setSecondaryKeyphrasesText(e.target.value)}
+                  data-testid="input-secondary-keyphrases"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="format">Content Format</Label>
+                <Select value={form.watch("format")} onValueChange={(value) => form.setValue("format", value as ContentFormat)}>
+                  <SelectTrigger data-testid="select-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Detect automatically</SelectItem>
+                    <SelectItem value="text">Plain text</SelectItem>
+                    <SelectItem value="html">HTML</SelectItem>
+                    <SelectItem value="markdown">Markdown</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="language">Content Language</Label>
+                <Select value={form.watch("language")} onValueChange={(value) => form.setValue("language", value as ContentLanguage)}>
+                  <SelectTrigger data-testid="select-language">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="en">English</SelectItem>
+                    <SelectItem value="es">Spanish</SelectItem>
+                    <SelectItem value="fr">French</SelectItem>
+                    <SelectItem value="de">German</SelectItem>
+                    <SelectItem value="pt">Portuguese</SelectItem>
+                    <SelectItem value="it">Italian</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="normalization">Group Word Variants</Label>
+                <Select value={form.watch("normalization")} onValueChange={(value) => form.setValue("normalization", value as WordNormalization)}>
+                  <SelectTrigger data-testid="select-normalization">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Exact words</SelectItem>
+                    <SelectItem value="stem">Stemming (marketing, marketed → market)</SelectItem>
+                    <SelectItem value="lemma">Lemmatization (strategies → strategy)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-gray-500 mt-1">Grouping is available for English content only</p>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="removeStopWords"
+                  checked={form.watch("removeStopWords")}
+                  onCheckedChange={(checked) => form.setValue("removeStopWords", checked === true)}
+                  data-testid="checkbox-stop-words"
+                />
+                <Label htmlFor="removeStopWords" className="font-normal">Filter out stop words (the, and, of...)</Label>
+              </div>
+              {form.watch("removeStopWords") && (
+                <Input
+                  className="mt-2"
+                  placeholder="Extra stop words, comma-separated..."
+                  value={customStopWordsText}
+                  onChange={(e) => setCustomStopWordsText(e.target.value)}
+                  data-testid="input-custom-stop-words"
+                />
+              )}
+            </div>
+
+            <div>
+              <Label>Phrase Analysis</Label>
+              <div className="flex gap-6 mt-2">
+                {[2, 3].map((size) => (
+                  <div key={size} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`ngram-${size}`}
+                      checked={form.watch("ngramSizes").includes(size)}
+                      onCheckedChange={(checked) => {
+                        const sizes = form.getValues("ngramSizes").filter((s) => s !== size);
+                        form.setValue("ngramSizes", checked === true ? [...sizes, size] : sizes);
+                      }}
+                      data-testid={`checkbox-ngram-${size}`}
+                    />
+                    <Label htmlFor={`ngram-${size}`} className="font-normal">{size}-word phrases</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="profile">Scoring Profile</Label>
+              <div className="flex gap-2 mt-1">
+                <Select value={form.watch("profile")} onValueChange={(value) => form.setValue("profile", value)}>
+                  <SelectTrigger className="md:w-64" data-testid="select-profile">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {profiles.map((profile) => (
+                      <SelectItem key={profile.name} value={profile.name}>{profile.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setEditingProfile(!editingProfile)}
+                  data-testid="button-edit-profiles"
+                >
+                  {editingProfile ? "Close Editor" : "Edit Profiles"}
+                </Button>
+              </div>
+              <p className="text-sm text-gray-500 mt-1">
+                {profiles.find((profile) => profile.name === form.watch("profile"))?.description}
+              </p>
+              {editingProfile && profiles.some((profile) => profile.name === form.watch("profile")) && (
+                <ScoringProfileEditor
+                  key={form.watch("profile")}
+                  profile={profiles.find((profile) => profile.name === form.watch("profile"))!}
+                  onSaved={(name) => form.setValue("profile", name)}
+                />
+              )}
+            </div>
+
             <div className="flex gap-4">
               <Button 
                 type="submit" 
@@ -141,6 +594,25 @@ export default function KeywordDensityTool() {
                 </div>
               </div>
 
+              {result.format !== "text" && (
+                <p className="text-sm text-gray-600 mb-6" data-testid="text-format">
+                  Analyzed as {result.format === "html" ? "HTML" : "Markdown"}
+                  {result.title && <> · Title: <span className="font-medium">{result.title}</span></>}
+                  {" "}— navigation, scripts and markup are excluded from the counts.
+                </p>
+              )}
+
+              {result.targets.length > 0 && (
+                <div className="mb-8 space-y-3" data-testid="target-keyphrases">
+                  <h4 className="font-semibold text-gray-900">Target Keyphrases</h4>
+                  {result.targets.map((target) => (
+                    <TargetKeyphraseCard key={`${target.type}-${target.keyphrase}`} target={target} statuses={result.profile.statuses} />
+                  ))}
+                </div>
+              )}
+
+              <OverOptimizationPanel report={result.overOptimization} />
+
               {/* Summary Cards */}
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-center">
@@ -163,50 +635,25 @@ export default function KeywordDensityTool() {
                 </div>
               </div>
 
-              {/* Keyword Table */}
-              <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
-                <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
-                  <h4 className="font-semibold text-gray-900">Top Keywords</h4>
-                </div>
-                <div className="overflow-x-auto">
-                  <table className="min-w-full divide-y divide-gray-200">
-                    <thead className="bg-gray-50">
-                      <tr>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Keyword
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Frequency
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Density
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Status
-                        </th>
-                      </tr>
-                    </thead>
-                    <tbody className="bg-white divide-y divide-gray-200">
-                      {result.keywords.map((keyword, index) => (
-                        <tr key={index} data-testid={`row-keyword-${index}`}>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                            {keyword.word}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                            {keyword.frequency}
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                            {keyword.density}%
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            {getStatusBadge(keyword.status)}
-                          </td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
-              </div>
+              {/* Keyword Tables */}
+              <Tabs defaultValue="1">
+                <TabsList className="mb-4">
+                  <TabsTrigger value="1" data-testid="tab-ngram-1">Keywords</TabsTrigger>
+                  {result.ngrams.map((group) => (
+                    <TabsTrigger key={group.size} value={String(group.size)} data-testid={`tab-ngram-${group.size}`}>
+                      {group.size}-Word Phrases
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+                <TabsContent value="1">
+                  <KeywordTable title="Top Keywords" keywords={result.keywords} statuses={result.profile.statuses} />
+                </TabsContent>
+                {result.ngrams.map((group) => (
+                  <TabsContent key={group.size} value={String(group.size)}>
+                    <KeywordTable title={`Top ${group.size}-Word Phrases`} keywords={group.keywords} statuses={result.profile.statuses} />
+                  </TabsContent>
+                ))}
+              </Tabs>
             </div>
           )}
         </div>
@@ -1,9 +1,11 @@
 import { useState } from "react";
 import { Link } from "wouter";
-import { ArrowLeft, Sparkles, Copy } from "lucide-react";
+import { ArrowLeft, Sparkles, Copy, Check, X } from "lucide-react";
+import SerpPreview from "@/components/SerpPreview";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -12,15 +14,29 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { metaDescriptionRequestSchema, type MetaDescriptionRequest, type MetaDescriptionResponse } from "@shared/schema";
 
+function ScoreCheck({ passed, label }: { passed: boolean; label: string }) {
+  return (
+    <span className={`inline-flex items-center text-xs ${passed ? "text-green-700" : "text-gray-500"}`}>
+      {passed ? <Check className="h-3 w-3 mr-1" /> : <X className="h-3 w-3 mr-1" />}
+      {label}
+    </span>
+  );
+}
+
 export default function MetaDescriptionTool() {
   const { toast } = useToast();
   const [result, setResult] = useState<MetaDescriptionResponse | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [submittedTitle, setSubmittedTitle] = useState("");
+  const [pageUrl, setPageUrl] = useState("");
 
   const form = useForm<MetaDescriptionRequest>({
     resolver: zodResolver(metaDescriptionRequestSchema),
     defaultValues: {
       title: "",
       audience: "",
+      variants: 3,
+      ellipsis: false,
     },
   });
 
@@ -31,9 +47,10 @@ export default function MetaDescriptionTool() {
     },
     onSuccess: (data: MetaDescriptionResponse) => {
       setResult(data);
+      setSelectedIndex(0);
       toast({
-        title: "Meta description generated!",
-        description: "Your SEO-optimized meta description is ready.",
+        title: "Meta descriptions generated!",
+        description: `${data.variants.length} ranked variants are ready. Pick the one you like best.`,
       });
     },
     onError: (error: any) => {
@@ -46,13 +63,16 @@ export default function MetaDescriptionTool() {
   });
 
   const onSubmit = (data: MetaDescriptionRequest) => {
+    setSubmittedTitle(data.title);
     generateMutation.mutate(data);
   };
 
+  const selected = result?.variants[selectedIndex];
+
   const copyToClipboard = async () => {
-    if (result?.content) {
+    if (selected?.content) {
       try {
-        await navigator.clipboard.writeText(result.content);
+        await navigator.clipboard.writeText(selected.content);
         toast({
           title: "Copied!",
           description: "Meta description copied to clipboard.",
@@ -70,6 +90,8 @@ export default function MetaDescriptionTool() {
   const clearForm = () => {
     form.reset();
     setResult(null);
+    setSelectedIndex(0);
+    setPageUrl("");
   };
 
   return (
@@ -101,20 +123,60 @@ export default function MetaDescriptionTool() {
             </div>
 
             <div>
-              <Label htmlFor="audience">Target Audience (Optional)</Label>
-              <Select value={form.watch("audience")} onValueChange={(value) => form.setValue("audience", value)}>
-                <SelectTrigger data-testid="select-audience">
-                  <SelectValue placeholder="Select target audience..." />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="beginners">Beginners</SelectItem>
-                  <SelectItem value="intermediate">Intermediate</SelectItem>
-                  <SelectItem value="advanced">Advanced</SelectItem>
-                  <SelectItem value="business-owners">Business Owners</SelectItem>
-                  <SelectItem value="marketers">Marketers</SelectItem>
-                  <SelectItem value="developers">Developers</SelectItem>
-                </SelectContent>
-              </Select>
+              <Label htmlFor="url">Page URL (Optional)</Label>
+              <Input
+                id="url"
+                placeholder="https://example.com/blog/your-post"
+                value={pageUrl}
+                onChange={(e) => setPageUrl(e.target.value)}
+                data-testid="input-url"
+              />
+              <p className="text-sm text-gray-500 mt-1">Used for the breadcrumb in the search result preview</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="audience">Target Audience (Optional)</Label>
+                <Select value={form.watch("audience")} onValueChange={(value) => form.setValue("audience", value)}>
+                  <SelectTrigger data-testid="select-audience">
+                    <SelectValue placeholder="Select target audience..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="beginners">Beginners</SelectItem>
+                    <SelectItem value="intermediate">Intermediate</SelectItem>
+                    <SelectItem value="advanced">Advanced</SelectItem>
+                    <SelectItem value="business-owners">Business Owners</SelectItem>
+                    <SelectItem value="marketers">Marketers</SelectItem>
+                    <SelectItem value="developers">Developers</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="variants">Number of Variants</Label>
+                <Select value={String(form.watch("variants"))} onValueChange={(value) => form.setValue("variants", Number(value))}>
+                  <SelectTrigger data-testid="select-variants">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">1 variant</SelectItem>
+                    <SelectItem value="2">2 variants</SelectItem>
+                    <SelectItem value="3">3 variants</SelectItem>
+                    <SelectItem value="4">4 variants</SelectItem>
+                    <SelectItem value="5">5 variants</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="ellipsis"
+                checked={form.watch("ellipsis")}
+                onCheckedChange={(checked) => form.setValue("ellipsis", checked === true)}
+                data-testid="checkbox-ellipsis"
+              />
+              <Label htmlFor="ellipsis" className="font-normal">Add an ellipsis when a description has to be cut mid-sentence</Label>
             </div>
 
             <div className="flex gap-4">
@@ -149,28 +211,73 @@ export default function MetaDescriptionTool() {
 
           {result && (
             <div className="mt-8" data-testid="results-section">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Generated Meta Description</h3>
-              <div className="bg-green-50 border border-green-200 rounded-lg p-6">
-                <div className="flex justify-between items-start mb-3">
-                  <h4 className="font-medium text-green-900">Meta Description</h4>
-                  <span className="text-sm text-green-600 font-mono" data-testid="text-character-count">
-                    {result.length} characters
-                  </span>
-                </div>
-                <p className="text-gray-800 leading-relaxed mb-4" data-testid="text-meta-description">
-                  {result.content}
-                </p>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={copyToClipboard}
-                  className="text-green-600 hover:text-green-700"
-                  data-testid="button-copy"
-                >
-                  <Copy className="h-4 w-4 mr-1" />
-                  Copy to Clipboard
-                </Button>
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Generated Meta Descriptions</h3>
+                <span className="text-xs text-gray-500" data-testid="text-engine">
+                  Generated by {result.engine === "template" ? "offline engine" : result.engine}
+                </span>
+              </div>
+              <div className="space-y-3">
+                {result.variants.map((variant, index) => (
+                  <button
+                    type="button"
+                    key={index}
+                    onClick={() => setSelectedIndex(index)}
+                    className={`w-full text-left rounded-lg border p-5 transition-colors ${
+                      index === selectedIndex
+                        ? "bg-green-50 border-green-400 ring-1 ring-green-400"
+                        : "bg-white border-gray-200 hover:border-gray-300"
+                    }`}
+                    data-testid={`card-variant-${index}`}
+                  >
+                    <div className="flex justify-between items-start mb-2">
+                      <h4 className="font-medium text-gray-900">
+                        Variant {index + 1}
+                        {index === 0 && <span className="ml-2 text-xs text-green-600">Top ranked</span>}
+                      </h4>
+                      <span className="text-sm font-mono text-gray-600" data-testid={`text-variant-score-${index}`}>
+                        Score {variant.score.total}/100
+                      </span>
+                    </div>
+                    <p className="text-gray-800 leading-relaxed mb-3" data-testid={`text-meta-description-${index}`}>
+                      {variant.content}
+                    </p>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1">
+                      <span className="text-xs text-gray-600 font-mono">{variant.score.characters} chars</span>
+                      <span className="text-xs text-gray-600 font-mono">~{variant.score.pixelWidth}px</span>
+                      <ScoreCheck
+                        passed={variant.score.hasPrimaryKeyword}
+                        label={variant.score.primaryKeyword ? `Keyword "${variant.score.primaryKeyword}"` : "Keyword"}
+                      />
+                      <ScoreCheck passed={variant.score.hasCallToAction} label="Call to action" />
+                      <ScoreCheck passed={variant.score.endsWithCompleteSentence} label="Complete sentence" />
+                    </div>
+                    {variant.truncation.truncated && (
+                      <p className="text-xs text-amber-700 mt-2" data-testid={`text-truncation-${index}`}>
+                        {variant.truncation.strategy === "sentence" ? "Trimmed to the last full sentence" : "Trimmed at a word boundary"}
+                        {" "}— removed: <span className="italic">"{variant.truncation.removed}"</span>
+                      </p>
+                    )}
+                  </button>
+                ))}
               </div>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={copyToClipboard}
+                className="mt-4 text-green-600 hover:text-green-700"
+                data-testid="button-copy"
+              >
+                <Copy className="h-4 w-4 mr-1" />
+                Copy Selected Variant
+              </Button>
+
+              {selected && (
+                <div className="mt-6">
+                  <SerpPreview title={submittedTitle} description={selected.content} url={pageUrl || undefined} />
+                </div>
+              )}
             </div>
           )}
         </div>
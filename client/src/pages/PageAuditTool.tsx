@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, ClipboardCheck, Check, X, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  pageAuditRequestSchema,
+  type AuditCheck,
+  type PageAuditRequest,
+  type PageAuditResponse,
+} from "@shared/schema";
+
+const SEVERITY_GROUPS: Array<{ severity: AuditCheck["severity"]; title: string; className: string }> = [
+  { severity: "critical", title: "Critical Issues", className: "border-red-200 bg-red-50" },
+  { severity: "warning", title: "Warnings", className: "border-yellow-200 bg-yellow-50" },
+  { severity: "notice", title: "Notices", className: "border-blue-200 bg-blue-50" },
+];
+
+function scoreColor(score: number) {
+  if (score >= 80) return "text-green-600";
+  if (score >= 50) return "text-yellow-600";
+  return "text-red-600";
+}
+
+function CheckRow({ item }: { item: AuditCheck }) {
+  return (
+    <div className="flex items-start gap-3 py-2" data-testid={`check-${item.id}`}>
+      {item.passed
+        ? <Check className="h-4 w-4 text-green-600 mt-1 shrink-0" />
+        : <X className="h-4 w-4 text-red-600 mt-1 shrink-0" />}
+      <div className="min-w-0">
+        <div className="text-sm font-medium text-gray-900">{item.label}</div>
+        <div className="text-sm text-gray-600">{item.message}</div>
+        {item.value && <div className="text-xs text-gray-500 break-all">{item.value}</div>}
+      </div>
+    </div>
+  );
+}
+
+export default function PageAuditTool() {
+  const { toast } = useToast();
+  const [result, setResult] = useState<PageAuditResponse | null>(null);
+
+  const form = useForm<PageAuditRequest>({
+    resolver: zodResolver(pageAuditRequestSchema),
+    defaultValues: {
+      html: "",
+      url: "",
+      focusKeyphrase: "",
+      titleStyle: "ap",
+      profile: "default",
+    },
+  });
+
+  const auditMutation = useMutation({
+    mutationFn: async (data: PageAuditRequest) => {
+      const response = await apiRequest("POST", "/api/audit/page", data);
+      return response.json();
+    },
+    onSuccess: (data: PageAuditResponse) => {
+      setResult(data);
+      toast({
+        title: "Audit complete!",
+        description: "Your on-page SEO report is ready.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Audit failed",
+        description: error.message || "Failed to audit the page. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: PageAuditRequest) => {
+    auditMutation.mutate({ ...data, url: data.url?.trim() || undefined });
+  };
+
+  const clearForm = () => {
+    form.reset();
+    setResult(null);
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      form.setValue("html", await file.text(), { shouldValidate: true });
+    }
+    e.target.value = "";
+  };
+
+  const passedChecks = result?.checks.filter((item) => item.passed) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <Link href="/" className="text-primary-600 hover:text-primary-700 font-medium mb-4 flex items-center" data-testid="link-back">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Tools
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">On-Page SEO Audit</h1>
+          <p className="text-gray-600">Check a page's HTML for the on-page issues that hold rankings back</p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div>
+              <div className="flex justify-between items-center mb-1">
+                <Label htmlFor="html">Page HTML</Label>
+                <label className="text-sm text-primary-600 hover:text-primary-700 cursor-pointer flex items-center" data-testid="label-upload">
+                  <Upload className="h-4 w-4 mr-1" />
+                  Upload .html file
+                  <input type="file" accept=".html,.htm,text/html" className="hidden" onChange={handleFileUpload} data-testid="input-upload" />
+                </label>
+              </div>
+              <Textarea
+                id="html"
+                rows={10}
+                placeholder="Paste the full HTML source of the page, from <!doctype html> to </html>..."
+                {...form.register("html")}
+                className="resize-none font-mono text-xs"
+                data-testid="textarea-html"
+              />
+              <p className="text-sm text-gray-500 mt-1">Up to 4 MB of HTML.</p>
+              {form.formState.errors.html && (
+                <p className="text-sm text-red-600 mt-1">{form.formState.errors.html.message}</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="url">Page URL (Optional)</Label>
+                <Input
+                  id="url"
+                  placeholder="https://example.com/blog/post"
+                  {...form.register("url")}
+                  data-testid="input-url"
+                />
+                <p className="text-sm text-gray-500 mt-1">Used to tell internal links from external ones</p>
+              </div>
+              <div>
+                <Label htmlFor="focusKeyphrase">Focus Keyphrase (Optional)</Label>
+                <Input
+                  id="focusKeyphrase"
+                  placeholder="e.g. email marketing tips"
+                  {...form.register("focusKeyphrase")}
+                  data-testid="input-focus-keyphrase"
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-4">
+              <Button
+                type="submit"
+                disabled={auditMutation.isPending}
+                className="bg-red-600 hover:bg-red-700"
+                data-testid="button-audit"
+              >
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+                {auditMutation.isPending ? "Auditing..." : "Audit Page"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={clearForm}
+                data-testid="button-clear"
+              >
+                Clear
+              </Button>
+            </div>
+          </form>
+
+          {result && (
+            <div className="mt-8" data-testid="results-section">
+              <div className="flex flex-col md:flex-row md:items-center gap-6 mb-8">
+                <div className="text-center">
+                  <div className={`text-5xl font-bold ${scoreColor(result.score)}`} data-testid="text-score">{result.score}</div>
+                  <div className="text-sm text-gray-500">SEO score</div>
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="text-lg font-medium text-blue-800 truncate" data-testid="text-title">{result.title ?? "(no title)"}</div>
+                  <div className="text-sm text-gray-600 line-clamp-2">{result.metaDescription ?? "(no meta description)"}</div>
+                  <div className="flex flex-wrap gap-2 mt-2 text-xs text-gray-600">
+                    <Badge variant="outline">{result.stats.words} words</Badge>
+                    <Badge variant="outline">{result.stats.headings} headings</Badge>
+                    <Badge variant="outline">{result.stats.imagesWithAlt}/{result.stats.images} images with alt</Badge>
+                    <Badge variant="outline">{result.stats.internalLinks} internal links</Badge>
+                    <Badge variant="outline">{result.stats.externalLinks} external links</Badge>
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-4 mb-8">
+                {SEVERITY_GROUPS.map((group) => {
+                  const failed = result.checks.filter((item) => !item.passed && item.severity === group.severity);
+                  if (failed.length === 0) return null;
+                  return (
+                    <div key={group.severity} className={`border rounded-lg p-4 ${group.className}`} data-testid={`group-${group.severity}`}>
+                      <h4 className="font-semibold text-gray-900 mb-1">{group.title} ({failed.length})</h4>
+                      <div className="divide-y divide-gray-200">
+                        {failed.map((item) => <CheckRow key={item.id} item={item} />)}
+                      </div>
+                    </div>
+                  );
+                })}
+                <div className="border border-green-200 bg-green-50 rounded-lg p-4" data-testid="group-passed">
+                  <h4 className="font-semibold text-gray-900 mb-1">Passed Checks ({passedChecks.length})</h4>
+                  <div className="divide-y divide-gray-200">
+                    {passedChecks.map((item) => <CheckRow key={item.id} item={item} />)}
+                  </div>
+                </div>
+              </div>
+
+              {result.topKeywords.length > 0 && (
+                <div>
+                  <h4 className="font-semibold text-gray-900 mb-2">Top Keywords</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {result.topKeywords.map((keyword) => (
+                      <Badge key={keyword.word} variant="outline" className="font-normal">
+                        {keyword.word} · {keyword.frequency}× · {keyword.density}%
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
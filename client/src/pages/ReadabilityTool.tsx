@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, BookOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  readabilityRequestSchema,
+  type ContentFormat,
+  type ReadabilityRequest,
+  type ReadabilityResponse,
+  type ReadabilitySentence,
+} from "@shared/schema";
+
+const RATIO_STATUS = {
+  good: { label: "Good", className: "bg-green-100 text-green-800" },
+  "needs-improvement": { label: "Needs improvement", className: "bg-yellow-100 text-yellow-800" },
+  poor: { label: "Poor", className: "bg-red-100 text-red-800" },
+};
+
+const DIFFICULTY_STYLES: Record<ReadabilitySentence["difficulty"], string> = {
+  ok: "",
+  hard: "bg-yellow-100",
+  "very-hard": "bg-red-100",
+};
+
+function RatioCard({ title, ratio, hint }: { title: string; ratio: ReadabilityResponse["passiveVoice"]; hint: string }) {
+  const status = RATIO_STATUS[ratio.status];
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex justify-between items-center mb-1">
+        <h4 className="font-semibold text-gray-900">{title}</h4>
+        <Badge className={status.className}>{status.label}</Badge>
+      </div>
+      <div className="text-2xl font-bold text-gray-900">{ratio.percent}%</div>
+      <p className="text-sm text-gray-500">{ratio.count} sentences · {hint}</p>
+    </div>
+  );
+}
+
+// Renders the analyzed text with hard sentences highlighted in place
+function HighlightedText({ paragraphs }: { paragraphs: ReadabilityResponse["paragraphs"] }) {
+  return (
+    <div className="border border-gray-200 rounded-lg p-6 space-y-4 text-gray-800 leading-relaxed" data-testid="highlighted-text">
+      {paragraphs.map((paragraph, paragraphIndex) => {
+        const sentences = paragraph.sentences.map((sentence, sentenceIndex) => (
+          <span key={sentenceIndex}>
+            <span
+              className={`${DIFFICULTY_STYLES[sentence.difficulty]} ${sentence.passive ? "underline decoration-blue-400 decoration-2" : ""}`}
+              title={sentence.difficulty === "ok" ? undefined : `${sentence.words} words · grade ${sentence.grade}`}
+            >
+              {sentence.text}
+            </span>{" "}
+          </span>
+        ));
+        return paragraph.type === "heading"
+          ? <h4 key={paragraphIndex} className="font-semibold text-gray-900">{sentences}</h4>
+          : <p key={paragraphIndex}>{sentences}</p>;
+      })}
+    </div>
+  );
+}
+
+export default function ReadabilityTool() {
+  const { toast } = useToast();
+  const [result, setResult] = useState<ReadabilityResponse | null>(null);
+
+  const form = useForm<ReadabilityRequest>({
+    resolver: zodResolver(readabilityRequestSchema),
+    defaultValues: {
+      content: "",
+      format: "auto",
+    },
+  });
+
+  const analyzeMutation = useMutation({
+    mutationFn: async (data: ReadabilityRequest) => {
+      const response = await apiRequest("POST", "/api/readability", data);
+      return response.json();
+    },
+    onSuccess: (data: ReadabilityResponse) => {
+      setResult(data);
+      toast({
+        title: "Analysis complete!",
+        description: "Your readability report is ready.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Analysis failed",
+        description: error.message || "Failed to analyze readability. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: ReadabilityRequest) => {
+    analyzeMutation.mutate(data);
+  };
+
+  const clearForm = () => {
+    form.reset();
+    setResult(null);
+  };
+
+  const hardSentences = result
+    ? result.paragraphs.flatMap((paragraph) => paragraph.sentences).filter((sentence) => sentence.difficulty !== "ok")
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <Link href="/" className="text-primary-600 hover:text-primary-700 font-medium mb-4 flex items-center" data-testid="link-back">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Tools
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Readability Checker</h1>
+          <p className="text-gray-600">Score how easy your content is to read and find the sentences that slow readers down</p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div>
+              <Label htmlFor="content">Content to Analyze</Label>
+              <Textarea
+                id="content"
+                rows={10}
+                placeholder="Paste your article as plain text, Markdown or HTML..."
+                {...form.register("content")}
+                className="resize-none"
+                data-testid="textarea-content"
+              />
+              {form.formState.errors.content && (
+                <p className="text-sm text-red-600 mt-1">{form.formState.errors.content.message}</p>
+              )}
+              <p className="text-sm text-gray-500 mt-2">Scores are calibrated for English text. Headings are shown but not scored.</p>
+            </div>
+
+            <div className="md:w-1/3">
+              <Label htmlFor="format">Content Format</Label>
+              <Select value={form.watch("format")} onValueChange={(value) => form.setValue("format", value as ContentFormat)}>
+                <SelectTrigger data-testid="select-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Detect automatically</SelectItem>
+                  <SelectItem value="text">Plain text</SelectItem>
+                  <SelectItem value="html">HTML</SelectItem>
+                  <SelectItem value="markdown">Markdown</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex gap-4">
+              <Button
+                type="submit"
+                disabled={analyzeMutation.isPending}
+                className="bg-teal-600 hover:bg-teal-700"
+                data-testid="button-analyze"
+              >
+                <BookOpen className="h-4 w-4 mr-2" />
+                {analyzeMutation.isPending ? "Analyzing..." : "Check Readability"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={clearForm}
+                data-testid="button-clear"
+              >
+                Clear
+              </Button>
+            </div>
+          </form>
+
+          {result && (
+            <div className="mt-8" data-testid="results-section">
+              <div className="flex justify-between items-center mb-6">
+                <h3 className="text-lg font-semibold text-gray-900">Readability Report</h3>
+                <div className="text-sm text-gray-600">
+                  <span data-testid="text-word-count">{result.stats.words}</span> words ·{" "}
+                  {result.stats.sentences} sentences · {result.stats.readingTime} min read
+                </div>
+              </div>
+
+              {/* Index Cards */}
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+                {result.indices.map((index) => (
+                  <div key={index.id} className="bg-teal-50 border border-teal-200 rounded-lg p-4 text-center" data-testid={`card-index-${index.id}`}>
+                    <div className="text-2xl font-bold text-teal-700">{index.score}</div>
+                    <div className="text-sm font-medium text-teal-800">{index.name}</div>
+                    <div className="text-xs text-teal-700">{index.label}</div>
+                    {index.note && <div className="text-xs text-gray-500 mt-1">{index.note}</div>}
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+                <div className="border border-gray-200 rounded-lg p-4">
+                  <h4 className="font-semibold text-gray-900 mb-2">Sentence Length</h4>
+                  <p className="text-sm text-gray-500 mb-3">
+                    Average {result.sentenceLengths.average} words · longest {result.sentenceLengths.longest}
+                  </p>
+                  <div className="space-y-2">
+                    {result.sentenceLengths.buckets.map((bucket) => (
+                      <div key={bucket.label} className="text-sm" data-testid={`bucket-${bucket.min}`}>
+                        <div className="flex justify-between text-gray-600">
+                          <span>{bucket.label}</span>
+                          <span>{bucket.count}</span>
+                        </div>
+                        <div className="h-2 bg-gray-100 rounded">
+                          <div className="h-2 bg-teal-500 rounded" style={{ width: `${bucket.percent}%` }} />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <RatioCard title="Passive Voice" ratio={result.passiveVoice} hint="aim for 10% or less" />
+                <RatioCard title="Transition Words" ratio={result.transitionWords} hint="aim for 30% or more" />
+              </div>
+
+              {result.paragraphWarnings.length > 0 && (
+                <div className="mb-8 space-y-2" data-testid="paragraph-warnings">
+                  <h4 className="font-semibold text-gray-900">Long Paragraphs</h4>
+                  {result.paragraphWarnings.map((warning) => (
+                    <div key={warning.index} className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm">
+                      <div className="text-yellow-800">{warning.message}</div>
+                      <div className="text-gray-600 italic">{warning.excerpt}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex justify-between items-center mb-3">
+                <h4 className="font-semibold text-gray-900">Hard Sentences ({hardSentences.length})</h4>
+                <div className="flex gap-3 text-xs text-gray-600">
+                  <span><span className="inline-block w-3 h-3 bg-yellow-100 mr-1 align-middle" />Hard to read</span>
+                  <span><span className="inline-block w-3 h-3 bg-red-100 mr-1 align-middle" />Very hard to read</span>
+                  <span className="underline decoration-blue-400 decoration-2">Passive voice</span>
+                </div>
+              </div>
+              <HighlightedText paragraphs={result.paragraphs} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,517 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, Bot, Copy, Plus, Trash2, CheckCircle, FlaskConical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useFieldArray, useForm, type FieldValues, type Resolver, type ResolverOptions, type ResolverResult } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { fieldErrorMessage } from "@/lib/form-errors";
+import type { z } from "zod";
+import {
+  robotsGenerateRequestSchema,
+  robotsTestRequestSchema,
+  type RobotsGenerateRequest,
+  type RobotsGenerateResponse,
+  type RobotsIssue,
+  type RobotsRule,
+  type RobotsTestRequest,
+  type RobotsTestResponse,
+} from "@shared/schema";
+
+type Mode = "test" | "generate";
+
+// Lists are edited one entry per line
+interface TestForm {
+  content: string;
+  userAgent: string;
+  urls: string;
+}
+
+interface GeneratorForm {
+  groups: { userAgents: string; disallow: string; allow: string; crawlDelay: string }[];
+  sitemaps: string;
+}
+
+const SEVERITY_STYLES: Record<RobotsIssue["severity"], string> = {
+  error: "bg-red-100 text-red-800",
+  warning: "bg-yellow-100 text-yellow-800",
+};
+
+const COMMON_AGENTS = ["Googlebot", "Bingbot", "GPTBot", "*"];
+
+const EMPTY_GROUP = { userAgents: "", disallow: "", allow: "", crawlDelay: "" };
+
+function splitLines(value: string): string[] {
+  return value.split("\n").map((line) => line.trim()).filter(Boolean);
+}
+
+// Validates with the request schema after splitting the one-per-line fields into
+// lists. Errors for list entries land under the text field's name, so the result
+// is keyed by the form's fields even though the schema checked the request.
+function linesResolver<TForm extends FieldValues, TSchema extends z.ZodTypeAny>(
+  schema: TSchema,
+  toRequest: (values: TForm) => z.input<TSchema>,
+): Resolver<TForm, unknown, z.output<TSchema>> {
+  const resolve = zodResolver(schema);
+  return async (values, context, options) =>
+    (await resolve(toRequest(values), context, options as ResolverOptions<z.input<TSchema>>)) as ResolverResult<TForm, z.output<TSchema>>;
+}
+
+const testResolver = linesResolver(robotsTestRequestSchema, (values: TestForm) => ({
+  ...values,
+  urls: splitLines(values.urls),
+}));
+
+const generatorResolver = linesResolver(robotsGenerateRequestSchema, (values: GeneratorForm) => ({
+  groups: values.groups.map((group) => ({
+    ...group,
+    userAgents: splitLines(group.userAgents),
+    disallow: splitLines(group.disallow),
+    allow: splitLines(group.allow),
+  })),
+  sitemaps: splitLines(values.sitemaps),
+}));
+
+function formatRule(rule: RobotsRule): string {
+  return `${rule.type === "allow" ? "Allow" : "Disallow"}: ${rule.path}`;
+}
+
+function IssueList({ issues }: { issues: RobotsIssue[] }) {
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-green-700" data-testid="issues-clean">
+        <CheckCircle className="h-4 w-4" />
+        No syntax errors or unreachable rules
+      </div>
+    );
+  }
+  return (
+    <div className="space-y-2">
+      {issues.map((issue, index) => (
+        <div key={index} className="flex items-center gap-2 text-sm" data-testid={`issue-${index}`}>
+          <Badge className={SEVERITY_STYLES[issue.severity]}>{issue.severity}</Badge>
+          {issue.line !== null && <span className="font-mono text-xs text-gray-400 w-14">line {issue.line}</span>}
+          <span className="text-gray-700">{issue.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function RobotsTool() {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<Mode>("test");
+  const [testResult, setTestResult] = useState<RobotsTestResponse | null>(null);
+  const [generated, setGenerated] = useState<RobotsGenerateResponse | null>(null);
+
+  const testForm = useForm<TestForm, unknown, RobotsTestRequest>({
+    resolver: testResolver,
+    defaultValues: {
+      content: "",
+      userAgent: "Googlebot",
+      urls: "",
+    },
+  });
+
+  const generatorForm = useForm<GeneratorForm, unknown, RobotsGenerateRequest>({
+    resolver: generatorResolver,
+    defaultValues: {
+      groups: [{ ...EMPTY_GROUP, userAgents: "*" }],
+      sitemaps: "",
+    },
+  });
+  const groups = useFieldArray({ control: generatorForm.control, name: "groups" });
+
+  const testMutation = useMutation({
+    mutationFn: async (data: RobotsTestRequest) => {
+      const response = await apiRequest("POST", "/api/robots/test", data);
+      return response.json();
+    },
+    onSuccess: (data: RobotsTestResponse) => {
+      setTestResult(data);
+      const blocked = data.results.filter((result) => !result.allowed).length;
+      toast({
+        title: "Test complete!",
+        description: `${blocked} of ${data.results.length} URLs blocked for ${data.userAgent}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Test failed",
+        description: error.message || "Failed to test URLs. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async (data: RobotsGenerateRequest) => {
+      const response = await apiRequest("POST", "/api/robots/generate", data);
+      return response.json();
+    },
+    onSuccess: (data: RobotsGenerateResponse) => {
+      setGenerated(data);
+      toast({
+        title: "robots.txt generated!",
+        description: "Upload it to the root of your site.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Generation failed",
+        description: error.message || "Failed to generate robots.txt. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Moves the generated file into the tester
+  const testGenerated = (content: string) => {
+    testForm.setValue("content", content);
+    setTestResult(null);
+    setMode("test");
+  };
+
+  const copyText = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied!",
+        description: `${label} copied to clipboard.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Copy failed",
+        description: "Failed to copy to clipboard.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const clearTest = () => {
+    testForm.reset();
+    setTestResult(null);
+  };
+
+  const clearGenerator = () => {
+    generatorForm.reset();
+    setGenerated(null);
+  };
+
+  const testErrors = testForm.formState.errors;
+  const generatorErrors = generatorForm.formState.errors;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <Link href="/" className="text-primary-600 hover:text-primary-700 font-medium mb-4 flex items-center" data-testid="link-back">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Tools
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">robots.txt Tester</h1>
+          <p className="text-gray-600">See which rule decides each URL for a crawler, catch syntax errors and rules that never apply, or build a new file</p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+          <Tabs value={mode} onValueChange={(value) => setMode(value as Mode)}>
+            <TabsList className="mb-6">
+              <TabsTrigger value="test" data-testid="tab-test">Test</TabsTrigger>
+              <TabsTrigger value="generate" data-testid="tab-generate">Generate</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="test">
+              <form onSubmit={testForm.handleSubmit((data) => testMutation.mutate(data))} className="space-y-6">
+                <div>
+                  <Label htmlFor="content">robots.txt</Label>
+                  <Textarea
+                    id="content"
+                    rows={12}
+                    placeholder={"User-agent: *\nDisallow: /admin/\nAllow: /admin/public/"}
+                    className="resize-none font-mono text-xs"
+                    {...testForm.register("content")}
+                    data-testid="textarea-content"
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="userAgent">User-agent</Label>
+                  <Input id="userAgent" placeholder="Googlebot" {...testForm.register("userAgent")} data-testid="input-user-agent" />
+                  <div className="flex gap-2 mt-2">
+                    {COMMON_AGENTS.map((agent) => (
+                      <Button
+                        key={agent}
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => testForm.setValue("userAgent", agent)}
+                        data-testid={`button-agent-${agent === "*" ? "any" : agent.toLowerCase()}`}
+                      >
+                        {agent === "*" ? "Any crawler (*)" : agent}
+                      </Button>
+                    ))}
+                  </div>
+                  {testErrors.userAgent && <p className="text-sm text-red-600 mt-1">{testErrors.userAgent.message}</p>}
+                </div>
+
+                <div>
+                  <Label htmlFor="urls">URLs to Test</Label>
+                  <Textarea
+                    id="urls"
+                    rows={5}
+                    placeholder={"https://example.com/admin/settings\n/blog/post?id=7"}
+                    className="resize-none font-mono text-xs"
+                    {...testForm.register("urls")}
+                    data-testid="textarea-urls"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">One per line. Full URLs or paths; only the path and query are matched.</p>
+                  {testErrors.urls && <p className="text-sm text-red-600 mt-1">{fieldErrorMessage(testErrors.urls)}</p>}
+                </div>
+
+                <div className="flex gap-4">
+                  <Button
+                    type="submit"
+                    disabled={testMutation.isPending}
+                    className="bg-rose-600 hover:bg-rose-700"
+                    data-testid="button-test"
+                  >
+                    <FlaskConical className="h-4 w-4 mr-2" />
+                    {testMutation.isPending ? "Testing..." : "Test URLs"}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={clearTest}
+                    data-testid="button-clear"
+                  >
+                    Clear
+                  </Button>
+                </div>
+              </form>
+
+              {testResult && (
+                <div className="mt-8" data-testid="results-test">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">Results for {testResult.userAgent}</h3>
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 mb-8">
+                    {testResult.results.map((result, index) => (
+                      <div key={index} className="p-4 flex items-start gap-3" data-testid={`result-${index}`}>
+                        <Badge className={result.allowed ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}>
+                          {result.allowed ? "Allowed" : "Blocked"}
+                        </Badge>
+                        <div className="min-w-0">
+                          <div className="font-mono text-sm text-gray-900 break-all">{result.url}</div>
+                          <div className="text-xs text-gray-500 mt-1">
+                            {result.rule
+                              ? <>Matched <span className="font-mono">{formatRule(result.rule)}</span> on line {result.rule.line}</>
+                              : result.path === "/robots.txt" ? "robots.txt itself is always allowed" : "No rule matches"}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <h4 className="font-semibold text-gray-900 mb-2">Groups</h4>
+                  <p className="text-sm text-gray-600 mb-3" data-testid="text-group-summary">
+                    {testResult.groupIndexes.length === 0
+                      ? `No group applies to ${testResult.userAgent}, so every URL is allowed.`
+                      : `${testResult.userAgent} follows the highlighted ${testResult.groupIndexes.length === 1 ? "group" : "groups, combined"}.`}
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-8">
+                    {testResult.groups.map((group, index) => (
+                      <div
+                        key={index}
+                        className={`border rounded-lg p-3 text-xs font-mono ${
+                          testResult.groupIndexes.includes(index) ? "border-rose-300 bg-rose-50" : "border-gray-200"
+                        }`}
+                        data-testid={`group-${index}`}
+                      >
+                        {group.userAgents.map((agent, agentIndex) => (
+                          <div key={agentIndex} className="font-semibold text-gray-900">User-agent: {agent}</div>
+                        ))}
+                        {group.rules.map((rule, ruleIndex) => (
+                          <div key={ruleIndex} className="text-gray-600">{formatRule(rule)}</div>
+                        ))}
+                        {group.crawlDelay !== null && <div className="text-gray-600">Crawl-delay: {group.crawlDelay}</div>}
+                      </div>
+                    ))}
+                  </div>
+                  {testResult.sitemaps.length > 0 && (
+                    <div className="text-sm text-gray-600 mb-8" data-testid="text-sitemaps">
+                      Sitemaps: <span className="font-mono text-xs">{testResult.sitemaps.join(", ")}</span>
+                    </div>
+                  )}
+
+                  <h4 className="font-semibold text-gray-900 mb-2">Issues</h4>
+                  <IssueList issues={testResult.issues} />
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="generate">
+              <form onSubmit={generatorForm.handleSubmit((data) => generateMutation.mutate(data))} className="space-y-6">
+                <div className="space-y-3">
+                  {groups.fields.map((field, index) => {
+                    const errors = generatorErrors.groups?.[index];
+                    return (
+                      <div key={field.id} className="border border-gray-200 rounded-lg p-4" data-testid={`group-form-${index}`}>
+                        <div className="flex justify-between items-center mb-2">
+                          <span className="text-sm font-medium text-gray-700">Group {index + 1}</span>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => groups.remove(index)}
+                            disabled={groups.fields.length === 1}
+                            data-testid={`button-remove-group-${index}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div>
+                            <Label htmlFor={`groups.${index}.userAgents`}>User-agents</Label>
+                            <Textarea
+                              id={`groups.${index}.userAgents`}
+                              rows={2}
+                              placeholder={"*\nGooglebot"}
+                              className="resize-none font-mono text-xs"
+                              {...generatorForm.register(`groups.${index}.userAgents`)}
+                              data-testid={`textarea-user-agents-${index}`}
+                            />
+                            {errors?.userAgents && <p className="text-sm text-red-600 mt-1">{fieldErrorMessage(errors.userAgents)}</p>}
+                          </div>
+                          <div>
+                            <Label htmlFor={`groups.${index}.crawlDelay`}>Crawl-delay (Optional)</Label>
+                            <Input
+                              id={`groups.${index}.crawlDelay`}
+                              placeholder="10"
+                              {...generatorForm.register(`groups.${index}.crawlDelay`)}
+                              data-testid={`input-crawl-delay-${index}`}
+                            />
+                            <p className="text-sm text-gray-500 mt-1">Seconds between requests. Google ignores it.</p>
+                            {errors?.crawlDelay && <p className="text-sm text-red-600 mt-1">{errors.crawlDelay.message}</p>}
+                          </div>
+                          <div>
+                            <Label htmlFor={`groups.${index}.disallow`}>Disallow</Label>
+                            <Textarea
+                              id={`groups.${index}.disallow`}
+                              rows={3}
+                              placeholder={"/admin/\n/*?sessionid="}
+                              className="resize-none font-mono text-xs"
+                              {...generatorForm.register(`groups.${index}.disallow`)}
+                              data-testid={`textarea-disallow-${index}`}
+                            />
+                            {errors?.disallow && <p className="text-sm text-red-600 mt-1">{fieldErrorMessage(errors.disallow)}</p>}
+                          </div>
+                          <div>
+                            <Label htmlFor={`groups.${index}.allow`}>Allow</Label>
+                            <Textarea
+                              id={`groups.${index}.allow`}
+                              rows={3}
+                              placeholder="/admin/public/"
+                              className="resize-none font-mono text-xs"
+                              {...generatorForm.register(`groups.${index}.allow`)}
+                              data-testid={`textarea-allow-${index}`}
+                            />
+                            {errors?.allow && <p className="text-sm text-red-600 mt-1">{fieldErrorMessage(errors.allow)}</p>}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  <p className="text-sm text-gray-500">
+                    One entry per line. Paths start with / and may use * for any characters and $ for the end of the URL. A group with no rules allows everything.
+                  </p>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => groups.append(EMPTY_GROUP)}
+                    data-testid="button-add-group"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Group
+                  </Button>
+                </div>
+
+                <div>
+                  <Label htmlFor="sitemaps">Sitemap URLs (Optional)</Label>
+                  <Textarea
+                    id="sitemaps"
+                    rows={2}
+                    placeholder="https://example.com/sitemap.xml"
+                    className="resize-none font-mono text-xs"
+                    {...generatorForm.register("sitemaps")}
+                    data-testid="textarea-sitemaps"
+                  />
+                  {generatorErrors.sitemaps && <p className="text-sm text-red-600 mt-1">{fieldErrorMessage(generatorErrors.sitemaps)}</p>}
+                </div>
+
+                <div className="flex gap-4">
+                  <Button
+                    type="submit"
+                    disabled={generateMutation.isPending}
+                    className="bg-rose-600 hover:bg-rose-700"
+                    data-testid="button-generate"
+                  >
+                    <Bot className="h-4 w-4 mr-2" />
+                    {generateMutation.isPending ? "Generating..." : "Generate robots.txt"}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={clearGenerator}
+                    data-testid="button-clear-generator"
+                  >
+                    Clear
+                  </Button>
+                </div>
+              </form>
+
+              {generated && (
+                <div className="mt-8" data-testid="results-generate">
+                  <div className="flex justify-between items-center mb-2">
+                    <h3 className="text-lg font-semibold text-gray-900">robots.txt</h3>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => testGenerated(generated.content)}
+                        className="text-rose-600 hover:text-rose-700"
+                        data-testid="button-test-generated"
+                      >
+                        <FlaskConical className="h-4 w-4 mr-1" />
+                        Test
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => copyText(generated.content, "robots.txt")}
+                        className="text-rose-600 hover:text-rose-700"
+                        data-testid="button-copy-content"
+                      >
+                        <Copy className="h-4 w-4 mr-1" />
+                        Copy
+                      </Button>
+                    </div>
+                  </div>
+                  <pre className="bg-gray-900 text-gray-100 text-xs rounded-lg p-4 overflow-x-auto mb-6" data-testid="text-content">
+                    {generated.content}
+                  </pre>
+                  <IssueList issues={generated.issues} />
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,601 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, Braces, Copy, Plus, Trash2, CheckCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useFieldArray, useForm, type FieldValues, type Resolver, type UseFormReturn } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { fieldErrorMessage } from "@/lib/form-errors";
+import type { z } from "zod";
+import {
+  articleInputSchema,
+  breadcrumbListInputSchema,
+  faqPageInputSchema,
+  howToInputSchema,
+  localBusinessInputSchema,
+  organizationInputSchema,
+  productInputSchema,
+  structuredDataTypeSchema,
+  structuredDataValidationRequestSchema,
+  type StructuredDataIssue,
+  type StructuredDataRequest,
+  type StructuredDataResponse,
+  type StructuredDataType,
+  type StructuredDataValidation,
+  type StructuredDataValidationRequest,
+} from "@shared/schema";
+
+type Mode = "generate" | "validate";
+
+// One form control. "lines" edits a list of strings as one entry per line,
+// and "list" repeats its own fields for each entry.
+interface FieldSpec {
+  name: string;
+  label: string;
+  kind?: "text" | "textarea" | "lines" | "select" | "list";
+  placeholder?: string;
+  hint?: string;
+  options?: string[];
+  defaultValue?: string;
+  fields?: FieldSpec[];
+  itemLabel?: string;
+}
+
+const TYPE_LABELS: Record<StructuredDataType, string> = {
+  Article: "Article",
+  BlogPosting: "Blog Post",
+  Product: "Product",
+  FAQPage: "FAQ Page",
+  HowTo: "How-To",
+  BreadcrumbList: "Breadcrumbs",
+  Organization: "Organization",
+  LocalBusiness: "Local Business",
+};
+
+const INPUT_SCHEMAS: Record<StructuredDataType, z.ZodTypeAny> = {
+  Article: articleInputSchema,
+  BlogPosting: articleInputSchema,
+  Product: productInputSchema,
+  FAQPage: faqPageInputSchema,
+  HowTo: howToInputSchema,
+  BreadcrumbList: breadcrumbListInputSchema,
+  Organization: organizationInputSchema,
+  LocalBusiness: localBusinessInputSchema,
+};
+
+const ARTICLE_FIELDS: FieldSpec[] = [
+  { name: "headline", label: "Headline", placeholder: "How to Start a Podcast in 2024" },
+  { name: "url", label: "Article URL (Optional)", placeholder: "https://example.com/blog/start-a-podcast" },
+  { name: "description", label: "Description (Optional)", kind: "textarea" },
+  { name: "datePublished", label: "Date Published", placeholder: "2024-05-31" },
+  { name: "dateModified", label: "Date Modified (Optional)", placeholder: "2024-06-14" },
+  { name: "authorType", label: "Author Type", kind: "select", options: ["Person", "Organization"], defaultValue: "Person" },
+  { name: "authorName", label: "Author Name", placeholder: "Jane Doe" },
+  { name: "authorUrl", label: "Author URL (Optional)", placeholder: "https://example.com/about/jane" },
+  { name: "publisherName", label: "Publisher (Optional)", placeholder: "Example Media" },
+  { name: "publisherLogo", label: "Publisher Logo URL (Optional)", placeholder: "https://example.com/logo.png" },
+  { name: "images", label: "Image URLs", kind: "lines", hint: "One per line. Google prefers 16:9, 4:3 and 1:1 versions of the same image." },
+];
+
+const ORGANIZATION_FIELDS: FieldSpec[] = [
+  { name: "name", label: "Name", placeholder: "Example Inc." },
+  { name: "url", label: "Website (Optional)", placeholder: "https://example.com" },
+  { name: "logo", label: "Logo URL (Optional)", placeholder: "https://example.com/logo.png" },
+  { name: "telephone", label: "Telephone (Optional)", placeholder: "+1-555-0100" },
+  { name: "email", label: "Email (Optional)", placeholder: "hello@example.com" },
+  { name: "description", label: "Description (Optional)", kind: "textarea" },
+  { name: "sameAs", label: "Profile URLs (Optional)", kind: "lines", hint: "One per line: social accounts, Wikipedia, business directories." },
+];
+
+const FIELDS: Record<StructuredDataType, FieldSpec[]> = {
+  Article: ARTICLE_FIELDS,
+  BlogPosting: ARTICLE_FIELDS,
+  Product: [
+    { name: "name", label: "Product Name", placeholder: "Trail Running Shoe" },
+    { name: "url", label: "Product URL (Optional)", placeholder: "https://example.com/shoes/trail" },
+    { name: "description", label: "Description (Optional)", kind: "textarea" },
+    { name: "brand", label: "Brand (Optional)" },
+    { name: "sku", label: "SKU (Optional)" },
+    { name: "gtin", label: "GTIN (Optional)", placeholder: "00012345600012" },
+    { name: "price", label: "Price (Optional)", placeholder: "89.99" },
+    { name: "priceCurrency", label: "Currency (Optional)", placeholder: "USD" },
+    {
+      name: "availability",
+      label: "Availability",
+      kind: "select",
+      options: ["InStock", "OutOfStock", "PreOrder", "BackOrder", "Discontinued", "LimitedAvailability", "SoldOut"],
+      defaultValue: "InStock",
+    },
+    { name: "ratingValue", label: "Average Rating (Optional)", placeholder: "4.5" },
+    { name: "reviewCount", label: "Review Count (Optional)", placeholder: "120" },
+    { name: "images", label: "Image URLs", kind: "lines", hint: "One per line." },
+  ],
+  FAQPage: [
+    {
+      name: "questions",
+      label: "Questions",
+      kind: "list",
+      itemLabel: "Question",
+      fields: [
+        { name: "question", label: "Question" },
+        { name: "answer", label: "Answer", kind: "textarea" },
+      ],
+    },
+  ],
+  HowTo: [
+    { name: "name", label: "Name", placeholder: "How to Repot a Houseplant" },
+    { name: "totalTime", label: "Total Time (Optional)", placeholder: "PT30M", hint: "ISO 8601 duration: PT30M is 30 minutes, PT1H30M is 90." },
+    { name: "description", label: "Description (Optional)", kind: "textarea" },
+    { name: "image", label: "Image URL (Optional)" },
+    { name: "supplies", label: "Supplies (Optional)", kind: "lines", hint: "One per line." },
+    { name: "tools", label: "Tools (Optional)", kind: "lines", hint: "One per line." },
+    {
+      name: "steps",
+      label: "Steps",
+      kind: "list",
+      itemLabel: "Step",
+      fields: [
+        { name: "name", label: "Step Name (Optional)" },
+        { name: "text", label: "Instructions", kind: "textarea" },
+        { name: "url", label: "Step URL (Optional)", placeholder: "https://example.com/repotting#step-1" },
+        { name: "image", label: "Image URL (Optional)" },
+      ],
+    },
+  ],
+  BreadcrumbList: [
+    {
+      name: "items",
+      label: "Breadcrumbs",
+      kind: "list",
+      itemLabel: "Crumb",
+      hint: "From the home page down. The last crumb is the current page and can leave its URL blank.",
+      fields: [
+        { name: "name", label: "Name" },
+        { name: "url", label: "URL", placeholder: "https://example.com/blog" },
+      ],
+    },
+  ],
+  Organization: ORGANIZATION_FIELDS,
+  LocalBusiness: [
+    { name: "businessType", label: "Business Type", defaultValue: "LocalBusiness", hint: "A schema.org type such as Restaurant, Dentist or Plumber." },
+    ...ORGANIZATION_FIELDS.slice(0, 5),
+    { name: "image", label: "Photo URL (Optional)" },
+    { name: "priceRange", label: "Price Range (Optional)", placeholder: "$$" },
+    { name: "address.streetAddress", label: "Street Address", placeholder: "123 Main St" },
+    { name: "address.addressLocality", label: "City", placeholder: "Springfield" },
+    { name: "address.addressRegion", label: "State or Region (Optional)", placeholder: "IL" },
+    { name: "address.postalCode", label: "Postal Code (Optional)", placeholder: "62701" },
+    { name: "address.addressCountry", label: "Country", placeholder: "US" },
+    { name: "latitude", label: "Latitude (Optional)", placeholder: "39.7817" },
+    { name: "longitude", label: "Longitude (Optional)", placeholder: "-89.6501" },
+    ...ORGANIZATION_FIELDS.slice(5, 6),
+    { name: "openingHours", label: "Opening Hours (Optional)", kind: "lines", placeholder: "Mo-Fr 09:00-17:00\nSa 10:00-14:00", hint: "One rule per line." },
+    ...ORGANIZATION_FIELDS.slice(6),
+  ],
+};
+
+const SEVERITY_STYLES: Record<StructuredDataIssue["severity"], string> = {
+  error: "bg-red-100 text-red-800",
+  warning: "bg-yellow-100 text-yellow-800",
+};
+
+function splitLines(value: unknown): string[] {
+  return typeof value === "string" ? value.split("\n").map((line) => line.trim()).filter(Boolean) : [];
+}
+
+function emptyEntry(fields: FieldSpec[]): FieldValues {
+  return Object.fromEntries(fields.map((field) => [field.name, field.defaultValue ?? ""]));
+}
+
+// Dotted names like "address.addressLocality" become nested values
+function defaultValues(fields: FieldSpec[]): FieldValues {
+  const values: FieldValues = {};
+  for (const field of fields) {
+    const keys = field.name.split(".");
+    const parent = keys.slice(0, -1).reduce((node, key) => (node[key] ??= {}), values);
+    parent[keys[keys.length - 1]] = field.kind === "list" ? [emptyEntry(field.fields ?? [])] : field.defaultValue ?? "";
+  }
+  return values;
+}
+
+// "lines" fields are edited as text, but the schemas expect lists
+function inputResolver(type: StructuredDataType): Resolver<FieldValues> {
+  const resolve = zodResolver(INPUT_SCHEMAS[type]);
+  const lineFields = FIELDS[type].filter((field) => field.kind === "lines").map((field) => field.name);
+  return (values, context, options) =>
+    resolve({ ...values, ...Object.fromEntries(lineFields.map((name) => [name, splitLines(values[name])])) }, context, options);
+}
+
+function FieldControl({ form, field, name, testId }: { form: UseFormReturn<FieldValues>; field: FieldSpec; name: string; testId: string }) {
+  const message = fieldErrorMessage(form.getFieldState(name, form.formState).error);
+  const wide = field.kind === "textarea" || field.kind === "lines";
+
+  return (
+    <div className={wide ? "md:col-span-2" : undefined}>
+      <Label htmlFor={name}>{field.label}</Label>
+      {field.kind === "select" ? (
+        <Select value={form.watch(name)} onValueChange={(value) => form.setValue(name, value)}>
+          <SelectTrigger id={name} data-testid={`select-${testId}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(field.options ?? []).map((option) => (
+              <SelectItem key={option} value={option}>
+                {option.replace(/([a-z])([A-Z])/g, "$1 $2")}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : wide ? (
+        <Textarea
+          id={name}
+          rows={field.kind === "lines" ? 3 : 2}
+          placeholder={field.placeholder}
+          className="resize-none"
+          {...form.register(name)}
+          data-testid={`textarea-${testId}`}
+        />
+      ) : (
+        <Input id={name} placeholder={field.placeholder} {...form.register(name)} data-testid={`input-${testId}`} />
+      )}
+      {field.hint && <p className="text-sm text-gray-500 mt-1">{field.hint}</p>}
+      {message && <p className="text-sm text-red-600 mt-1">{message}</p>}
+    </div>
+  );
+}
+
+function ListField({ form, field }: { form: UseFormReturn<FieldValues>; field: FieldSpec }) {
+  const { fields: entries, append, remove } = useFieldArray({ control: form.control, name: field.name });
+  const itemFields = field.fields ?? [];
+  const message = fieldErrorMessage(form.getFieldState(field.name, form.formState).error);
+
+  return (
+    <div className="md:col-span-2">
+      <Label>{field.label}</Label>
+      {field.hint && <p className="text-sm text-gray-500 mb-2">{field.hint}</p>}
+      <div className="space-y-3 mt-2">
+        {entries.map((entry, index) => (
+          <div key={entry.id} className="border border-gray-200 rounded-lg p-4" data-testid={`${field.name}-${index}`}>
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-sm font-medium text-gray-700">{field.itemLabel} {index + 1}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => remove(index)}
+                disabled={entries.length === 1}
+                data-testid={`button-remove-${field.name}-${index}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {itemFields.map((itemField) => (
+                <FieldControl
+                  key={itemField.name}
+                  form={form}
+                  field={itemField}
+                  name={`${field.name}.${index}.${itemField.name}`}
+                  testId={`${field.name}-${index}-${itemField.name}`}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      {message && <p className="text-sm text-red-600 mt-1">{message}</p>}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="mt-3"
+        onClick={() => append(emptyEntry(itemFields))}
+        data-testid={`button-add-${field.name}`}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add {field.itemLabel}
+      </Button>
+    </div>
+  );
+}
+
+// Remounted for each type, so every type starts from its own defaults and schema
+function InputForm({ type, isPending, onGenerate, onClear }: {
+  type: StructuredDataType;
+  isPending: boolean;
+  onGenerate: (data: FieldValues) => void;
+  onClear: () => void;
+}) {
+  const form = useForm<FieldValues>({
+    resolver: inputResolver(type),
+    defaultValues: defaultValues(FIELDS[type]),
+  });
+
+  const clearForm = () => {
+    form.reset();
+    onClear();
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onGenerate)} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {FIELDS[type].map((field) =>
+          field.kind === "list" ? (
+            <ListField key={field.name} form={form} field={field} />
+          ) : (
+            <FieldControl key={field.name} form={form} field={field} name={field.name} testId={field.name.replace(/\./g, "-")} />
+          ),
+        )}
+      </div>
+
+      <div className="flex gap-4">
+        <Button
+          type="submit"
+          disabled={isPending}
+          className="bg-emerald-600 hover:bg-emerald-700"
+          data-testid="button-generate"
+        >
+          <Braces className="h-4 w-4 mr-2" />
+          {isPending ? "Generating..." : "Generate JSON-LD"}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={clearForm}
+          data-testid="button-clear"
+        >
+          Clear
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function IssueList({ issues, testId }: { issues: StructuredDataIssue[]; testId: string }) {
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-green-700" data-testid={`${testId}-clean`}>
+        <CheckCircle className="h-4 w-4" />
+        No issues found
+      </div>
+    );
+  }
+  return (
+    <div className="space-y-2">
+      {issues.map((issue, index) => (
+        <div key={index} className="flex items-start gap-2 text-sm" data-testid={`${testId}-${index}`}>
+          <Badge className={SEVERITY_STYLES[issue.severity]}>{issue.severity}</Badge>
+          <div>
+            <span className="text-gray-700">{issue.message}</span>
+            <div className="font-mono text-xs text-gray-400">{issue.path}</div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function StructuredDataTool() {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<Mode>("generate");
+  const [type, setType] = useState<StructuredDataType>("Article");
+  const [generated, setGenerated] = useState<StructuredDataResponse | null>(null);
+  const [validation, setValidation] = useState<StructuredDataValidation | null>(null);
+
+  const validateForm = useForm<StructuredDataValidationRequest>({
+    resolver: zodResolver(structuredDataValidationRequestSchema),
+    defaultValues: {
+      content: "",
+    },
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async (data: StructuredDataRequest) => {
+      const response = await apiRequest("POST", "/api/structured-data", data);
+      return response.json();
+    },
+    onSuccess: (data: StructuredDataResponse) => {
+      setGenerated(data);
+      toast({
+        title: "JSON-LD generated!",
+        description: `${TYPE_LABELS[data.type]} markup is ready to paste.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Generation failed",
+        description: error.message || "Failed to generate structured data. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const validateMutation = useMutation({
+    mutationFn: async (data: StructuredDataValidationRequest) => {
+      const response = await apiRequest("POST", "/api/structured-data/validate", data);
+      return response.json();
+    },
+    onSuccess: (data: StructuredDataValidation) => {
+      setValidation(data);
+      toast({
+        title: "Validation complete!",
+        description: `${data.items.length} items checked: ${data.errorCount} errors, ${data.warningCount} warnings.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Validation failed",
+        description: error.message || "Failed to validate structured data. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const changeType = (value: string) => {
+    setType(value as StructuredDataType);
+    setGenerated(null);
+  };
+
+  const copyText = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied!",
+        description: `${label} copied to clipboard.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Copy failed",
+        description: "Failed to copy to clipboard.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const clearValidation = () => {
+    validateForm.reset();
+    setValidation(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <Link href="/" className="text-primary-600 hover:text-primary-700 font-medium mb-4 flex items-center" data-testid="link-back">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Tools
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Structured Data Generator</h1>
+          <p className="text-gray-600">Build schema.org JSON-LD from a form, or check the markup already on a page for missing and invalid properties</p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+          <Tabs value={mode} onValueChange={(value) => setMode(value as Mode)}>
+            <TabsList className="mb-6">
+              <TabsTrigger value="generate" data-testid="tab-generate">Generate</TabsTrigger>
+              <TabsTrigger value="validate" data-testid="tab-validate">Validate</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="generate">
+              <div className="mb-6 md:w-1/2 md:pr-2">
+                <Label htmlFor="type">Schema Type</Label>
+                <Select value={type} onValueChange={changeType}>
+                  <SelectTrigger id="type" data-testid="select-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {structuredDataTypeSchema.options.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {TYPE_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <InputForm
+                key={type}
+                type={type}
+                isPending={generateMutation.isPending}
+                onGenerate={(data) => generateMutation.mutate({ type, data } as StructuredDataRequest)}
+                onClear={() => setGenerated(null)}
+              />
+
+              {generated && (
+                <div className="mt-8" data-testid="results-generate">
+                  <div className="flex justify-between items-center mb-2">
+                    <h3 className="text-lg font-semibold text-gray-900">{TYPE_LABELS[generated.type]} JSON-LD</h3>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => copyText(generated.script, "JSON-LD")}
+                      className="text-emerald-600 hover:text-emerald-700"
+                      data-testid="button-copy-script"
+                    >
+                      <Copy className="h-4 w-4 mr-1" />
+                      Copy
+                    </Button>
+                  </div>
+                  <pre className="bg-gray-900 text-gray-100 text-xs rounded-lg p-4 overflow-x-auto" data-testid="text-script">
+                    {generated.script}
+                  </pre>
+                  <p className="text-xs text-gray-500 mt-2 mb-6">
+                    Paste into the page's HTML. Mark up only what visitors can see on the page.
+                  </p>
+                  <h4 className="font-medium text-gray-900 mb-2">Checks</h4>
+                  <IssueList issues={generated.validation.items.flatMap((item) => item.issues)} testId="generated-issue" />
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="validate">
+              <form onSubmit={validateForm.handleSubmit((data) => validateMutation.mutate(data))} className="space-y-6">
+                <div>
+                  <Label htmlFor="content">JSON-LD or HTML</Label>
+                  <Textarea
+                    id="content"
+                    rows={12}
+                    placeholder="Paste JSON-LD, or a page's HTML source with application/ld+json scripts..."
+                    className="resize-none font-mono text-xs"
+                    {...validateForm.register("content")}
+                    data-testid="textarea-content"
+                  />
+                  {validateForm.formState.errors.content && (
+                    <p className="text-sm text-red-600 mt-1">{validateForm.formState.errors.content.message}</p>
+                  )}
+                </div>
+
+                <div className="flex gap-4">
+                  <Button
+                    type="submit"
+                    disabled={validateMutation.isPending}
+                    className="bg-emerald-600 hover:bg-emerald-700"
+                    data-testid="button-validate"
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    {validateMutation.isPending ? "Validating..." : "Validate"}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={clearValidation}
+                    data-testid="button-clear-validation"
+                  >
+                    Clear
+                  </Button>
+                </div>
+              </form>
+
+              {validation && (
+                <div className="mt-8" data-testid="results-validate">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                    {validation.items.length} items · {validation.errorCount} errors · {validation.warningCount} warnings
+                  </h3>
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                    {validation.items.map((item, index) => (
+                      <div key={index} className="p-4" data-testid={`item-${index}`}>
+                        <div className="flex items-center gap-2 mb-3">
+                          <span className="font-medium text-gray-900">{item.type ?? "Unknown type"}</span>
+                          <span className="text-xs text-gray-400">{item.source} · <span className="font-mono">{item.path}</span></span>
+                        </div>
+                        <IssueList issues={item.issues} testId={`item-${index}-issue`} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,23 +2,37 @@ import { useState } from "react";
 import { Link } from "wouter";
 import { ArrowLeft, Type, Copy } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { titleCaseRequestSchema, type TitleCaseRequest, type TitleCaseResponse } from "@shared/schema";
+import { titleCaseRequestSchema, type TitleCaseRequest, type TitleCaseResponse, type TitleCaseStyle } from "@shared/schema";
+
+const STYLE_OPTIONS: Array<{ value: TitleCaseStyle; label: string; description: string }> = [
+  { value: "ap", label: "AP", description: "Capitalizes words of four or more letters" },
+  { value: "chicago", label: "Chicago", description: "Lowercases all prepositions, regardless of length" },
+  { value: "apa", label: "APA", description: "Capitalizes words of four or more letters; last word not forced" },
+  { value: "mla", label: "MLA", description: "Lowercases articles, prepositions and coordinating conjunctions" },
+  { value: "wikipedia", label: "Wikipedia", description: "Lowercases prepositions of four letters or fewer" },
+  { value: "sentence", label: "Sentence case", description: "Capitalizes only the first word" },
+];
 
 export default function TitleCaseTool() {
   const { toast } = useToast();
   const [result, setResult] = useState<TitleCaseResponse | null>(null);
+  const [protectedTermsText, setProtectedTermsText] = useState("");
 
   const form = useForm<TitleCaseRequest>({
     resolver: zodResolver(titleCaseRequestSchema),
     defaultValues: {
       text: "",
+      style: "ap",
+      protectedTerms: [],
     },
   });
 
@@ -44,7 +58,8 @@ export default function TitleCaseTool() {
   });
 
   const onSubmit = (data: TitleCaseRequest) => {
-    convertMutation.mutate(data);
+    const protectedTerms = protectedTermsText.split(",").map((term) => term.trim()).filter(Boolean);
+    convertMutation.mutate({ ...data, protectedTerms });
   };
 
   const copyToClipboard = async () => {
@@ -68,6 +83,7 @@ export default function TitleCaseTool() {
   const clearForm = () => {
     form.reset();
     setResult(null);
+    setProtectedTermsText("");
   };
 
   return (
@@ -100,6 +116,39 @@ export default function TitleCaseTool() {
               <p className="text-sm text-gray-500 mt-1">Example: "how to create the perfect blog post for seo"</p>
             </div>
 
+            <div>
+              <Label htmlFor="style">Style Guide</Label>
+              <Select value={form.watch("style")} onValueChange={(value) => form.setValue("style", value as TitleCaseStyle)}>
+                <SelectTrigger data-testid="select-style">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STYLE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-gray-500 mt-1">
+                {STYLE_OPTIONS.find((option) => option.value === form.watch("style"))?.description}
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="protectedTerms">Protected Terms (Optional)</Label>
+              <Input
+                id="protectedTerms"
+                placeholder="HubSpot, McKinsey, eSIM..."
+                value={protectedTermsText}
+                onChange={(e) => setProtectedTermsText(e.target.value)}
+                data-testid="input-protected-terms"
+              />
+              <p className="text-sm text-gray-500 mt-1">
+                Comma-separated brand or product names to keep exactly as written. Acronyms like SEO and brands like iPhone are kept automatically.
+              </p>
+            </div>
+
             <div className="flex gap-4">
               <Button 
                 type="submit" 
@@ -144,8 +193,33 @@ export default function TitleCaseTool() {
                   </p>
                 </div>
 
+                <div className="bg-white border border-gray-200 rounded-lg p-4" data-testid="title-case-trace">
+                  <h4 className="font-medium text-gray-900 mb-1">Word-by-Word Changes</h4>
+                  <p className="text-sm text-gray-500 mb-4">
+                    Changed words show the original struck through. The label under each word names the rule that decided its case.
+                  </p>
+                  <div className="flex flex-wrap gap-x-3 gap-y-4">
+                    {result.trace.map((entry, index) => {
+                      const changed = entry.original !== entry.output;
+                      return (
+                        <div key={index} className="flex flex-col items-center" data-testid={`trace-token-${index}`}>
+                          <span className={`text-xs line-through ${changed ? "text-red-500" : "invisible"}`}>
+                            {entry.original}
+                          </span>
+                          <span className={changed ? "font-medium text-green-700" : "text-gray-800"}>
+                            {entry.output}
+                          </span>
+                          <span className="text-[10px] uppercase tracking-wide text-gray-400">{entry.rule}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                  <h4 className="font-medium text-blue-900 mb-2">Capitalization Rules Applied:</h4>
+                  <h4 className="font-medium text-blue-900 mb-2">
+                    {STYLE_OPTIONS.find((option) => option.value === result.style)?.label} Rules Applied:
+                  </h4>
                   <ul className="text-sm text-blue-700 space-y-1">
                     {result.rulesApplied.map((rule, index) => (
                       <li key={index}>• {rule}</li>
@@ -0,0 +1,46 @@
+import type { AIProvider, ProviderSettings } from "./types";
+
+export class HuggingFaceProvider implements AIProvider {
+  readonly name = "huggingface";
+
+  constructor(
+    readonly settings: ProviderSettings,
+    private readonly apiKey: string,
+  ) {}
+
+  get configured(): boolean {
+    return this.apiKey.length > 0;
+  }
+
+  async generate(prompt: string): Promise<string> {
+    if (!this.apiKey) {
+      throw new Error("Hugging Face API key not configured");
+    }
+
+    const response = await fetch(
+      `https://api-inference.huggingface.co/models/${this.settings.model}`,
+      {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          inputs: prompt,
+          // The Inference API rejects a temperature of 0; greedy decoding is the equivalent
+          parameters: this.settings.temperature > 0
+            ? { max_new_tokens: this.settings.maxTokens, temperature: this.settings.temperature }
+            : { max_new_tokens: this.settings.maxTokens, do_sample: false },
+        }),
+        signal: AbortSignal.timeout(this.settings.timeoutMs),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Hugging Face API error: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return result[0]?.generated_text || result.generated_text || "";
+  }
+}
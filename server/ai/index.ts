@@ -0,0 +1,63 @@
+import { HuggingFaceProvider } from "./huggingface";
+import { OpenAICompatibleProvider } from "./openai";
+import { TemplateProvider } from "./template";
+import type { AIProvider, ProviderSettings } from "./types";
+
+export type { AIProvider, GenerationTask, ProviderSettings } from "./types";
+
+// Token and timeout limits must be positive; a temperature of 0 is valid
+// and asks for deterministic output
+function envNumber(name: string, fallback: number, allowZero = false): number {
+  const raw = process.env[name]?.trim();
+  const value = raw ? Number(raw) : NaN;
+  return Number.isFinite(value) && (value > 0 || (allowZero && value === 0)) ? value : fallback;
+}
+
+// Provider selection and per-provider settings come from the environment:
+//   AI_PROVIDER=huggingface|openai|template (default: huggingface)
+//   HF_MODEL, HF_MAX_TOKENS, HF_TEMPERATURE, HF_TIMEOUT_MS
+//   OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL, OPENAI_MAX_TOKENS, OPENAI_TEMPERATURE, OPENAI_TIMEOUT_MS
+export function createProvider(name = process.env.AI_PROVIDER || "huggingface"): AIProvider {
+  switch (name) {
+    case "huggingface": {
+      const settings: ProviderSettings = {
+        model: process.env.HF_MODEL || "google/flan-t5-small",
+        maxTokens: envNumber("HF_MAX_TOKENS", 100),
+        temperature: envNumber("HF_TEMPERATURE", 0.7, true),
+        timeoutMs: envNumber("HF_TIMEOUT_MS", 30000),
+      };
+      const apiKey = process.env.HUGGING_FACE_API_KEY || process.env.HF_API_KEY || "";
+      return new HuggingFaceProvider(settings, apiKey);
+    }
+    case "openai": {
+      const settings: ProviderSettings = {
+        model: process.env.OPENAI_MODEL || "gpt-4o-mini",
+        maxTokens: envNumber("OPENAI_MAX_TOKENS", 400),
+        temperature: envNumber("OPENAI_TEMPERATURE", 0.7, true),
+        timeoutMs: envNumber("OPENAI_TIMEOUT_MS", 60000),
+      };
+      return new OpenAICompatibleProvider(
+        settings,
+        process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+        process.env.OPENAI_API_KEY || "",
+      );
+    }
+    case "template":
+      return createOfflineProvider();
+    default:
+      throw new Error(`Unknown AI provider: ${name}`);
+  }
+}
+
+export function createOfflineProvider(): AIProvider {
+  return new TemplateProvider({ model: "offline-rules-v1", maxTokens: 0, temperature: 0, timeoutMs: 0 });
+}
+
+let provider: AIProvider | undefined;
+
+export function getProvider(): AIProvider {
+  if (!provider) {
+    provider = createProvider();
+  }
+  return provider;
+}
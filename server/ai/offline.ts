@@ -0,0 +1,460 @@
+// Rule-based content generation that runs entirely offline. Output is
+// deterministic for a given input so results are reproducible.
+
+export type TopicType = "how-to" | "listicle" | "comparison" | "review" | "guide" | "general";
+
+export interface OutlineSection {
+  heading: string;
+  subsections: string[];
+}
+
+const STOP_WORDS = new Set([
+  "a", "about", "an", "and", "are", "as", "at", "be", "best", "by", "can", "complete", "do", "does",
+  "for", "from", "get", "guide", "how", "i", "in", "into", "is", "it", "its", "my", "of", "on", "or",
+  "our", "review", "reviews", "should", "that", "the", "their", "this", "to", "top", "ultimate", "vs", "versus", "what",
+  "when", "where", "which", "why", "with", "you", "your",
+]);
+
+const AUDIENCE_LABELS: Record<string, string> = {
+  "beginners": "beginners",
+  "intermediate": "intermediate users",
+  "advanced": "advanced practitioners",
+  "business-owners": "business owners",
+  "marketers": "marketers",
+  "developers": "developers",
+};
+
+const SECTION_COUNTS = {
+  short: { min: 5, max: 7 },
+  medium: { min: 7, max: 10 },
+  long: { min: 10, max: 15 },
+};
+
+// Small, stable string hash used to pick between equivalent templates
+function hash(text: string): number {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) {
+    h = (h * 31 + text.charCodeAt(i)) >>> 0;
+  }
+  return h;
+}
+
+function audienceLabel(audience?: string): string | undefined {
+  if (!audience) return undefined;
+  return Object.hasOwn(AUDIENCE_LABELS, audience) ? AUDIENCE_LABELS[audience] : audience.replace(/-/g, " ");
+}
+
+export function extractKeywords(text: string, limit = 3): string[] {
+  const seen = new Set<string>();
+  const keywords: string[] = [];
+  for (const word of text.toLowerCase().replace(/[^\w\s'-]/g, " ").split(/\s+/)) {
+    if (word.length < 3 || STOP_WORDS.has(word) || /^\d+$/.test(word) || seen.has(word)) continue;
+    seen.add(word);
+    keywords.push(word);
+    if (keywords.length === limit) break;
+  }
+  return keywords;
+}
+
+export function detectTopicType(topic: string): TopicType {
+  const text = topic.toLowerCase();
+  if (/\b(vs\.?|versus|compared?|comparison|alternatives?)\b/.test(text)) return "comparison";
+  if (/\breviews?\b/.test(text)) return "review";
+  if (/^how\b|\bhow to\b|\bstep[- ]by[- ]step\b|\btutorial\b/.test(text)) return "how-to";
+  if (/^\d+\s|\b(top|best)\s+\d+\b|\b\d+\s+(tips|ways|ideas|reasons|mistakes|tools|examples|strategies)\b/.test(text)) return "listicle";
+  if (/\b(guide|ultimate|complete|beginner'?s|introduction|basics)\b/.test(text)) return "guide";
+  return "general";
+}
+
+// Strips framing words so "The Ultimate Guide to Email Marketing" becomes "email marketing"
+function extractSubject(topic: string): string {
+  const subject = topic
+    .replace(/[?!.:]+$/, "")
+    .replace(/^(the\s+)?(ultimate|complete|definitive|beginner'?s)?\s*(guide|introduction)\s+(to|for|on)\s+/i, "")
+    .replace(/^how\s+to\s+/i, "")
+    .replace(/^(top|best)?\s*\d+\s+/i, "")
+    .replace(/\s+reviews?$/i, "")
+    .trim();
+  return subject || topic.trim();
+}
+
+function listCount(topic: string): number | undefined {
+  const match = topic.match(/\b(\d{1,2})\b/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+export function buildMetaDescriptions(title: string, audience?: string, count = 1, maxLength = 160): string[] {
+  const subject = extractSubject(title);
+  const type = detectTopicType(title);
+  const keywords = extractKeywords(title);
+  const forAudience = audienceLabel(audience) ? ` for ${audienceLabel(audience)}` : "";
+  const keywordText = joinList(keywords.length > 0 ? keywords : [subject.toLowerCase()]);
+
+  const phrase = type === "how-to" ? `how to ${subject.charAt(0).toLowerCase()}${subject.slice(1)}` : subject;
+  const goals: Record<TopicType, string> = {
+    "how-to": "follow each step with confidence",
+    "listicle": "find the ideas that fit your goals",
+    "comparison": "choose the right option for you",
+    "review": "decide if it's worth it",
+    "guide": "master the essentials",
+    "general": "get better results",
+  };
+  const goal = goals[type];
+
+  const templates = [
+    `Learn about ${phrase}${forAudience}, with practical advice on ${keywordText}. Read on to ${goal}.`,
+    `${capitalize(phrase)}${forAudience}, explained simply. Get expert advice on ${keywordText} and ${goal}.`,
+    `Our guide to ${phrase}${forAudience} covers ${keywordText} and more. Read on to ${goal}.`,
+    `Everything you need to know about ${phrase}${forAudience}, from ${keywordText} to proven tactics. Read now.`,
+    `Want to ${goal}? Discover ${phrase}${forAudience}, including ${keywordText}, in this easy-to-follow post.`,
+    `A practical look at ${phrase}${forAudience}. We cover ${keywordText} step by step so you can ${goal}.`,
+  ];
+
+  // Rotate the starting template by title so different posts get different copy,
+  // then prefer templates that land in the ideal 120-160 character window
+  const start = hash(title) % templates.length;
+  const ordered = templates.slice(start).concat(templates.slice(0, start));
+  const fitting = ordered.filter(t => t.length <= maxLength);
+  const ideal = fitting.filter(t => t.length >= 120);
+  const ranked = [...ideal, ...fitting.filter(t => t.length < 120).sort((a, b) => b.length - a.length)];
+  return (ranked.length > 0 ? ranked : ordered).slice(0, count);
+}
+
+export function buildMetaDescription(title: string, audience?: string, variant = 0): string {
+  const variants = buildMetaDescriptions(title, audience, variant + 1);
+  return variants[variant] ?? variants[0];
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function coreSections(topic: string, subject: string, type: TopicType, audience?: string): OutlineSection[] {
+  const reader = audienceLabel(audience) || "readers";
+
+  switch (type) {
+    case "how-to":
+      return [
+        { heading: "Introduction", subsections: [`Why learning how to ${subject} matters`, "What you'll achieve by the end"] },
+        { heading: "What You'll Need", subsections: ["Tools and resources", "Prerequisites"] },
+        { heading: "Step 1: Plan Your Approach", subsections: ["Set clear goals", "Gather your materials"] },
+        { heading: "Step 2: Get Started", subsections: ["First actions to take", "Quick wins"] },
+        { heading: "Step 3: Refine and Improve", subsections: ["Measure your results", "Adjust based on feedback"] },
+        { heading: "Troubleshooting Common Problems", subsections: ["Frequent mistakes", "How to fix them"] },
+        { heading: "Conclusion", subsections: ["Recap of the steps", "Next steps"] },
+      ];
+    case "listicle": {
+      const count = Math.min(listCount(topic) ?? 7, 12);
+      const listNoun = topic.match(/\b(tips|ways|ideas|reasons|mistakes|tools|examples|strategies)\b/i)?.[1];
+      const noun = listNoun ? capitalize(listNoun.toLowerCase().replace(/s$/, "")) : "Item";
+      const items = Array.from({ length: count }, (_, i) => ({
+        heading: `${noun} #${i + 1}`,
+        subsections: ["What it is", "Why it works", "How to apply it"],
+      }));
+      return [
+        { heading: "Introduction", subsections: [`Why ${subject} matter for ${reader}`, "How we chose this list"] },
+        ...items,
+        { heading: "Conclusion", subsections: ["Which ones to try first", "Next steps"] },
+      ];
+    }
+    case "comparison": {
+      const [left, right] = subject.split(/\s+(?:vs\.?|versus|compared to|or)\s+/i);
+      const a = left?.trim() || "Option A";
+      const b = right?.trim() || "Option B";
+      return [
+        { heading: "Introduction", subsections: [`Why compare ${a} and ${b}`, "How we evaluated them"] },
+        { heading: `${capitalize(a)} Overview`, subsections: ["Key features", "Strengths and weaknesses"] },
+        { heading: `${capitalize(b)} Overview`, subsections: ["Key features", "Strengths and weaknesses"] },
+        { heading: "Side-by-Side Comparison", subsections: ["Features", "Pricing", "Ease of use"] },
+        { heading: `When to Choose ${capitalize(a)}`, subsections: ["Best use cases"] },
+        { heading: `When to Choose ${capitalize(b)}`, subsections: ["Best use cases"] },
+        { heading: "Final Verdict", subsections: ["Our recommendation", `Advice for ${reader}`] },
+      ];
+    }
+    case "review":
+      return [
+        { heading: "Introduction", subsections: [`What ${subject} is`, "Who this review is for"] },
+        { heading: "Key Features", subsections: ["Standout features", "Missing features"] },
+        { heading: "Performance and Usability", subsections: ["Real-world testing", "Learning curve"] },
+        { heading: "Pricing and Value", subsections: ["Plans and costs", "Is it worth the money?"] },
+        { heading: "Pros and Cons", subsections: ["What we liked", "What could be better"] },
+        { heading: "Alternatives to Consider", subsections: ["Similar options", "How they compare"] },
+        { heading: "Final Verdict", subsections: ["Our rating", `Should ${reader} use it?`] },
+      ];
+    case "guide":
+      return [
+        { heading: "Introduction", subsections: [`What ${subject} is`, `Why it matters for ${reader}`] },
+        { heading: `${capitalize(subject)} Fundamentals`, subsections: ["Core concepts", "Key terminology"] },
+        { heading: "Getting Started", subsections: ["First steps", "Setting up for success"] },
+        { heading: "Best Practices", subsections: ["Proven strategies", "Expert tips"] },
+        { heading: "Common Mistakes to Avoid", subsections: ["Pitfalls", "How to avoid them"] },
+        { heading: "Tools and Resources", subsections: ["Recommended tools", "Further reading"] },
+        { heading: "Conclusion", subsections: ["Key takeaways", "Next steps"] },
+      ];
+    default:
+      return [
+        { heading: "Introduction", subsections: [`Why ${subject} matters`, "What you'll learn"] },
+        { heading: `Understanding ${capitalize(subject)}`, subsections: ["Key concepts", "Background"] },
+        { heading: "Key Benefits", subsections: [`How ${reader} benefit`, "Real-world examples"] },
+        { heading: "Best Practices", subsections: ["Proven strategies", "Practical tips"] },
+        { heading: "Common Mistakes", subsections: ["What to avoid", "How to fix them"] },
+        { heading: "Conclusion", subsections: ["Key takeaways", "Next steps"] },
+      ];
+  }
+}
+
+// Extra sections inserted before the conclusion when the requested length needs more depth
+const EXTRA_SECTIONS: OutlineSection[] = [
+  { heading: "Real-World Examples", subsections: ["Case study", "Lessons learned"] },
+  { heading: "Advanced Tips", subsections: ["Going beyond the basics", "Expert techniques"] },
+  { heading: "Measuring Success", subsections: ["Metrics to track", "Tools for tracking"] },
+  { heading: "Frequently Asked Questions", subsections: ["Common questions", "Quick answers"] },
+  { heading: "Expert Insights", subsections: ["What the experts say", "Emerging trends"] },
+  { heading: "Checklist", subsections: ["Before you start", "Before you publish"] },
+  { heading: "Resources and Further Reading", subsections: ["Recommended guides", "Communities"] },
+  { heading: "Future Trends", subsections: ["What's changing", "How to prepare"] },
+];
+
+export function buildBlogOutline(topic: string, length: "short" | "medium" | "long", audience?: string): OutlineSection[] {
+  const type = detectTopicType(topic);
+  const subject = extractSubject(topic);
+  const sections = coreSections(topic, subject, type, audience);
+  const { min, max } = SECTION_COUNTS[length];
+
+  const conclusion = sections.pop()!;
+  for (const extra of EXTRA_SECTIONS) {
+    if (sections.length + 1 >= min) break;
+    if (!sections.some(s => s.heading === extra.heading)) sections.push(extra);
+  }
+  // Listicles keep every item the title promises
+  while (type !== "listicle" && sections.length + 1 > max && sections.length > 2) {
+    sections.splice(sections.length - 1, 1);
+  }
+  sections.push(conclusion);
+
+  return sections;
+}
+
+export interface FaqItem {
+  question: string;
+  answer: string;
+}
+
+// Material pulled from a pasted article: questions its own headings ask, with
+// the text under them, and its sentences for answering the template questions
+export interface FaqSource {
+  questions: FaqItem[];
+  sentences: string[];
+}
+
+// Questions readers commonly ask about a keyphrase, with short general
+// answers, most fundamental first
+function faqTemplates(keyphrase: string, topic: string, audience?: string): FaqItem[] {
+  const phrase = keyphrase.trim().toLowerCase();
+  const type = detectTopicType(topic);
+  const reader = audienceLabel(audience);
+  // Compared options are usually product or brand names, so they keep their case
+  const sides = keyphrase.trim().split(/\s+(?:vs\.?|versus|or)\s+/i);
+  const pair = sides.length === 2 ? sides : null;
+  const cost = {
+    question: `How much does ${phrase} cost?`,
+    answer: "Prices vary by plan, provider and how much you use it. Compare what each option includes, not just the headline price, before you commit.",
+  };
+  const templates: Record<TopicType, FaqItem[]> = {
+    "how-to": [
+      {
+        question: `How do you ${phrase}?`,
+        answer: `Start by deciding what you want to achieve, then work through each step in order. Check your results as you go and adjust before moving on.`,
+      },
+      {
+        question: `How long does it take to ${phrase}?`,
+        answer: "It depends on your starting point and the time you can give it. Most people finish a first attempt in a few hours and improve it over the following weeks.",
+      },
+      {
+        question: `What do you need to ${phrase}?`,
+        answer: "A clear goal, a few basic tools and time to practise. Most of what you need is free or already on hand.",
+      },
+      {
+        question: `What are the most common mistakes when you ${phrase}?`,
+        answer: "Skipping the planning stage, rushing through the steps and not checking the results. Going slowly the first time avoids most of them.",
+      },
+      {
+        question: `Can beginners ${phrase}?`,
+        answer: "Yes. Following a step-by-step guide and starting with a small project is enough to get going.",
+      },
+    ],
+    "comparison": pair ? [
+      {
+        question: `What is the difference between ${pair[0]} and ${pair[1]}?`,
+        answer: `${capitalize(pair[0])} and ${pair[1]} solve similar problems in different ways. The right choice depends on your budget, your experience and the features you need most.`,
+      },
+      {
+        question: `Which is better, ${pair[0]} or ${pair[1]}?`,
+        answer: `Neither is better for everyone. Compare ${pair[0]} and ${pair[1]} against your own priorities and pick the one that fits them best.`,
+      },
+      {
+        question: `Which is cheaper, ${pair[0]} or ${pair[1]}?`,
+        answer: "It depends on the plan and how you use it. Compare the total cost, including setup and ongoing fees, rather than the starting price.",
+      },
+      {
+        question: `Can you switch from ${pair[0]} to ${pair[1]}?`,
+        answer: `Yes, in most cases. Export what you need from ${pair[0]} first and test ${pair[1]} before switching over fully.`,
+      },
+    ] : [],
+    "review": [
+      {
+        question: `Is ${phrase} worth it?`,
+        answer: "It is worth it if its features match what you need and the price fits your budget. Try a free version or trial first where one is available.",
+      },
+      cost,
+      {
+        question: `What are the best alternatives to ${phrase}?`,
+        answer: "Several alternatives cover similar ground. Compare them on price, features and ease of use to find the best fit.",
+      },
+      {
+        question: `Who is ${phrase} best for?`,
+        answer: "People who need its core features and are ready to spend a little time learning it.",
+      },
+    ],
+    "listicle": [
+      {
+        question: `What are the best ${phrase}?`,
+        answer: "The best options are the ones that match your goals, budget and experience. Compare the leading choices side by side before deciding.",
+      },
+      {
+        question: `How do you choose between ${phrase}?`,
+        answer: "Start with your goal, then compare each option on cost, ease of use and results. Shortlist two or three and try them before deciding.",
+      },
+      {
+        question: `Which ${phrase} work best for beginners?`,
+        answer: "Simple, well-documented options that show results quickly.",
+      },
+    ],
+    "guide": [],
+    "general": [],
+  };
+  const general: FaqItem[] = [
+    {
+      question: `What is ${phrase}?`,
+      answer: `${capitalize(phrase)} covers the core ideas, tools and techniques you need to get results. Learning the basics first makes everything else easier.`,
+    },
+    {
+      question: `Why is ${phrase} important?`,
+      answer: "It helps you reach your goals faster and with less wasted effort. Done well, the results build over time.",
+    },
+    {
+      question: `How do I get started with ${phrase}?`,
+      answer: "Learn the key terms, set one simple goal and try a small first project. Build on what works from there.",
+    },
+    cost,
+    {
+      question: `What are common ${phrase} mistakes?`,
+      answer: "Skipping the basics, trying to do too much at once and not measuring results.",
+    },
+    {
+      question: `What tools help with ${phrase}?`,
+      answer: "Many free and paid tools can help. Start with simple, free options and upgrade once you know what you need.",
+    },
+    {
+      question: `How do you measure ${phrase} results?`,
+      answer: "Pick one or two metrics that match your goal, record a starting point and track them regularly.",
+    },
+  ];
+  const all = [...templates[type], ...general];
+  if (reader) {
+    all.splice(2, 0, {
+      question: `Is ${phrase} worth it for ${reader}?`,
+      answer: `Yes, for most ${reader}. It pays off fastest when you focus on the parts most relevant to your work.`,
+    });
+  }
+  const seen = new Set<string>();
+  return all.filter(item => !seen.has(item.question) && Boolean(seen.add(item.question)));
+}
+
+export function buildFaqQuestions(keyphrase: string, topic: string, audience?: string, count = 5): string[] {
+  return faqTemplates(keyphrase, topic, audience).slice(0, count).map(item => item.question);
+}
+
+// The article sentence that best answers a question about the subject. The
+// question's own words, beyond the subject, decide the match, so "What tools
+// help with X?" finds a sentence about tools rather than any mention of X.
+function answerFromSentences(question: string, subject: string, sentences: string[]): string | undefined {
+  const subjectWords = extractKeywords(subject, 10);
+  const keywords = extractKeywords(question, 10).filter(keyword => !subjectWords.includes(keyword));
+  if (keywords.length === 0) return undefined;
+  let best: { index: number; score: number } | undefined;
+  sentences.forEach((sentence, index) => {
+    const words = new Set(sentence.toLowerCase().replace(/[^\w\s'-]/g, " ").split(/\s+/));
+    if (words.size < 6 || !subjectWords.some(word => words.has(word))) return;
+    const score = keywords.filter(keyword => words.has(keyword)).length / keywords.length;
+    if (score >= 0.5 && (!best || score > best.score)) best = { index, score };
+  });
+  if (!best) return undefined;
+  // A short sentence rarely stands on its own, so take the next one too
+  const answer = sentences[best.index];
+  const next = sentences[best.index + 1];
+  return answer.split(/\s+/).length < 20 && next ? `${answer} ${next}` : answer;
+}
+
+// Question-and-answer pairs for a topic. With an article, its own question
+// headings come first and template questions are answered from its text
+// where it has a matching sentence.
+export function buildFaqs(topic: string, audience?: string, count = 5, source?: FaqSource): FaqItem[] {
+  const subject = extractSubject(topic);
+  const fromArticle = source?.questions ?? [];
+  const asked = new Set(fromArticle.map(item => item.question.toLowerCase()));
+  const templated = faqTemplates(subject, topic, audience)
+    .filter(item => !asked.has(item.question.toLowerCase()))
+    .map(item => ({ ...item, answer: (source && answerFromSentences(item.question, subject, source.sentences)) || item.answer }));
+  return [...fromArticle, ...templated].slice(0, count);
+}
+
+// Talking points for a single section. Variant 0 reuses the template's own
+// points when the heading comes from one; other variants, and headings the
+// templates don't know, rotate through generic points about the heading.
+export function buildSectionPoints(topic: string, heading: string, existing: string[] = [], audience?: string, variant = 0): string[] {
+  const subject = extractSubject(topic);
+  const type = detectTopicType(topic);
+  const known = [...coreSections(topic, subject, type, audience), ...EXTRA_SECTIONS]
+    .find(section => section.heading.toLowerCase() === heading.trim().toLowerCase());
+  const taken = new Set(existing.map(text => text.trim().toLowerCase()));
+
+  if (known && variant === 0) {
+    const points = known.subsections.filter(point => !taken.has(point.toLowerCase()));
+    if (points.length > 0) return points;
+  }
+
+  const reader = audienceLabel(audience) || "readers";
+  // Template headings like "Introduction" read better through the post's subject
+  const noun = known ? subject : heading.trim().replace(/^[A-Z](?=[a-z])/, letter => letter.toLowerCase());
+  const pool = [
+    `Why ${noun} matters`,
+    `Key ideas behind ${noun}`,
+    `Getting started with ${noun}`,
+    `Common mistakes with ${noun}`,
+    `Examples of ${noun} in practice`,
+    `Tools that help with ${noun}`,
+    `How to measure ${noun}`,
+    `Tips for ${reader}`,
+  ].filter(point => !taken.has(point.toLowerCase()));
+
+  const start = (hash(heading) + variant * 3) % Math.max(pool.length, 1);
+  return pool.slice(start).concat(pool.slice(0, start)).slice(0, 3);
+}
+
+// Renders sections in the numbered/bulleted text format the outline route parses
+export function renderOutlineText(sections: OutlineSection[]): string {
+  return sections
+    .map((section, index) => [`${index + 1}. ${section.heading}`, ...section.subsections.map(sub => `- ${sub}`)].join("\n"))
+    .join("\n");
+}
+
+// Renders question-and-answer pairs in the "Q:"/"A:" format the FAQ route parses
+export function renderFaqText(faqs: FaqItem[]): string {
+  return faqs.map(item => `Q: ${item.question}\nA: ${item.answer}`).join("\n\n");
+}
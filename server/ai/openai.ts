@@ -0,0 +1,41 @@
+import type { AIProvider, ProviderSettings } from "./types";
+
+// Works with any server exposing the OpenAI chat completions API
+// (OpenAI itself, llama.cpp's server, Ollama, vLLM, ...)
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = "openai";
+  // Local servers usually need no API key, so this provider is always usable
+  readonly configured = true;
+
+  constructor(
+    readonly settings: ProviderSettings,
+    private readonly baseUrl: string,
+    private readonly apiKey: string,
+  ) {}
+
+  async generate(prompt: string): Promise<string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      headers["Authorization"] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.settings.model,
+        messages: [{ role: "user", content: prompt }],
+        max_tokens: this.settings.maxTokens,
+        temperature: this.settings.temperature,
+      }),
+      signal: AbortSignal.timeout(this.settings.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible API error: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return result.choices?.[0]?.message?.content || "";
+  }
+}
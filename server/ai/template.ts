@@ -0,0 +1,27 @@
+import { buildBlogOutline, buildFaqs, buildMetaDescription, buildSectionPoints, renderFaqText, renderOutlineText } from "./offline";
+import type { AIProvider, GenerationTask, ProviderSettings } from "./types";
+
+// Deterministic provider with no network access, backed by the rule-based
+// offline engine. Also used as the fallback when another provider fails.
+export class TemplateProvider implements AIProvider {
+  readonly name = "template";
+  readonly configured = true;
+
+  constructor(readonly settings: ProviderSettings) {}
+
+  async generate(_prompt: string, task: GenerationTask): Promise<string> {
+    if (task.kind === "meta-description") {
+      return buildMetaDescription(task.title, task.audience, task.variant);
+    }
+    if (task.kind === "outline-section") {
+      return buildSectionPoints(task.topic, task.heading, task.existing, task.audience, task.variant)
+        .map(point => `- ${point}`)
+        .join("\n");
+    }
+    if (task.kind === "faq") {
+      return renderFaqText(buildFaqs(task.topic, task.audience, task.count, task.source));
+    }
+
+    return renderOutlineText(buildBlogOutline(task.topic, task.length, task.audience));
+  }
+}
@@ -0,0 +1,25 @@
+import type { FaqSource } from "./offline";
+
+export type GenerationTask =
+  | { kind: "meta-description"; title: string; audience?: string; variant?: number }
+  | { kind: "blog-outline"; topic: string; audience?: string; length: "short" | "medium" | "long" }
+  // `existing` holds every other heading in the outline, so regenerated points don't repeat them
+  | { kind: "outline-section"; topic: string; heading: string; audience?: string; existing: string[]; variant?: number }
+  // `source` is set when the questions come from a pasted article
+  | { kind: "faq"; topic: string; audience?: string; count: number; source?: FaqSource };
+
+export interface ProviderSettings {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  timeoutMs: number;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  readonly settings: ProviderSettings;
+  // False when required credentials are missing; callers fall back to the offline engine
+  readonly configured: boolean;
+  // Prompt-driven providers use `prompt`; offline providers work from the structured task
+  generate(prompt: string, task: GenerationTask): Promise<string>;
+}
@@ -0,0 +1,34 @@
+import { sectionsToMarkdown, slugify, type ExportedFile } from "./outline";
+import type { ContentBriefResponse } from "@shared/schema";
+
+export function briefToMarkdown(brief: ContentBriefResponse): string {
+  const { outline } = brief;
+  const details = [
+    `**Topic:** ${brief.topic}`,
+    ...(brief.audience ? [`**Audience:** ${brief.audience}`] : []),
+    `**Length:** about ${outline.estimatedWordCount.toLocaleString("en-US")} words (${outline.estimatedReadingTime} min read)`,
+  ];
+
+  return [
+    `# Content Brief: ${brief.title}`,
+    details.join("  \n"),
+    "## Title",
+    brief.title,
+    "## Meta Description",
+    `${brief.metaDescription} (${brief.metaDescription.length} characters)`,
+    "## Keyphrases",
+    brief.keyphrases.map(keyphrase => `- **${keyphrase.phrase}** (${keyphrase.type}): ${keyphrase.guidance}`).join("\n"),
+    "## Outline",
+    // Outline sections start at H2, one level below the brief's own sections
+    ...sectionsToMarkdown(outline.sections, 1),
+    ...(brief.faqs.length > 0 ? ["## FAQ Questions", brief.faqs.map(question => `- ${question}`).join("\n")] : []),
+  ].join("\n\n") + "\n";
+}
+
+export function exportBrief(brief: ContentBriefResponse): ExportedFile {
+  return {
+    filename: `${slugify(brief.title)}-brief.md`,
+    contentType: "text/markdown; charset=utf-8",
+    body: briefToMarkdown(brief),
+  };
+}
@@ -0,0 +1,223 @@
+import { createZip } from "./zip";
+import type { BlogOutlineResponse, OutlineExportFormat, OutlineSection } from "@shared/schema";
+
+// Renders an outline for CMS editors and word processors. Every format keeps
+// the real heading levels, which a plain-text copy loses.
+
+export interface ExportedFile {
+  filename: string;
+  contentType: string;
+  body: string | Buffer;
+}
+
+interface BriefSection {
+  number: string;
+  heading: string;
+  level: number;
+  targetWords: number;
+  notes?: string;
+  children: BriefSection[];
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+export function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60).replace(/-+$/, "") || "outline";
+}
+
+// The writer-facing line under a heading: its word budget and any notes
+function guidance(section: OutlineSection): string {
+  const budget = section.targetWords > 0 ? `About ${section.targetWords} words.` : "";
+  return [budget, section.notes ?? ""].filter(Boolean).join(" ");
+}
+
+// Markdown blocks for the sections; `shift` pushes every heading down, for
+// outlines nested inside a larger document
+export function sectionsToMarkdown(sections: OutlineSection[], shift = 0): string[] {
+  return sections.flatMap(section => {
+    const note = guidance(section);
+    return [
+      `${"#".repeat(Math.min(6, section.level + shift))} ${section.heading}`,
+      ...(note ? [`_${note}_`] : []),
+      ...sectionsToMarkdown(section.children, shift),
+    ];
+  });
+}
+
+export function outlineToMarkdown(outline: BlogOutlineResponse): string {
+  return [`# ${outline.title}`, ...sectionsToMarkdown(outline.sections)].join("\n\n") + "\n";
+}
+
+export function outlineToHtml(outline: BlogOutlineResponse): string {
+  const render = (section: OutlineSection, indent: string): string => {
+    const note = guidance(section);
+    return [
+      `${indent}<section>`,
+      `${indent}  <h${section.level}>${escapeXml(section.heading)}</h${section.level}>`,
+      ...(note ? [`${indent}  <p><em>${escapeXml(note)}</em></p>`] : []),
+      ...section.children.map(child => render(child, `${indent}  `)),
+      `${indent}</section>`,
+    ].join("\n");
+  };
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '  <meta charset="utf-8">',
+    `  <title>${escapeXml(outline.title)}</title>`,
+    "</head>",
+    "<body>",
+    "  <article>",
+    `    <h1>${escapeXml(outline.title)}</h1>`,
+    ...outline.sections.map(section => render(section, "    ")),
+    "  </article>",
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+export function outlineToBrief(outline: BlogOutlineResponse) {
+  const number = (sections: OutlineSection[], prefix: string): BriefSection[] =>
+    sections.map((section, index) => {
+      const id = prefix ? `${prefix}.${index + 1}` : `${index + 1}`;
+      const brief: BriefSection = { number: id, heading: section.heading, level: section.level, targetWords: section.targetWords, children: number(section.children, id) };
+      if (section.notes) brief.notes = section.notes;
+      return brief;
+    });
+  const count = (sections: OutlineSection[]): number => sections.reduce((sum, section) => sum + 1 + count(section.children), 0);
+
+  return {
+    title: outline.title,
+    estimatedWordCount: outline.estimatedWordCount,
+    estimatedReadingTime: outline.estimatedReadingTime,
+    headingCount: count(outline.sections),
+    sections: number(outline.sections, ""),
+  };
+}
+
+// Word's built-in heading styles, which Word and Google Docs both map to
+// document headings and the navigation outline
+function docxStyles(): string {
+  const sizes = [32, 28, 26, 24, 22, 22];
+  const headings = sizes.map((size, index) => `
+  <w:style w:type="paragraph" w:styleId="Heading${index + 1}">
+    <w:name w:val="heading ${index + 1}"/>
+    <w:basedOn w:val="Normal"/>
+    <w:next w:val="Normal"/>
+    <w:uiPriority w:val="9"/>
+    <w:qFormat/>
+    <w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="${index}"/></w:pPr>
+    <w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr>
+  </w:style>`).join("");
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal">
+    <w:name w:val="Normal"/>
+    <w:qFormat/>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Title">
+    <w:name w:val="Title"/>
+    <w:basedOn w:val="Normal"/>
+    <w:next w:val="Normal"/>
+    <w:uiPriority w:val="10"/>
+    <w:qFormat/>
+    <w:pPr><w:spacing w:after="240"/></w:pPr>
+    <w:rPr><w:sz w:val="48"/></w:rPr>
+  </w:style>${headings}
+</w:styles>`;
+}
+
+function docxParagraph(text: string, style?: string, italic = false): string {
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : "";
+  const run = italic ? "<w:rPr><w:i/></w:rPr>" : "";
+  return `<w:p>${properties}<w:r>${run}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`;
+}
+
+export function outlineToDocx(outline: BlogOutlineResponse, created = new Date()): Buffer {
+  const render = (section: OutlineSection): string[] => {
+    const note = guidance(section);
+    return [
+      docxParagraph(section.heading, `Heading${section.level}`),
+      ...(note ? [docxParagraph(note, undefined, true)] : []),
+      ...section.children.flatMap(render),
+    ];
+  };
+  const paragraphs = [docxParagraph(outline.title, "Title"), ...outline.sections.flatMap(render)];
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+  <w:body>
+    ${paragraphs.join("\n    ")}
+    <w:sectPr>
+      <w:pgSz w:w="12240" w:h="15840"/>
+      <w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>
+    </w:sectPr>
+  </w:body>
+</w:document>`;
+
+  const timestamp = created.toISOString().replace(/\.\d{3}Z$/, "Z");
+  return createZip([
+    {
+      name: "[Content_Types].xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`,
+    },
+    {
+      name: "docProps/core.xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${escapeXml(outline.title)}</dc:title>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:created>
+</cp:coreProperties>`,
+    },
+    { name: "word/document.xml", content: document },
+    {
+      name: "word/_rels/document.xml.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`,
+    },
+    { name: "word/styles.xml", content: docxStyles() },
+  ], created);
+}
+
+export function exportOutline(outline: BlogOutlineResponse, format: OutlineExportFormat): ExportedFile {
+  const name = slugify(outline.title);
+  switch (format) {
+    case "markdown":
+      return { filename: `${name}.md`, contentType: "text/markdown; charset=utf-8", body: outlineToMarkdown(outline) };
+    case "html":
+      return { filename: `${name}.html`, contentType: "text/html; charset=utf-8", body: outlineToHtml(outline) };
+    case "docx":
+      return {
+        filename: `${name}.docx`,
+        contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        body: outlineToDocx(outline),
+      };
+    case "json":
+      return { filename: `${name}.json`, contentType: "application/json; charset=utf-8", body: JSON.stringify(outlineToBrief(outline), null, 2) };
+  }
+}
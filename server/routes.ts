@@ -2,70 +2,187 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { 
   metaDescriptionRequestSchema,
+  serpPreviewRequestSchema,
   titleCaseRequestSchema,
   keywordDensityRequestSchema,
+  scoringProfileSchema,
+  readabilityRequestSchema,
+  pageAuditRequestSchema,
+  headingAnalysisRequestSchema,
   blogOutlineRequestSchema,
+  outlineSectionRequestSchema,
+  outlineExportRequestSchema,
+  outlineCoverageRequestSchema,
+  contentBriefRequestSchema,
+  contentBriefResponseSchema,
+  faqRequestSchema,
+  structuredDataRequestSchema,
+  structuredDataValidationRequestSchema,
+  robotsParseRequestSchema,
+  robotsTestRequestSchema,
+  robotsGenerateRequestSchema,
   type MetaDescriptionResponse,
+  type MetaDescriptionVariant,
+  type SerpPreviewResponse,
   type TitleCaseResponse,
   type KeywordDensityResponse,
-  type BlogOutlineResponse
+  type ReadabilityResponse,
+  type PageAuditResponse,
+  type HeadingAnalysisResponse,
+  type BlogOutlineRequest,
+  type BlogOutlineResponse,
+  type OutlineSectionResponse,
+  type OutlineCoverageResponse,
+  type ContentBriefResponse,
+  type FaqResponse,
+  type StructuredDataResponse,
+  type StructuredDataValidation,
+  type RobotsParseResponse,
+  type RobotsTestResponse,
+  type RobotsGenerateResponse
 } from "@shared/schema";
+import { createOfflineProvider, getProvider, type GenerationTask } from "./ai";
+import { buildBlogOutline, buildFaqQuestions, buildFaqs, renderOutlineText } from "./ai/offline";
+import { cleanGeneratedText, scoreMetaDescription, truncateMetaDescription } from "./seo/meta-description";
+import { buildSerpPreview } from "./seo/text-width";
+import { convertTitleCase } from "./seo/title-case";
+import { analyzeKeywordDensity } from "./seo/keyword-density";
+import { DEFAULT_SCORING_PROFILE } from "./seo/scoring-profiles";
+import { analyzeReadability } from "./seo/readability";
+import { auditPage } from "./seo/page-audit";
+import { analyzeHeadings } from "./seo/headings";
+import { findSection, parseOutline, parseSectionChildren, renderOutlineMarkdown } from "./seo/outline";
+import { analyzeOutlineCoverage } from "./seo/outline-coverage";
+import { buildContentBrief, suggestTitle } from "./seo/content-brief";
+import { appendFaqSection, articleFaqSource, articleTopic, parseFaqText } from "./seo/faq";
+import { buildStructuredData, faqPageJsonLd, jsonLdScript } from "./seo/structured-data";
+import { validateJsonLd, validateStructuredData, validationReport } from "./seo/structured-data-validator";
+import { generateRobots, parseRobots, testRobots } from "./seo/robots";
+import { parseContent } from "./seo/document";
+import { exportOutline } from "./export/outline";
+import { exportBrief } from "./export/brief";
+import { storage } from "./storage";
+
+// One per meta description variant
+const META_DESCRIPTION_ANGLES = [
+  "Lead with the main benefit to the reader",
+  "Open with a question the reader is asking",
+  "Promise a specific, practical outcome",
+  "Use a direct, action-oriented tone",
+  "Highlight what makes this post different",
+];
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  const HUGGING_FACE_API_KEY = process.env.HUGGING_FACE_API_KEY || process.env.HF_API_KEY || "";
-
-  // Helper function to call Hugging Face API
-  async function callHuggingFace(prompt: string): Promise<string> {
-    if (!HUGGING_FACE_API_KEY) {
-      throw new Error("Hugging Face API key not configured");
-    }
-
-    try {
-      const response = await fetch(
-        "https://api-inference.huggingface.co/models/google/flan-t5-small",
-        {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${HUGGING_FACE_API_KEY}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            inputs: prompt,
-            parameters: {
-              max_new_tokens: 100,
-              temperature: 0.7,
-            },
-          }),
-        }
-      );
+  const provider = getProvider();
+  const offlineProvider = createOfflineProvider();
 
-      if (!response.ok) {
-        throw new Error(`Hugging Face API error: ${response.statusText}`);
+  // Helper function to run a generation task through the configured AI provider,
+  // falling back to the offline engine when it is unconfigured or fails
+  async function generateText(prompt: string, task: GenerationTask): Promise<{ text: string; engine: string }> {
+    if (provider.configured) {
+      try {
+        const text = await provider.generate(prompt, task);
+        if (text.trim()) {
+          return { text, engine: provider.name };
+        }
+      } catch (error) {
+        console.error(`AI provider (${provider.name}) error:`, error);
       }
+    }
 
-      const result = await response.json();
-      return result[0]?.generated_text || result.generated_text || "";
-    } catch (error) {
-      console.error("Hugging Face API error:", error);
-      throw new Error("Failed to generate AI content");
+    const text = await offlineProvider.generate(prompt, task);
+    return { text, engine: offlineProvider.name };
+  }
+
+  // Generates meta description variants for a title, best-scoring first
+  async function generateMetaDescriptions(title: string, audience: string | undefined, variantCount: number, ellipsis: boolean): Promise<MetaDescriptionResponse> {
+    const audienceText = audience ? ` for ${audience}` : "";
+    const basePrompt = `Write a compelling SEO meta description (150-160 characters) for this blog post title: "${title}"${audienceText}. Make it engaging and include relevant keywords.`;
+
+    const engines = new Set<string>();
+    const variants: MetaDescriptionVariant[] = [];
+    const addVariant = (text: string, prompt: string, engine: string) => {
+      const { content, truncated, strategy, removed } = truncateMetaDescription(cleanGeneratedText(text, prompt), 160, ellipsis);
+      if (!content || variants.some(v => v.content === content)) return;
+      variants.push({
+        content,
+        length: content.length,
+        truncation: { truncated, strategy, removed },
+        score: scoreMetaDescription(content, title),
+      });
+      engines.add(engine);
+    };
+
+    // Each variant asks for a different angle, so models don't return the same copy
+    for (let variant = 0; variant < variantCount; variant++) {
+      const prompt = `${basePrompt} ${META_DESCRIPTION_ANGLES[variant % META_DESCRIPTION_ANGLES.length]}.`;
+      const { text, engine } = await generateText(prompt, { kind: "meta-description", title, audience, variant });
+      addVariant(text, prompt, engine);
+    }
+
+    // Duplicates that got through anyway are replaced with offline templates
+    for (let variant = 0; variants.length < variantCount && variant < 2 * variantCount; variant++) {
+      const text = await offlineProvider.generate(basePrompt, { kind: "meta-description", title, audience, variant });
+      addVariant(text, basePrompt, offlineProvider.name);
     }
+    variants.sort((a, b) => b.score.total - a.score.total);
+
+    if (variants.length === 0) {
+      throw new Error("Failed to generate meta description");
+    }
+    
+    const response: MetaDescriptionResponse = {
+      content: variants[0].content,
+      length: variants[0].length,
+      engine: Array.from(engines).join(", "),
+      variants,
+    };
+
+    return response;
+  }
+
+  // Generates a budgeted outline, falling back to the offline templates when
+  // the AI response has no recognizable structure
+  async function generateBlogOutline(topic: string, audience: string | undefined, length: BlogOutlineRequest["length"]): Promise<BlogOutlineResponse> {
+    const audienceText = audience ? ` for ${audience}` : "";
+    const lengthText = length === "short" ? "5-7 sections" : 
+                     length === "medium" ? "7-10 sections" : "10-15 sections";
+    
+    const estimatedWordCount = length === "short" ? 1200 : 
+                              length === "medium" ? 2500 : 4000;
+    const estimatedReadingTime = Math.ceil(estimatedWordCount / 250);
+
+    const prompt = `Create a detailed blog outline for: "${topic}"${audienceText}. Include ${lengthText}, about ${estimatedWordCount} words in total. Use Markdown headings: ## for each main section, ### and #### for the points inside it, with a word count after each heading like "(300 words)". Add a one-line note under a heading when it needs explaining. Structure it as a comprehensive guide with introduction and conclusion.`;
+    
+    const generated = await generateText(prompt, { kind: "blog-outline", topic, audience, length });
+    let engine = generated.engine;
+    
+    // Parse the AI response into a section tree
+    let { sections } = parseOutline(generated.text, estimatedWordCount);
+
+    // Fallback to the offline engine if AI response is not well structured
+    if (sections.length === 0) {
+      sections = parseOutline(renderOutlineText(buildBlogOutline(topic, length, audience)), estimatedWordCount).sections;
+      engine = offlineProvider.name;
+    }
+
+    const response: BlogOutlineResponse = {
+      title: topic,
+      sections,
+      estimatedWordCount,
+      estimatedReadingTime,
+      engine,
+    };
+
+    return response;
   }
 
   // Meta Description Generator
   app.post("/api/meta-description", async (req, res) => {
     try {
-      const { title, audience } = metaDescriptionRequestSchema.parse(req.body);
+      const { title, audience, variants: variantCount, ellipsis } = metaDescriptionRequestSchema.parse(req.body);
       
-      const audienceText = audience ? ` for ${audience}` : "";
-      const prompt = `Write a compelling SEO meta description (150-160 characters) for this blog post title: "${title}"${audienceText}. Make it engaging and include relevant keywords.`;
-      
-      const aiResponse = await callHuggingFace(prompt);
-      const content = aiResponse.trim();
-      
-      const response: MetaDescriptionResponse = {
-        content: content.length > 160 ? content.substring(0, 160) : content,
-        length: Math.min(content.length, 160),
-      };
+      const response: MetaDescriptionResponse = await generateMetaDescriptions(title, audience, variantCount, ellipsis);
 
       res.json(response);
     } catch (error) {
@@ -76,45 +193,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Title Case Converter
-  app.post("/api/title-case", async (req, res) => {
+  // SERP Snippet Preview
+  app.post("/api/serp-preview", async (req, res) => {
     try {
-      const { text } = titleCaseRequestSchema.parse(req.body);
-      
-      const stopWords = new Set([
-        'a', 'an', 'and', 'as', 'at', 'but', 'by', 'for', 'if', 'in', 
-        'is', 'it', 'nor', 'of', 'on', 'or', 'so', 'the', 'to', 'up', 'yet'
-      ]);
-
-      const words = text.toLowerCase().split(/\s+/);
-      const convertedWords = words.map((word, index) => {
-        // Always capitalize first and last word
-        if (index === 0 || index === words.length - 1) {
-          return word.charAt(0).toUpperCase() + word.slice(1);
-        }
-        
-        // Don't capitalize stop words unless they're first/last
-        if (stopWords.has(word)) {
-          return word;
-        }
-        
-        // Capitalize everything else
-        return word.charAt(0).toUpperCase() + word.slice(1);
+      const { title, description, url } = serpPreviewRequestSchema.parse(req.body);
+      const response: SerpPreviewResponse = buildSerpPreview(title, description, url);
+
+      res.json(response);
+    } catch (error) {
+      console.error("SERP preview error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to build SERP preview" 
       });
+    }
+  });
 
-      const converted = convertedWords.join(' ');
-      
-      const rulesApplied = [
-        "Capitalized major words (nouns, verbs, adjectives)",
-        "Kept articles lowercase (a, an, the)",
-        "Kept prepositions lowercase (for, to, in, of, etc.)",
-        "Capitalized first and last words"
-      ];
+  // Title Case Converter
+  app.post("/api/title-case", async (req, res) => {
+    try {
+      const { text, style, protectedTerms } = titleCaseRequestSchema.parse(req.body);
+      const { converted, rulesApplied, trace } = convertTitleCase(text, style, protectedTerms);
 
       const response: TitleCaseResponse = {
         original: text,
         converted,
+        style,
         rulesApplied,
+        trace,
       };
 
       res.json(response);
@@ -129,49 +234,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Keyword Density Analyzer
   app.post("/api/keyword-density", async (req, res) => {
     try {
-      const { content } = keywordDensityRequestSchema.parse(req.body);
-      
-      // Clean and split content into words
-      const words = content
-        .toLowerCase()
-        .replace(/[^\w\s]/g, ' ')
-        .split(/\s+/)
-        .filter(word => word.length > 2); // Filter out very short words
-
-      const totalWords = words.length;
-      
-      // Count word frequencies
-      const wordCount = new Map<string, number>();
-      words.forEach(word => {
-        wordCount.set(word, (wordCount.get(word) || 0) + 1);
-      });
-
-      // Calculate keyword density and status
-      const keywords = Array.from(wordCount.entries())
-        .map(([word, frequency]) => {
-          const density = (frequency / totalWords) * 100;
-          let status: "low" | "good" | "optimal" | "high";
-          
-          if (density < 1) status = "low";
-          else if (density < 2) status = "good";
-          else if (density < 4) status = "optimal";
-          else status = "high";
-
-          return { word, frequency, density: Number(density.toFixed(2)), status };
-        })
-        .sort((a, b) => b.frequency - a.frequency)
-        .slice(0, 20); // Top 20 keywords
-
-      const avgDensity = Number((keywords.reduce((sum, k) => sum + k.density, 0) / keywords.length).toFixed(2));
-      const topKeywordDensity = keywords[0]?.density || 0;
-
-      const response: KeywordDensityResponse = {
-        totalWords,
-        uniqueKeywords: wordCount.size,
-        keywords,
-        avgDensity,
-        topKeywordDensity,
-      };
+      const { content, profile, ...options } = keywordDensityRequestSchema.parse(req.body);
+      const scoringProfile = await storage.getScoringProfile(profile);
+      if (!scoringProfile) {
+        return res.status(404).json({ message: `Scoring profile "${profile}" does not exist` });
+      }
+      const response: KeywordDensityResponse = analyzeKeywordDensity(content, { ...options, scoringProfile });
 
       res.json(response);
     } catch (error) {
@@ -182,67 +250,375 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Density Scoring Profiles
+  app.get("/api/scoring-profiles", async (_req, res) => {
+    try {
+      res.json(await storage.listScoringProfiles());
+    } catch (error) {
+      console.error("Scoring profile listing error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to list scoring profiles" 
+      });
+    }
+  });
+
+  app.post("/api/scoring-profiles", async (req, res) => {
+    try {
+      const profile = scoringProfileSchema.parse(req.body);
+      if (profile.name === DEFAULT_SCORING_PROFILE.name) {
+        return res.status(400).json({ message: "The default profile can't be changed; save a copy under a new name" });
+      }
+
+      res.json(await storage.saveScoringProfile(profile));
+    } catch (error) {
+      console.error("Scoring profile save error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to save scoring profile" 
+      });
+    }
+  });
+
+  app.delete("/api/scoring-profiles/:name", async (req, res) => {
+    try {
+      if (req.params.name === DEFAULT_SCORING_PROFILE.name) {
+        return res.status(400).json({ message: "The default profile can't be deleted" });
+      }
+      if (!(await storage.deleteScoringProfile(req.params.name))) {
+        return res.status(404).json({ message: `Scoring profile "${req.params.name}" does not exist` });
+      }
+
+      res.json({ deleted: req.params.name });
+    } catch (error) {
+      console.error("Scoring profile delete error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to delete scoring profile" 
+      });
+    }
+  });
+
+  // Readability Analyzer
+  app.post("/api/readability", async (req, res) => {
+    try {
+      const { content, format } = readabilityRequestSchema.parse(req.body);
+      const response: ReadabilityResponse = analyzeReadability(content, format);
+
+      res.json(response);
+    } catch (error) {
+      console.error("Readability analysis error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to analyze readability" 
+      });
+    }
+  });
+
+  // On-Page SEO Audit
+  app.post("/api/audit/page", async (req, res) => {
+    try {
+      const { html, profile, ...options } = pageAuditRequestSchema.parse(req.body);
+      const scoringProfile = await storage.getScoringProfile(profile);
+      if (!scoringProfile) {
+        return res.status(404).json({ message: `Scoring profile "${profile}" does not exist` });
+      }
+      const response: PageAuditResponse = auditPage(html, { ...options, scoringProfile });
+
+      res.json(response);
+    } catch (error) {
+      console.error("Page audit error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to audit page" 
+      });
+    }
+  });
+
+  // Heading Structure Analyzer
+  app.post("/api/headings", async (req, res) => {
+    try {
+      const { content, format, style, maxLength } = headingAnalysisRequestSchema.parse(req.body);
+      const response: HeadingAnalysisResponse = analyzeHeadings(content, format, style, maxLength);
+
+      res.json(response);
+    } catch (error) {
+      console.error("Heading analysis error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to analyze headings" 
+      });
+    }
+  });
+
   // Blog Outline Generator
   app.post("/api/blog-outline", async (req, res) => {
     try {
       const { topic, audience, length } = blogOutlineRequestSchema.parse(req.body);
       
+      const response: BlogOutlineResponse = await generateBlogOutline(topic, audience, length);
+
+      res.json(response);
+    } catch (error) {
+      console.error("Blog outline generation error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to generate blog outline" 
+      });
+    }
+  });
+
+  // Regenerate one outline section's subsections
+  app.post("/api/blog-outline/section", async (req, res) => {
+    try {
+      const { outline, path, audience, variant } = outlineSectionRequestSchema.parse(req.body);
+      const section = findSection(outline.sections, path);
+      if (!section) {
+        return res.status(400).json({ message: "No section at that position in the outline" });
+      }
+
       const audienceText = audience ? ` for ${audience}` : "";
-      const lengthText = length === "short" ? "5-7 sections" : 
-                       length === "medium" ? "7-10 sections" : "10-15 sections";
-      
-      const prompt = `Create a detailed blog outline for: "${topic}"${audienceText}. Include ${lengthText} with H1, H2, and H3 headings. Structure it as a comprehensive guide with introduction and conclusion.`;
-      
-      const aiResponse = await callHuggingFace(prompt);
-      
-      // Parse the AI response into structured sections
-      const lines = aiResponse.split('\n').filter(line => line.trim());
-      const sections = [];
-      let currentSection: any = null;
-
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (trimmed.match(/^\d+\./)) {
-          // Main section (H2)
-          if (currentSection) sections.push(currentSection);
-          currentSection = {
-            heading: trimmed.replace(/^\d+\.\s*/, ''),
-            level: 2,
-            subsections: []
-          };
-        } else if (trimmed.startsWith('-') && currentSection) {
-          // Subsection (H3)
-          currentSection.subsections.push(trimmed.replace(/^-\s*/, ''));
-        }
+      const context = renderOutlineMarkdown(outline.sections, section, "  <-- this section");
+      const prompt = `This is the outline of a blog post titled "${outline.title}"${audienceText}:\n\n${context}\n\nWrite 3-5 new subheadings for the marked section "${section.heading}" only, as a Markdown bulleted list. Use nested bullets for deeper points and don't repeat what other sections cover.`;
+
+      const existing = renderOutlineMarkdown(outline.sections)
+        .split("\n")
+        .map(line => line.replace(/^#+\s*/, ""))
+        .filter(heading => heading !== section.heading);
+      const task: GenerationTask = { kind: "outline-section", topic: outline.title, heading: section.heading, audience, existing, variant };
+      const generated = await generateText(prompt, task);
+      let engine = generated.engine;
+      let children = parseSectionChildren(generated.text, section);
+
+      // Fallback to the offline engine if AI response is not well structured
+      if (children.length === 0) {
+        children = parseSectionChildren(await offlineProvider.generate(prompt, task), section);
+        engine = offlineProvider.name;
       }
-      
-      if (currentSection) sections.push(currentSection);
-
-      // Fallback if AI response is not well structured
-      if (sections.length === 0) {
-        sections.push(
-          { heading: "Introduction", level: 2, subsections: [`Why ${topic} matters`, "What you'll learn"] },
-          { heading: "Main Content", level: 2, subsections: ["Key concepts", "Best practices", "Common mistakes"] },
-          { heading: "Conclusion", level: 2, subsections: ["Key takeaways", "Next steps"] }
-        );
+
+      const response: OutlineSectionResponse = {
+        section: { ...section, children },
+        engine,
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error("Outline section regeneration error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to regenerate section" 
+      });
+    }
+  });
+
+  // Download an outline as Markdown, HTML, DOCX or a JSON brief
+  app.post("/api/blog-outline/export", async (req, res) => {
+    try {
+      const { outline, format } = outlineExportRequestSchema.parse(req.body);
+      const file = exportOutline(outline, format);
+
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+    } catch (error) {
+      console.error("Outline export error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to export outline" 
+      });
+    }
+  });
+
+  // Outline coverage: compare a finished draft against its outline
+  app.post("/api/outline-coverage", async (req, res) => {
+    try {
+      const { outline, draft, format } = outlineCoverageRequestSchema.parse(req.body);
+
+      const response: OutlineCoverageResponse = analyzeOutlineCoverage(outline, draft, format);
+
+      res.json(response);
+    } catch (error) {
+      console.error("Outline coverage error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to compare draft with outline" 
+      });
+    }
+  });
+
+  // Content Brief Generator: title, meta description, outline, keyphrases and FAQs in one document
+  app.post("/api/content-brief", async (req, res) => {
+    try {
+      const { topic, focusKeyphrase, audience, length, style, profile } = contentBriefRequestSchema.parse(req.body);
+      const scoringProfile = await storage.getScoringProfile(profile);
+      if (!scoringProfile) {
+        return res.status(404).json({ message: `Scoring profile "${profile}" does not exist` });
       }
 
-      const estimatedWordCount = length === "short" ? 1200 : 
-                                length === "medium" ? 2500 : 4000;
-      const estimatedReadingTime = Math.ceil(estimatedWordCount / 250);
+      const title = suggestTitle(topic, focusKeyphrase, style);
+      const meta = await generateMetaDescriptions(title, audience, 3, false);
+      // Prefer the best variant that actually mentions the focus keyphrase
+      const keyphrase = focusKeyphrase.toLowerCase();
+      const metaDescription = meta.variants.find(v => v.content.toLowerCase().includes(keyphrase))?.content ?? meta.content;
+      const outline = await generateBlogOutline(topic, audience, length);
+
+      const response: ContentBriefResponse = buildContentBrief({
+        topic,
+        audience,
+        focusKeyphrase,
+        style,
+        title,
+        metaDescription,
+        outline: { ...outline, title },
+        faqs: buildFaqQuestions(focusKeyphrase, topic, audience),
+        engines: [meta.engine, outline.engine],
+        scoringProfile,
+      });
+
+      res.json(response);
+    } catch (error) {
+      console.error("Content brief error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to generate content brief" 
+      });
+    }
+  });
+
+  // Content brief export as a Markdown document
+  app.post("/api/content-brief/export", async (req, res) => {
+    try {
+      const brief = contentBriefResponseSchema.parse(req.body);
+      const file = exportBrief(brief);
+
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+    } catch (error) {
+      console.error("Content brief export error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to export content brief" 
+      });
+    }
+  });
+
+  // FAQ Generator: likely reader questions with short answers and FAQPage markup
+  app.post("/api/faq", async (req, res) => {
+    try {
+      const { topic, content, format, audience, count, outline } = faqRequestSchema.parse(req.body);
+      const article = content?.trim() ? parseContent(content, format) : null;
+      const subject = topic?.trim() || (article ? articleTopic(article) : "");
+      const source = article ? articleFaqSource(article) : undefined;
+
+      const audienceText = audience ? ` for ${audience}` : "";
+      const instructions = `Format each as "Q: question" on one line followed by "A: answer" on the next.`;
+      // Long articles are cut short to stay within the model's context
+      const prompt = article
+        ? `Read this article and write ${count} questions readers are likely to search for about it, like Google's "People also ask" box, each answered in 1-3 sentences using only the article${audienceText}. ${instructions}\n\nArticle:\n${article.blocks.map(block => block.text).join("\n\n").slice(0, 6000)}`
+        : `Write ${count} questions people commonly search for about "${subject}"${audienceText}, like Google's "People also ask" box, each with a short answer of 1-3 sentences. ${instructions}`;
+
+      const generated = await generateText(prompt, { kind: "faq", topic: subject, audience, count, source });
+      let engine = generated.engine;
+      let faqs = parseFaqText(generated.text).slice(0, count);
 
-      const response: BlogOutlineResponse = {
-        title: topic,
-        sections,
-        estimatedWordCount,
-        estimatedReadingTime,
+      // Fallback to the offline engine if the AI response has no question-and-answer pairs
+      if (faqs.length === 0) {
+        faqs = buildFaqs(subject, audience, count, source);
+        engine = offlineProvider.name;
+      }
+
+      const response: FaqResponse = {
+        topic: subject,
+        faqs,
+        jsonLd: jsonLdScript(faqPageJsonLd(faqs)),
+        outline: outline ? appendFaqSection(outline, faqs) : null,
+        engine,
       };
 
       res.json(response);
     } catch (error) {
-      console.error("Blog outline generation error:", error);
+      console.error("FAQ generation error:", error);
       res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to generate blog outline" 
+        message: error instanceof Error ? error.message : "Failed to generate FAQs" 
+      });
+    }
+  });
+
+  // Structured Data Generator: schema.org JSON-LD from form inputs, checked by the validator
+  app.post("/api/structured-data", async (req, res) => {
+    try {
+      const request = structuredDataRequestSchema.parse(req.body);
+      const jsonLd = buildStructuredData(request);
+
+      const response: StructuredDataResponse = {
+        type: request.type,
+        jsonLd,
+        script: jsonLdScript(jsonLd),
+        validation: validationReport("json", validateJsonLd(jsonLd, "Generated")),
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error("Structured data generation error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to generate structured data" 
+      });
+    }
+  });
+
+  // Structured Data Validator: JSON-LD or a full HTML page
+  app.post("/api/structured-data/validate", async (req, res) => {
+    try {
+      const { content } = structuredDataValidationRequestSchema.parse(req.body);
+
+      const response: StructuredDataValidation = validateStructuredData(content);
+
+      res.json(response);
+    } catch (error) {
+      console.error("Structured data validation error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to validate structured data" 
+      });
+    }
+  });
+
+  // robots.txt Parser: user-agent groups, sitemaps, syntax errors and unreachable rules
+  app.post("/api/robots/parse", async (req, res) => {
+    try {
+      const { content } = robotsParseRequestSchema.parse(req.body);
+
+      const response: RobotsParseResponse = parseRobots(content);
+
+      res.json(response);
+    } catch (error) {
+      console.error("robots.txt parse error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to parse robots.txt" 
+      });
+    }
+  });
+
+  // robots.txt Tester: the rule deciding each URL for one user-agent
+  app.post("/api/robots/test", async (req, res) => {
+    try {
+      const { content, userAgent, urls } = robotsTestRequestSchema.parse(req.body);
+
+      const response: RobotsTestResponse = testRobots(content, userAgent, urls);
+
+      res.json(response);
+    } catch (error) {
+      console.error("robots.txt test error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to test URLs against robots.txt" 
+      });
+    }
+  });
+
+  // robots.txt Generator: a file from form groups, checked by the parser
+  app.post("/api/robots/generate", async (req, res) => {
+    try {
+      const request = robotsGenerateRequestSchema.parse(req.body);
+      const content = generateRobots(request);
+
+      const response: RobotsGenerateResponse = {
+        content,
+        issues: parseRobots(content).issues,
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error("robots.txt generation error:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to generate robots.txt" 
       });
     }
   });
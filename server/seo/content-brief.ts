@@ -0,0 +1,139 @@
+import { tokenizeWords } from "./document";
+import { descendantHeadings } from "./outline";
+import { targetDensityRange } from "./scoring-profiles";
+import { getStopWords } from "./stop-words";
+import { convertTitleCase } from "./title-case";
+import type { BlogOutlineResponse, BriefKeyphrase, ContentBriefResponse, ScoringProfile, TitleCaseStyle } from "@shared/schema";
+
+const SECONDARY_LIMIT = 5;
+// Structural headings that say nothing about the subject
+const GENERIC_WORDS = new Set([
+  "introduction", "conclusion", "overview", "summary", "faq", "faqs", "questions", "answers", "final", "verdict",
+  "next", "steps", "step", "resources", "further", "reading", "recap", "takeaways", "key",
+]);
+
+const stopWords = getStopWords("en");
+
+export interface ContentBriefParts {
+  topic: string;
+  audience?: string;
+  focusKeyphrase: string;
+  style: TitleCaseStyle;
+  title: string;
+  metaDescription: string;
+  outline: BlogOutlineResponse;
+  faqs: string[];
+  engines: string[];
+  scoringProfile: ScoringProfile;
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return ` ${tokenizeWords(text).join(" ")} `.includes(` ${tokenizeWords(phrase).join(" ")} `);
+}
+
+// The topic in house style, led by the focus keyphrase when the topic doesn't already use it
+export function suggestTitle(topic: string, focusKeyphrase: string, style: TitleCaseStyle): string {
+  const text = containsPhrase(topic, focusKeyphrase) ? topic.trim() : `${focusKeyphrase.trim()}: ${topic.trim()}`;
+  return convertTitleCase(text, style).converted;
+}
+
+// Two- and three-word phrases from the topic and outline headings that share a
+// word with the focus keyphrase or recur across headings, most used first
+export function relatedKeyphrases(focusKeyphrase: string, topic: string, outline: BlogOutlineResponse, limit = SECONDARY_LIMIT): string[] {
+  const focusWords = new Set(tokenizeWords(focusKeyphrase));
+  const focusText = tokenizeWords(focusKeyphrase).join(" ");
+  const focusLength = tokenizeWords(focusKeyphrase).length;
+  const headings = [topic, ...outline.sections.flatMap(section => [section.heading, ...descendantHeadings(section)])];
+  const candidates = new Map<string, { count: number; related: boolean; order: number }>();
+
+  for (const heading of headings) {
+    // Runs of content words; a stop word, generic word or contraction fragment ends a run
+    const runs: string[][] = [[]];
+    for (const word of tokenizeWords(heading)) {
+      if (word.length < 3 || stopWords.has(word) || GENERIC_WORDS.has(word) || /^\d+$/.test(word)) runs.push([]);
+      else runs[runs.length - 1].push(word);
+    }
+    for (const run of runs) {
+      // Words inside an occurrence of the focus keyphrase can't start a new phrase,
+      // so "best project management software" doesn't yield "best project"
+      const covered = new Set<number>();
+      for (let i = 0; i + focusLength <= run.length; i++) {
+        if (run.slice(i, i + focusLength).join(" ") === focusText) {
+          for (let j = i; j < i + focusLength; j++) covered.add(j);
+        }
+      }
+      for (let size = 3; size >= 2; size--) {
+        for (let i = 0; i + size <= run.length; i++) {
+          const words = run.slice(i, i + size);
+          const phrase = words.join(" ");
+          if (` ${focusText} `.includes(` ${phrase} `) || words.some((_, j) => covered.has(i + j))) continue;
+          const entry = candidates.get(phrase);
+          if (entry) entry.count++;
+          else candidates.set(phrase, { count: 1, related: words.some(word => focusWords.has(word)), order: candidates.size });
+        }
+      }
+    }
+  }
+
+  // A phrase used once and unrelated to the focus keyphrase is just template wording
+  const ranked = Array.from(candidates.entries()).filter(([, entry]) => entry.related || entry.count > 1).sort(([, a], [, b]) =>
+    b.count - a.count || Number(b.related) - Number(a.related) || a.order - b.order);
+  // Skip phrases that only restate a longer one already chosen
+  const chosen: string[] = [];
+  for (const [phrase] of ranked) {
+    if (chosen.some(existing => ` ${existing} `.includes(` ${phrase} `) || ` ${phrase} `.includes(` ${existing} `))) continue;
+    chosen.push(phrase);
+    if (chosen.length === limit) break;
+  }
+  return chosen;
+}
+
+function mentionRange(profile: ScoringProfile, type: "focus" | "secondary", totalWords: number): BriefKeyphrase["mentions"] {
+  const range = targetDensityRange(profile, type, totalWords);
+  if (!range) return null;
+  return {
+    min: Math.max(1, Math.ceil((range.min / 100) * totalWords)),
+    max: range.max === null ? null : Math.max(1, Math.floor((range.max / 100) * totalWords)),
+  };
+}
+
+function mentionText(mentions: BriefKeyphrase["mentions"]): string {
+  if (!mentions) return "";
+  if (mentions.max === null) return ` Aim for at least ${mentions.min} mentions.`;
+  if (mentions.max <= mentions.min) return ` Aim for about ${mentions.min} mention${mentions.min === 1 ? "" : "s"}.`;
+  return ` Aim for ${mentions.min}-${mentions.max} mentions.`;
+}
+
+export function buildContentBrief(parts: ContentBriefParts): ContentBriefResponse {
+  const { outline, scoringProfile } = parts;
+  const totalWords = outline.estimatedWordCount;
+
+  const focusMentions = mentionRange(scoringProfile, "focus", totalWords);
+  const secondaryMentions = mentionRange(scoringProfile, "secondary", totalWords);
+  const keyphrases: BriefKeyphrase[] = [
+    {
+      phrase: parts.focusKeyphrase.trim(),
+      type: "focus",
+      mentions: focusMentions,
+      guidance: `Use in the title, meta description, H1, first 100 words and at least one H2.${mentionText(focusMentions)}`,
+    },
+    ...relatedKeyphrases(parts.focusKeyphrase, parts.topic, outline).map((phrase): BriefKeyphrase => ({
+      phrase,
+      type: "secondary",
+      mentions: secondaryMentions,
+      guidance: `Work into the body, ideally in a subheading.${mentionText(secondaryMentions)}`,
+    })),
+  ];
+
+  return {
+    topic: parts.topic,
+    audience: parts.audience || null,
+    title: parts.title,
+    titleStyle: parts.style,
+    metaDescription: parts.metaDescription,
+    keyphrases,
+    outline,
+    faqs: parts.faqs,
+    engine: Array.from(new Set(parts.engines)).join(", "),
+  };
+}
@@ -0,0 +1,244 @@
+import { findByTag, isBlockElement, parseHtml, textContent, type HtmlElement, type HtmlNode } from "./html";
+import type { ContentFormat } from "@shared/schema";
+
+// Lightweight document model shared by the content analysis tools: the text
+// is split into heading and paragraph blocks, each with its sentences, and
+// SEO-relevant zones (title, headings, bold text, alt text, link text) are
+// collected separately. Plain text, Markdown and HTML all parse into it.
+
+export interface TextBlock {
+  type: "heading" | "paragraph";
+  // Heading level (1-6); paragraphs have none
+  level?: number;
+  text: string;
+  sentences: string[];
+}
+
+export interface ContentDocument {
+  format: Exclude<ContentFormat, "auto">;
+  title: string | null;
+  blocks: TextBlock[];
+  zones: {
+    title: string[];
+    headings: string[];
+    strong: string[];
+    alt: string[];
+    anchor: string[];
+  };
+  links: Array<{ text: string; href: string }>;
+  // Parsed markup, only for HTML input
+  root: HtmlElement | null;
+}
+
+export function splitIntoSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|[;\n]+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+// Lowercase word tokens, keeping accented Latin letters
+export function tokenizeWords(text: string): string[] {
+  return text.toLowerCase().replace(/[^\w\s\u00C0-\u024F]/g, " ").split(/\s+/).filter(Boolean);
+}
+
+// A short standalone line without closing punctuation reads as a heading in plain text
+function looksLikeHeading(line: string): boolean {
+  return line.split(/\s+/).length <= 12 && !/[.!?,;:]$/.test(line);
+}
+
+// Plain text and light Markdown: "#" lines are headings, blank lines separate paragraphs
+export function parsePlainText(content: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const chunks = content.replace(/\r\n/g, "\n").split(/\n\s*\n/);
+
+  chunks.forEach((chunk, chunkIndex) => {
+    const lines = chunk.split("\n").map(line => line.trim()).filter(Boolean);
+    let paragraph: string[] = [];
+    const flush = () => {
+      if (paragraph.length > 0) {
+        const text = paragraph.join(" ");
+        blocks.push({ type: "paragraph", text, sentences: splitIntoSentences(text) });
+        paragraph = [];
+      }
+    };
+
+    lines.forEach((line, index) => {
+      const markdown = line.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+      if (markdown) {
+        flush();
+        blocks.push({ type: "heading", level: markdown[1].length, text: markdown[2], sentences: [markdown[2]] });
+      } else if (index === 0 && (lines.length > 1 || chunkIndex < chunks.length - 1) && looksLikeHeading(line)) {
+        blocks.push({ type: "heading", level: 2, text: line, sentences: [line] });
+      } else {
+        paragraph.push(line);
+      }
+    });
+    flush();
+  });
+
+  return blocks;
+}
+
+function headingZone(blocks: TextBlock[]): string[] {
+  return blocks.filter(block => block.type === "heading").map(block => block.text);
+}
+
+function plainTextDocument(content: string): ContentDocument {
+  const blocks = parsePlainText(content);
+  return {
+    format: "text",
+    title: null,
+    blocks,
+    zones: { title: [], headings: headingZone(blocks), strong: [], alt: [], anchor: [] },
+    links: [],
+    root: null,
+  };
+}
+
+const MARKDOWN_IMAGE = /!\[([^\]]*)\]\([^)]*\)/g;
+const MARKDOWN_LINK = /\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g;
+const MARKDOWN_STRONG = /(\*\*|__)(.+?)\1/g;
+
+export function parseMarkdown(content: string): ContentDocument {
+  const zones: ContentDocument["zones"] = { title: [], headings: [], strong: [], alt: [], anchor: [] };
+  const links: ContentDocument["links"] = [];
+
+  // Inline syntax is unwrapped to plain text while its zones are recorded
+  const inline = (text: string) => text
+    .replace(MARKDOWN_IMAGE, (_, alt: string) => {
+      if (alt.trim()) zones.alt.push(alt.trim());
+      return " ";
+    })
+    .replace(MARKDOWN_LINK, (_, label: string, href: string) => {
+      zones.anchor.push(label);
+      links.push({ text: label, href });
+      return label;
+    })
+    .replace(MARKDOWN_STRONG, (_, __, bold: string) => {
+      zones.strong.push(bold);
+      return bold;
+    })
+    .replace(/(\*|_)(\S.*?)\1/g, "$2")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const blocks: TextBlock[] = [];
+  let paragraph: string[] = [];
+  const flush = () => {
+    const text = inline(paragraph.join(" "));
+    if (text) blocks.push({ type: "paragraph", text, sentences: splitIntoSentences(text) });
+    paragraph = [];
+  };
+
+  const lines = content.replace(/\r\n/g, "\n").replace(/^(```|~~~)[\s\S]*?^\1.*$/gm, "").split("\n");
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+    const listItem = line.match(/^(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (!line || /^(-{3,}|\*{3,}|_{3,})$/.test(line)) {
+      flush();
+    } else if (heading) {
+      flush();
+      const text = inline(heading[2]);
+      blocks.push({ type: "heading", level: heading[1].length, text, sentences: [text] });
+    } else if (listItem) {
+      flush();
+      paragraph.push(listItem[1]);
+      flush();
+    } else {
+      paragraph.push(line.replace(/^>\s?/, ""));
+    }
+  }
+  flush();
+
+  zones.headings = headingZone(blocks);
+  const firstHeading = blocks.find(block => block.type === "heading" && block.level === 1);
+  return { format: "markdown", title: firstHeading?.text ?? null, blocks, zones, links, root: null };
+}
+
+// Page furniture that isn't part of the content being analyzed
+const BOILERPLATE_TAGS = new Set(["script", "style", "noscript", "template", "svg", "iframe", "nav", "aside", "footer", "form"]);
+const BOILERPLATE_ROLES = new Set(["navigation", "banner", "contentinfo", "complementary", "search"]);
+
+function isBoilerplate(element: HtmlElement, insideMain: boolean): boolean {
+  if (BOILERPLATE_TAGS.has(element.tag)) return true;
+  // A site header is boilerplate, but an article's own <header> holds its title
+  if (element.tag === "header" && !insideMain) return true;
+  return BOILERPLATE_ROLES.has(element.attrs.role ?? "");
+}
+
+export function parseHtmlDocument(html: string): ContentDocument {
+  const root = parseHtml(html);
+  const zones: ContentDocument["zones"] = { title: [], headings: [], strong: [], alt: [], anchor: [] };
+  const links: ContentDocument["links"] = [];
+
+  const title = findByTag(root, "title").map(textContent).find(Boolean) ?? null;
+  if (title) zones.title.push(title);
+
+  // Prefer the main content area when the page marks one up
+  const main = findByTag(root, "main")[0]
+    ?? (findByTag(root, "article").length === 1 ? findByTag(root, "article")[0] : undefined);
+  const content = main ?? findByTag(root, "body")[0] ?? root;
+
+  const blocks: TextBlock[] = [];
+  let buffer = "";
+  const flush = () => {
+    const text = buffer.replace(/\s+/g, " ").trim();
+    if (text) blocks.push({ type: "paragraph", text, sentences: splitIntoSentences(text) });
+    buffer = "";
+  };
+
+  const walk = (node: HtmlNode) => {
+    if (node.type === "text") {
+      buffer += node.text;
+      return;
+    }
+    if (isBoilerplate(node, main !== undefined) || node.tag === "head" || node.tag === "title") return;
+
+    const heading = node.tag.match(/^h([1-6])$/);
+    if (heading) {
+      flush();
+      const text = textContent(node);
+      if (text) blocks.push({ type: "heading", level: Number(heading[1]), text, sentences: [text] });
+      return;
+    }
+
+    if (node.tag === "img" && node.attrs.alt?.trim()) zones.alt.push(node.attrs.alt.trim());
+    if (node.tag === "strong" || node.tag === "b") zones.strong.push(textContent(node));
+    if (node.tag === "a") {
+      const text = textContent(node);
+      if (text) zones.anchor.push(text);
+      links.push({ text, href: node.attrs.href ?? "" });
+    }
+
+    const block = isBlockElement(node.tag);
+    if (block) flush();
+    node.children.forEach(walk);
+    if (block) flush();
+  };
+  walk(content);
+  flush();
+
+  zones.headings = headingZone(blocks);
+  return { format: "html", title, blocks, zones, links, root };
+}
+
+export function detectFormat(content: string): Exclude<ContentFormat, "auto"> {
+  if (/<(html|head|body|main|article|section|div|p|h[1-6]|ul|ol|li|a|img|strong|span|br)\b[^>]*>/i.test(content)) {
+    return "html";
+  }
+  if (/^#{1,6}\s+\S|\*\*[^*]+\*\*|\[[^\]]+\]\([^)]+\)|^(?:[-*+]|\d+\.)\s+\S/m.test(content)) {
+    return "markdown";
+  }
+  return "text";
+}
+
+export function parseContent(content: string, format: ContentFormat = "auto"): ContentDocument {
+  const resolved = format === "auto" ? detectFormat(content) : format;
+  if (resolved === "html") return parseHtmlDocument(content);
+  if (resolved === "markdown") return parseMarkdown(content);
+  return plainTextDocument(content);
+}
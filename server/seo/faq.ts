@@ -0,0 +1,110 @@
+import type { ContentDocument } from "./document";
+import type { BlogOutlineResponse, FaqItem, OutlineSection } from "@shared/schema";
+
+// Turns generated or pasted question-and-answer text into FAQ items, and FAQ
+// items into an outline section. FAQPage markup lives with the other
+// structured data in ./structured-data.
+
+const FAQ_HEADING = /\b(faqs?|frequently asked questions)\b/i;
+const QUESTION_PREFIX = /^(?:q(?:uestion)?\s*\d*\s*[:.)-])\s*/i;
+const ANSWER_PREFIX = /^(?:a(?:nswer)?\s*\d*\s*[:.)-])\s*/i;
+// Shortest budget for an answer in an outline, in words
+const MIN_ANSWER_WORDS = 40;
+
+// Markdown heading, list and emphasis syntax around a line
+function stripMarkup(line: string): string {
+  return line
+    .replace(/^#{1,6}\s+/, "")
+    .replace(/^(?:[-*+\u2022]|\d{1,2}[.)])\s+/, "")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .trim();
+}
+
+// Accepts "Q:"/"A:" pairs, and questions as headings, bold lines or list
+// items with the answer on the lines below
+export function parseFaqText(text: string): FaqItem[] {
+  const items: FaqItem[] = [];
+  let current: FaqItem | null = null;
+
+  for (const raw of text.split("\n")) {
+    const line = stripMarkup(raw);
+    if (!line) continue;
+
+    if (ANSWER_PREFIX.test(line)) {
+      if (current) current.answer = [current.answer, line.replace(ANSWER_PREFIX, "")].filter(Boolean).join(" ");
+    } else if (QUESTION_PREFIX.test(line) || /\?$/.test(line)) {
+      current = { question: stripMarkup(line.replace(QUESTION_PREFIX, "")), answer: "" };
+      items.push(current);
+    } else if (current) {
+      current.answer = [current.answer, line].filter(Boolean).join(" ");
+    }
+  }
+
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = item.question.toLowerCase();
+    if (!item.question || !item.answer || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// What a pasted article is about: its title, else its first heading or sentence
+export function articleTopic(document: ContentDocument): string {
+  const heading = document.blocks.find(block => block.type === "heading");
+  const paragraph = document.blocks.find(block => block.type === "paragraph");
+  return document.title ?? heading?.text ?? paragraph?.sentences[0] ?? "";
+}
+
+// Headings the article already phrases as questions, answered by the first
+// sentences under them, plus every body sentence for answering other questions
+export function articleFaqSource(document: ContentDocument): { questions: FaqItem[]; sentences: string[] } {
+  const questions: FaqItem[] = [];
+  let current: { question: string; sentences: string[] } | null = null;
+  const flush = () => {
+    if (current && current.sentences.length > 0) {
+      questions.push({ question: current.question, answer: current.sentences.slice(0, 2).join(" ") });
+    }
+    current = null;
+  };
+
+  for (const block of document.blocks) {
+    if (block.type === "heading") {
+      flush();
+      if (/\?$/.test(block.text.trim())) current = { question: block.text.trim(), sentences: [] };
+    } else if (current) {
+      current.sentences.push(...block.sentences);
+    }
+  }
+  flush();
+
+  const sentences = document.blocks.filter(block => block.type === "paragraph").flatMap(block => block.sentences);
+  return { questions, sentences };
+}
+
+// Adds the questions as H3s under a FAQ section, replacing the children of
+// an existing FAQ section or appending a new one at the end
+export function appendFaqSection(outline: BlogOutlineResponse, faqs: FaqItem[]): BlogOutlineResponse {
+  const existingIndex = outline.sections.findIndex(section => FAQ_HEADING.test(section.heading));
+  const existing = existingIndex >= 0 ? outline.sections[existingIndex] : null;
+  const level = existing?.level ?? 2;
+  const children: OutlineSection[] = faqs.map(item => ({
+    heading: item.question,
+    level: Math.min(6, level + 1),
+    targetWords: Math.max(MIN_ANSWER_WORDS, Math.ceil(item.answer.split(/\s+/).length / 10) * 10),
+    children: [],
+  }));
+  const section: OutlineSection = {
+    heading: existing?.heading ?? "Frequently Asked Questions",
+    level,
+    targetWords: children.reduce((sum, child) => sum + child.targetWords, 0),
+    children,
+  };
+  if (existing?.notes) section.notes = existing.notes;
+
+  const sections = existing
+    ? outline.sections.map((current, index) => (index === existingIndex ? section : current))
+    : [...outline.sections, section];
+  const estimatedWordCount = outline.estimatedWordCount - (existing?.targetWords ?? 0) + section.targetWords;
+  return { ...outline, sections, estimatedWordCount, estimatedReadingTime: Math.ceil(estimatedWordCount / 250) };
+}
@@ -0,0 +1,154 @@
+import { detectFormat, parsePlainText } from "./document";
+import { findByTag, parseHtml, textContent } from "./html";
+import { buildSectionTree, type OutlineItem } from "./outline";
+import { convertTitleCase } from "./title-case";
+import type {
+  ContentFormat,
+  HeadingAnalysisResponse,
+  HeadingIssue,
+  OutlineSection,
+  TitleCaseStyle,
+} from "@shared/schema";
+
+export interface ExtractedHeading {
+  level: number;
+  text: string;
+}
+
+type Casing = HeadingAnalysisResponse["headings"][number]["casing"];
+
+// Unlike the content parsers this keeps empty headings, which are an issue worth reporting
+function markdownHeadings(content: string): ExtractedHeading[] {
+  const headings: ExtractedHeading[] = [];
+  const lines = content.replace(/\r\n/g, "\n").replace(/^(```|~~~)[\s\S]*?^\1.*$/gm, "").split("\n");
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const atx = line.match(/^(#{1,6})(?:\s+(.*?))?\s*#*$/);
+    if (atx) {
+      headings.push({ level: atx[1].length, text: (atx[2] ?? "").trim() });
+      return;
+    }
+    // Setext headings: a line of text underlined with === or ---
+    const next = lines[index + 1]?.trim() ?? "";
+    if (line && !/^[-*+>]|^\d+[.)]/.test(line) && /^(=+|-+)$/.test(next)) {
+      headings.push({ level: next[0] === "=" ? 1 : 2, text: line });
+    }
+  });
+  return headings;
+}
+
+export function extractHeadings(content: string, format: ContentFormat): { format: Exclude<ContentFormat, "auto">; headings: ExtractedHeading[] } {
+  const resolved = format === "auto" ? detectFormat(content) : format;
+  if (resolved === "html") {
+    const headings = findByTag(parseHtml(content), "h1", "h2", "h3", "h4", "h5", "h6")
+      .map(element => ({ level: Number(element.tag[1]), text: textContent(element) }));
+    return { format: resolved, headings };
+  }
+  if (resolved === "markdown") {
+    return { format: resolved, headings: markdownHeadings(content) };
+  }
+  const headings = parsePlainText(content)
+    .filter(block => block.type === "heading")
+    .map(block => ({ level: block.level ?? 2, text: block.text }));
+  return { format: resolved, headings };
+}
+
+// The first H1 becomes the title and the rest nest into an unbudgeted outline tree
+export function headingsToSections(headings: ExtractedHeading[]): { title: string | null; sections: OutlineSection[] } {
+  let title: string | null = null;
+  const items: OutlineItem[] = [];
+  for (const heading of headings) {
+    if (!heading.text) continue;
+    if (heading.level === 1 && title === null) {
+      title = heading.text;
+      continue;
+    }
+    items.push({ level: heading.level, heading: heading.text });
+  }
+  return { title, sections: buildSectionTree(items) };
+}
+
+function classifyCasing(text: string, style: TitleCaseStyle): { casing: Casing; titleCased: string } {
+  const titleCased = convertTitleCase(text, style).converted;
+  const sentenceCased = convertTitleCase(text, "sentence").converted;
+  // One-word headings and the like read the same either way
+  if (text === titleCased && text === sentenceCased) return { casing: "either", titleCased };
+  if (text === titleCased) return { casing: "title", titleCased };
+  if (text === sentenceCased) return { casing: "sentence", titleCased };
+  return { casing: "neither", titleCased };
+}
+
+export function analyzeHeadings(
+  content: string,
+  format: ContentFormat,
+  style: TitleCaseStyle,
+  maxLength: number,
+): HeadingAnalysisResponse {
+  const extracted = extractHeadings(content, format);
+  const { headings } = extracted;
+  const issues: HeadingIssue[] = [];
+
+  const h1Indexes = headings.flatMap((heading, index) => (heading.level === 1 ? [index] : []));
+  if (h1Indexes.length === 0 && headings.length > 0) {
+    issues.push({ type: "missing-h1", severity: "error", message: "There is no H1 heading.", headingIndex: null });
+  }
+  h1Indexes.slice(1).forEach(index => {
+    issues.push({ type: "multiple-h1", severity: "error", message: `Extra H1 "${headings[index].text}"; use one H1 per page.`, headingIndex: index });
+  });
+
+  const seen = new Map<string, number>();
+  const analyzed = headings.map((heading, index) => {
+    const previous = headings[index - 1];
+    if (previous && heading.level > previous.level + 1) {
+      issues.push({
+        type: "skipped-level",
+        severity: "warning",
+        message: `H${heading.level} follows an H${previous.level}; expected an H${previous.level + 1}.`,
+        headingIndex: index,
+      });
+    }
+
+    if (!heading.text) {
+      issues.push({ type: "empty", severity: "error", message: `H${heading.level} has no text.`, headingIndex: index });
+      return { ...heading, casing: "either" as Casing, suggestion: null };
+    }
+
+    const key = heading.text.toLowerCase().replace(/\s+/g, " ");
+    const firstSeen = seen.get(key);
+    if (firstSeen !== undefined) {
+      issues.push({ type: "duplicate", severity: "warning", message: `"${heading.text}" repeats heading #${firstSeen + 1}.`, headingIndex: index });
+    } else {
+      seen.set(key, index);
+    }
+
+    if (heading.text.length > maxLength) {
+      issues.push({
+        type: "too-long",
+        severity: "warning",
+        message: `At ${heading.text.length} characters this heading is over the ${maxLength}-character limit.`,
+        headingIndex: index,
+      });
+    }
+
+    const { casing, titleCased } = classifyCasing(heading.text, style);
+    if (casing === "neither") {
+      issues.push({ type: "casing", severity: "notice", message: `Casing matches neither title nor sentence case; suggested: "${titleCased}".`, headingIndex: index });
+    }
+    return { ...heading, casing, suggestion: casing === "title" || casing === "either" ? null : titleCased };
+  });
+
+  const titleCount = analyzed.filter(heading => heading.casing === "title").length;
+  const sentenceCount = analyzed.filter(heading => heading.casing === "sentence").length;
+  if (titleCount > 0 && sentenceCount > 0) {
+    const majority = titleCount >= sentenceCount ? "title case" : "sentence case";
+    issues.push({
+      type: "inconsistent-casing",
+      severity: "notice",
+      message: `${titleCount} headings use title case and ${sentenceCount} use sentence case; most use ${majority}.`,
+      headingIndex: null,
+    });
+  }
+
+  const { title, sections } = headingsToSections(headings);
+  return { format: extracted.format, title, headings: analyzed, issues, sections };
+}
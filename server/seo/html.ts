@@ -0,0 +1,145 @@
+// Small, forgiving HTML parser. It builds a plain node tree good enough for
+// content analysis: unknown or mismatched tags never throw, they are simply
+// closed or ignored the way browsers tend to.
+
+export interface HtmlElement {
+  type: "element";
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export interface HtmlText {
+  type: "text";
+  text: string;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr",
+]);
+
+// Contents are kept as a single text node instead of being parsed as markup
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea", "title", "noscript"]);
+
+// Opening one of these closes an open <p>, like browsers do
+const CLOSES_PARAGRAPH = new Set([
+  "address", "article", "aside", "blockquote", "div", "dl", "fieldset", "footer", "form", "h1", "h2", "h3",
+  "h4", "h5", "h6", "header", "hr", "main", "nav", "ol", "p", "pre", "section", "table", "ul",
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ", ndash: "–", mdash: "—", hellip: "…",
+  lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", copy: "©", reg: "®", trade: "™", middot: "·", raquo: "»",
+  laquo: "«", bull: "•",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // NUL, surrogates and values past Unicode's range become U+FFFD, as in browsers
+      if (value === 0 || (value >= 0xd800 && value <= 0xdfff) || value > 0x10ffff) return "\ufffd";
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    const name = code.toLowerCase();
+    return Object.hasOwn(NAMED_ENTITIES, name) ? NAMED_ENTITIES[name] : entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s=\/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { type: "element", tag: "#root", attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  // Searched for raw text end tags. Only ASCII is lowercased so indexes line up with `html`.
+  const lower = html.replace(/[A-Z]+/g, letters => letters.toLowerCase());
+  const tagPattern = /<!--[\s\S]*?-->|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s=\/>"']+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+
+  let position = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html))) {
+    if (match.index > position) {
+      current().children.push({ type: "text", text: decodeEntities(html.slice(position, match.index)) });
+    }
+    position = tagPattern.lastIndex;
+
+    const [, closingTag, openingTag, attrSource, selfClosing] = match;
+    if (closingTag) {
+      const tag = closingTag.toLowerCase();
+      const index = stack.map(element => element.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+    if (!openingTag) continue; // comment or doctype
+
+    const tag = openingTag.toLowerCase();
+    if (CLOSES_PARAGRAPH.has(tag) && current().tag === "p") stack.pop();
+    if (tag === "li" && current().tag === "li") stack.pop();
+
+    const element: HtmlElement = { type: "element", tag, attrs: parseAttributes(attrSource), children: [] };
+    current().children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(tag)) {
+      const end = lower.indexOf(`</${tag}`, position);
+      const stop = end === -1 ? html.length : end;
+      const raw = html.slice(position, stop);
+      if (raw) element.children.push({ type: "text", text: tag === "script" || tag === "style" ? raw : decodeEntities(raw) });
+      const close = html.indexOf(">", stop);
+      position = close === -1 ? html.length : close + 1;
+      tagPattern.lastIndex = position;
+    } else if (!VOID_ELEMENTS.has(tag) && !selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  if (position < html.length) {
+    current().children.push({ type: "text", text: decodeEntities(html.slice(position)) });
+  }
+  return root;
+}
+
+export function findAll(node: HtmlNode, predicate: (element: HtmlElement) => boolean): HtmlElement[] {
+  const found: HtmlElement[] = [];
+  const visit = (current: HtmlNode) => {
+    if (current.type !== "element") return;
+    if (predicate(current)) found.push(current);
+    current.children.forEach(visit);
+  };
+  visit(node);
+  return found;
+}
+
+export function findByTag(node: HtmlNode, ...tags: string[]): HtmlElement[] {
+  return findAll(node, element => tags.includes(element.tag));
+}
+
+const BLOCK_ELEMENTS = new Set([
+  ...Array.from(CLOSES_PARAGRAPH), "br", "dd", "dt", "figcaption", "li", "option", "td", "th", "title", "tr",
+]);
+
+export function isBlockElement(tag: string): boolean {
+  return BLOCK_ELEMENTS.has(tag);
+}
+
+function rawText(node: HtmlNode): string {
+  if (node.type === "text") return node.text;
+  if (node.tag === "script" || node.tag === "style") return "";
+  const text = node.children.map(rawText).join("");
+  return BLOCK_ELEMENTS.has(node.tag) ? ` ${text} ` : text;
+}
+
+// Visible text with whitespace collapsed. Scripts and styles never count as text.
+export function textContent(node: HtmlNode): string {
+  return rawText(node).replace(/\s+/g, " ").trim();
+}
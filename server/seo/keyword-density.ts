@@ -0,0 +1,234 @@
+import { parseContent, tokenizeWords, type ContentDocument } from "./document";
+import { lemmatize, porterStem } from "./stemmer";
+import { analyzeTargetKeyphrase } from "./target-keywords";
+import { detectOverOptimization } from "./over-optimization";
+import { classifyDensity } from "./scoring-profiles";
+import { getStopWords } from "./stop-words";
+import type {
+  ContentFormat,
+  ContentLanguage,
+  KeywordDensityResponse,
+  KeywordEntry,
+  KeywordType,
+  KeywordZones,
+  ScoringProfile,
+  WordNormalization,
+} from "@shared/schema";
+
+const TOP_KEYWORDS = 20;
+
+export interface KeywordDensityOptions {
+  format: ContentFormat;
+  ngramSizes: number[];
+  language: ContentLanguage;
+  removeStopWords: boolean;
+  customStopWords: string[];
+  normalization: WordNormalization;
+  focusKeyphrase?: string;
+  secondaryKeyphrases: string[];
+  scoringProfile: ScoringProfile;
+}
+
+// Occurrences grouped under one normalized key, with the surface forms seen
+interface KeywordGroup {
+  count: number;
+  forms: Map<string, number>;
+}
+
+// The stemmer and lemmatizer are English-only; other languages group exact words
+function normalizer(normalization: WordNormalization, language: ContentLanguage): (word: string) => string {
+  if (language !== "en" || normalization === "none") return word => word;
+  return normalization === "stem" ? porterStem : lemmatize;
+}
+
+function addOccurrence(groups: Map<string, KeywordGroup>, key: string, form: string) {
+  const group = groups.get(key) ?? { count: 0, forms: new Map<string, number>() };
+  group.count++;
+  group.forms.set(form, (group.forms.get(form) || 0) + 1);
+  groups.set(key, group);
+}
+
+function toWords(text: string): string[] {
+  return text.toLowerCase().replace(/[^\w\s\u00C0-\u024F]/g, " ").split(/\s+/).filter(Boolean);
+}
+
+// Sentences as lowercase word lists so phrases never span a sentence boundary
+function documentSentences(document: ContentDocument): string[][] {
+  return document.blocks
+    .flatMap(block => block.sentences)
+    .map(toWords)
+    .filter(words => words.length > 0);
+}
+
+function countSequence(haystack: string[], needle: string[]): number {
+  let count = 0;
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((word, j) => haystack[i + j] === word)) count++;
+  }
+  return count;
+}
+
+// Counts a normalized keyword inside each zone of a structured document
+function zoneCounter(document: ContentDocument, normalize: (word: string) => string): ((key: string) => KeywordZones) | null {
+  if (document.format === "text") return null;
+  const zoneWords = (texts: string[]) => texts.map(text => toWords(text).map(normalize));
+  const zones = {
+    title: zoneWords(document.zones.title),
+    headings: zoneWords(document.zones.headings),
+    strong: zoneWords(document.zones.strong),
+    alt: zoneWords(document.zones.alt),
+    anchor: zoneWords(document.zones.anchor),
+  };
+  return key => {
+    const needle = key.split(" ");
+    const count = (texts: string[][]) => texts.reduce((sum, words) => sum + countSequence(words, needle), 0);
+    return {
+      title: count(zones.title),
+      headings: count(zones.headings),
+      strong: count(zones.strong),
+      alt: count(zones.alt),
+      anchor: count(zones.anchor),
+    };
+  };
+}
+
+// Shared by the single-word and phrase tables
+interface RankContext {
+  totalWords: number;
+  normalized: boolean;
+  countZones: ((key: string) => KeywordZones) | null;
+  status: (key: string, density: number) => string;
+}
+
+function rankKeywords(groups: Map<string, KeywordGroup>, context: RankContext): KeywordEntry[] {
+  const { totalWords, normalized, countZones } = context;
+  return Array.from(groups.entries())
+    .map(([key, group]) => {
+      const density = (group.count / totalWords) * 100;
+      // Show the most common surface form rather than a stem like "market"
+      const forms = Array.from(group.forms.entries()).sort((a, b) => b[1] - a[1]).map(([form]) => form);
+      const entry: KeywordEntry = {
+        word: forms[0],
+        frequency: group.count,
+        density: Number(density.toFixed(2)),
+        status: context.status(key, density),
+      };
+      if (normalized) {
+        entry.stem = key;
+        entry.forms = forms;
+      }
+      if (countZones) entry.zones = countZones(key);
+      return entry;
+    })
+    .sort((a, b) => b.frequency - a.frequency)
+    .slice(0, TOP_KEYWORDS);
+}
+
+function countNgrams(
+  sentences: string[][],
+  size: number,
+  stopWords: Set<string>,
+  removeStopWords: boolean,
+  normalize: (word: string) => string,
+): Map<string, KeywordGroup> {
+  const groups = new Map<string, KeywordGroup>();
+  for (const words of sentences) {
+    for (let i = 0; i + size <= words.length; i++) {
+      const gram = words.slice(i, i + size);
+      if (gram.every(word => stopWords.has(word))) continue;
+      // With filtering on, "of email marketing" adds nothing over "email marketing"
+      if (removeStopWords && (stopWords.has(gram[0]) || stopWords.has(gram[size - 1]))) continue;
+      addOccurrence(groups, gram.map(normalize).join(" "), gram.join(" "));
+    }
+  }
+  // A phrase seen once isn't a keyphrase
+  Array.from(groups.entries()).forEach(([key, group]) => {
+    if (group.count < 2) groups.delete(key);
+  });
+  return groups;
+}
+
+export function analyzeKeywordDensity(content: string, options: KeywordDensityOptions): KeywordDensityResponse {
+  return analyzeDocumentKeywordDensity(parseContent(content, options.format), options);
+}
+
+// For callers that have already parsed the content
+export function analyzeDocumentKeywordDensity(document: ContentDocument, options: Omit<KeywordDensityOptions, "format">): KeywordDensityResponse {
+  const sentences = documentSentences(document);
+  const stopWords = getStopWords(options.language, options.customStopWords);
+  const normalize = normalizer(options.normalization, options.language);
+  const normalized = options.normalization !== "none" && options.language === "en";
+
+  // Single keywords ignore very short words
+  const words = sentences.flat().filter(word => word.length > 2);
+  const totalWords = words.length;
+
+  const wordGroups = new Map<string, KeywordGroup>();
+  words.forEach(word => {
+    if (options.removeStopWords && stopWords.has(word)) return;
+    addOccurrence(wordGroups, normalize(word), word);
+  });
+
+  const targetPhrases = [
+    ...(options.focusKeyphrase?.trim() ? [{ keyphrase: options.focusKeyphrase.trim(), type: "focus" as const }] : []),
+    ...options.secondaryKeyphrases
+      .map(keyphrase => keyphrase.trim())
+      .filter(Boolean)
+      .map(keyphrase => ({ keyphrase, type: "secondary" as const })),
+  ];
+
+  // Table rows that are a target keyphrase are scored with that keyphrase's
+  // thresholds; focus wins when a phrase is also listed as secondary
+  const profile = options.scoringProfile;
+  const keywordTypes = new Map<string, KeywordType>();
+  targetPhrases.slice().reverse().forEach(({ keyphrase, type }) => {
+    keywordTypes.set(tokenizeWords(keyphrase).map(normalize).join(" "), type);
+  });
+  const context: RankContext = {
+    totalWords,
+    normalized,
+    countZones: zoneCounter(document, normalize),
+    status: (key, density) => classifyDensity(profile, keywordTypes.get(key) ?? "generic", totalWords, density),
+  };
+
+  const keywords = rankKeywords(wordGroups, context);
+  const ngrams = options.ngramSizes
+    .filter(size => size > 1)
+    .sort((a, b) => a - b)
+    .map(size => ({
+      size,
+      keywords: rankKeywords(countNgrams(sentences, size, stopWords, options.removeStopWords, normalize), context),
+    }));
+
+  const targets = targetPhrases.map(({ keyphrase, type }) => {
+    const result = analyzeTargetKeyphrase(document.blocks, keyphrase, type, totalWords, stopWords, options.language);
+    return {
+      ...result,
+      status: classifyDensity(profile, type, totalWords, result.exactDensity + result.partialDensity),
+    };
+  });
+  const overOptimization = detectOverOptimization(document, {
+    language: options.language,
+    stopWords,
+    normalize,
+    keyphrases: targetPhrases.map(target => target.keyphrase),
+    totalWords,
+  });
+
+  const avgDensity = Number((keywords.reduce((sum, k) => sum + k.density, 0) / keywords.length).toFixed(2));
+  const topKeywordDensity = keywords[0]?.density || 0;
+
+  return {
+    format: document.format,
+    title: document.title,
+    profile: { name: profile.name, statuses: profile.statuses },
+    totalWords,
+    uniqueKeywords: wordGroups.size,
+    keywords,
+    ngrams,
+    targets,
+    overOptimization,
+    avgDensity,
+    topKeywordDensity,
+  };
+}
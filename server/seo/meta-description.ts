@@ -0,0 +1,95 @@
+import { extractKeywords } from "../ai/offline";
+import { measureText, SERP_LIMITS } from "./text-width";
+import type { MetaDescriptionVariant } from "@shared/schema";
+
+export const META_DESCRIPTION_MIN_LENGTH = 120;
+export const META_DESCRIPTION_MAX_LENGTH = 160;
+
+const CALL_TO_ACTION = /\b(learn|discover|find out|read|get|start|try|explore|see|download|shop|sign up|join|check out|grab|boost|improve|master|compare|choose)\b/i;
+
+export interface TruncationOutcome {
+  content: string;
+  truncated: boolean;
+  strategy: "none" | "sentence" | "word";
+  removed: string;
+}
+
+const PROMPT_ECHO = /^\s*(?:write|generate|create)\s+(?:an?\s+)?(?:compelling\s+)?(?:seo\s+)?meta\s+description\b[^:\n]*?(?::|\.\s|\n)\s*/i;
+const LABEL_PREFIX = /^\s*(?:seo\s+)?meta\s+description\s*[:\-–—]\s*/i;
+const WRAPPING_QUOTES = /^["'“”‘’`]+([\s\S]*?)["'“”‘’`]+$/;
+
+// Removes the noise small models tend to add around the actual description:
+// the prompt repeated back, a "Meta description:" label and wrapping quotes
+export function cleanGeneratedText(text: string, prompt?: string): string {
+  let cleaned = text.replace(/\s+/g, " ").trim();
+  if (prompt && cleaned.toLowerCase().startsWith(prompt.toLowerCase())) {
+    cleaned = cleaned.slice(prompt.length).trim();
+  }
+  cleaned = cleaned.replace(PROMPT_ECHO, "").replace(LABEL_PREFIX, "").trim();
+
+  const quoted = cleaned.match(WRAPPING_QUOTES);
+  if (quoted) {
+    cleaned = quoted[1].trim();
+  }
+  return cleaned;
+}
+
+// Shortens text to fit `maxLength`, preferring to end on the last full sentence.
+// A sentence cut is only used when it keeps at least half the limit; otherwise
+// the text is cut at the last word boundary, optionally followed by an ellipsis.
+export function truncateMetaDescription(text: string, maxLength = META_DESCRIPTION_MAX_LENGTH, ellipsis = false): TruncationOutcome {
+  if (text.length <= maxLength) {
+    return { content: text, truncated: false, strategy: "none", removed: "" };
+  }
+
+  const window = text.slice(0, maxLength);
+  const sentenceEnds = Array.from(window.matchAll(/[.!?]["')\]]?(?=\s|$)/g));
+  const lastSentenceEnd = sentenceEnds.length > 0
+    ? sentenceEnds[sentenceEnds.length - 1].index! + sentenceEnds[sentenceEnds.length - 1][0].length
+    : -1;
+
+  if (lastSentenceEnd >= maxLength / 2) {
+    const content = text.slice(0, lastSentenceEnd).trim();
+    return { content, truncated: true, strategy: "sentence", removed: text.slice(lastSentenceEnd).trim() };
+  }
+
+  const budget = ellipsis ? maxLength - 1 : maxLength;
+  const slice = text.slice(0, budget + 1);
+  const lastSpace = slice.lastIndexOf(" ");
+  const cutAt = lastSpace > 0 ? lastSpace : budget;
+  const kept = text.slice(0, cutAt).replace(/[\s,;:\-–—]+$/, "");
+  return {
+    content: ellipsis ? `${kept}…` : kept,
+    truncated: true,
+    strategy: "word",
+    removed: text.slice(kept.length).trim(),
+  };
+}
+
+export function scoreMetaDescription(content: string, title: string): MetaDescriptionVariant["score"] {
+  const characters = content.length;
+  const { font, fontSize, maxWidth } = SERP_LIMITS.desktop.description;
+  const pixelWidth = Math.round(measureText(content, font, fontSize));
+  const primaryKeyword = extractKeywords(title, 1)[0];
+  const hasPrimaryKeyword = primaryKeyword ? content.toLowerCase().includes(primaryKeyword) : false;
+  const hasCallToAction = CALL_TO_ACTION.test(content);
+  const endsWithCompleteSentence = /[.!?]["')\]]?$/.test(content.trim());
+
+  let total = 0;
+  if (characters >= META_DESCRIPTION_MIN_LENGTH && characters <= META_DESCRIPTION_MAX_LENGTH) total += 30;
+  else if (characters >= 70 && characters <= META_DESCRIPTION_MAX_LENGTH) total += 15;
+  if (pixelWidth <= maxWidth) total += 20;
+  if (hasPrimaryKeyword) total += 20;
+  if (hasCallToAction) total += 15;
+  if (endsWithCompleteSentence) total += 15;
+
+  return {
+    characters,
+    pixelWidth,
+    primaryKeyword: primaryKeyword ?? null,
+    hasPrimaryKeyword,
+    hasCallToAction,
+    endsWithCompleteSentence,
+    total,
+  };
+}
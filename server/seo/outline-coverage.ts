@@ -0,0 +1,179 @@
+import { parseContent, tokenizeWords, type TextBlock } from "./document";
+import { descendantHeadings } from "./outline";
+import { porterStem } from "./stemmer";
+import { getStopWords } from "./stop-words";
+import type { BlogOutlineResponse, ContentFormat, OutlineCoverageResponse, SectionCoverage } from "@shared/schema";
+
+// Headings at least this similar are treated as the same section
+const MATCH_THRESHOLD = 0.6;
+// Share of a subsection's terms that must appear in one paragraph to count as a mention
+const MENTION_THRESHOLD = 0.6;
+const THIN_RATIO = 0.5;
+const LONG_RATIO = 2;
+
+const stopWords = getStopWords("en");
+
+interface DraftHeading {
+  blockIndex: number;
+  text: string;
+  terms: string[];
+  // Words from the heading down to the next heading of the same or higher rank
+  words: number;
+  end: number;
+}
+
+// Stemmed content words, so "Choosing a Platform" and "choose your platforms" line up
+function terms(text: string): string[] {
+  const stems = tokenizeWords(text)
+    .filter(word => !stopWords.has(word) && !/^\d+$/.test(word))
+    .map(word => porterStem(word));
+  return Array.from(new Set(stems));
+}
+
+function bigrams(text: string): string[] {
+  const normalized = text.toLowerCase().replace(/[^a-z0-9\u00C0-\u024F]+/g, " ").trim();
+  const pairs: string[] = [];
+  for (let i = 0; i < normalized.length - 1; i++) pairs.push(normalized.slice(i, i + 2));
+  return pairs;
+}
+
+function dice(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const remaining = b.slice();
+  let shared = 0;
+  for (const item of a) {
+    const index = remaining.indexOf(item);
+    if (index >= 0) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (a.length + b.length);
+}
+
+// Blends term overlap with containment, so "Introduction" still matches
+// "Introduction to Email Marketing"; character bigrams catch typos and
+// headings made only of stop words.
+function similarity(a: { text: string; terms: string[] }, b: { text: string; terms: string[] }): number {
+  const termDice = dice(a.terms, b.terms);
+  const shorter = Math.min(a.terms.length, b.terms.length);
+  const containment = shorter > 0 ? a.terms.filter(term => b.terms.includes(term)).length / shorter : 0;
+  return Math.max((termDice + containment) / 2, dice(bigrams(a.text), bigrams(b.text)));
+}
+
+function blockWords(block: TextBlock): number {
+  return block.type === "paragraph" ? tokenizeWords(block.text).length : 0;
+}
+
+function draftHeadings(blocks: TextBlock[]): DraftHeading[] {
+  const headings: DraftHeading[] = [];
+  blocks.forEach((block, blockIndex) => {
+    if (block.type !== "heading") return;
+    let end = blockIndex + 1;
+    while (end < blocks.length && !(blocks[end].type === "heading" && (blocks[end].level ?? 2) <= (block.level ?? 2))) end++;
+    const words = blocks.slice(blockIndex + 1, end).reduce((sum, next) => sum + blockWords(next), 0);
+    headings.push({ blockIndex, text: block.text, terms: terms(block.text), words, end });
+  });
+  return headings;
+}
+
+function isMentioned(subsection: string, blocks: TextBlock[]): boolean {
+  const wanted = terms(subsection);
+  if (wanted.length === 0) return true;
+  const needed = Math.ceil(wanted.length * MENTION_THRESHOLD);
+  return blocks.some(block => {
+    const present = new Set(terms(block.text));
+    return wanted.filter(term => present.has(term)).length >= needed;
+  });
+}
+
+export function analyzeOutlineCoverage(outline: BlogOutlineResponse, draft: string, format: ContentFormat): OutlineCoverageResponse {
+  const document = parseContent(draft, format);
+  const { blocks } = document;
+  const draftWords = blocks.reduce((sum, block) => sum + blockWords(block), 0);
+
+  const outlineTitle = { text: outline.title, terms: terms(outline.title) };
+  const titleCandidates = blocks.filter(block => block.type === "heading" && block.level === 1).map(block => block.text);
+  if (document.title) titleCandidates.push(document.title);
+  const titleMatched = titleCandidates.some(text => similarity(outlineTitle, { text, terms: terms(text) }) >= MATCH_THRESHOLD);
+
+  // The H1 is the post title, not a section
+  const headings = draftHeadings(blocks).filter(heading => blocks[heading.blockIndex].level !== 1);
+  const sectionKeys = outline.sections.map(section => ({ text: section.heading, terms: terms(section.heading) }));
+
+  // Best pairs first, so a strong match later in the outline isn't stolen by a weak earlier one
+  const pairs: Array<{ section: number; heading: number; score: number }> = [];
+  sectionKeys.forEach((key, section) => {
+    headings.forEach((heading, index) => {
+      const score = similarity(key, heading);
+      if (score >= MATCH_THRESHOLD) pairs.push({ section, heading: index, score });
+    });
+  });
+  pairs.sort((a, b) => b.score - a.score);
+
+  const matches = new Map<number, { heading: number; score: number }>();
+  const usedHeadings = new Set<number>();
+  for (const pair of pairs) {
+    if (matches.has(pair.section) || usedHeadings.has(pair.heading)) continue;
+    matches.set(pair.section, { heading: pair.heading, score: pair.score });
+    usedHeadings.add(pair.heading);
+  }
+
+  // Outlines without budgets get an even share of the total
+  const evenShare = outline.sections.length > 0 ? Math.round(outline.estimatedWordCount / outline.sections.length) : 0;
+  let found = 0;
+  let expected = 0;
+
+  const sections: SectionCoverage[] = outline.sections.map((section, index) => {
+    const match = matches.get(index);
+    const heading = match ? headings[match.heading] : null;
+    // An unmatched section's subsections may still be covered somewhere else in the post
+    const scope = heading ? blocks.slice(heading.blockIndex + 1, heading.end) : blocks;
+    const subsections = descendantHeadings(section);
+
+    // Subsection headings only count under their own section, so one filed under a
+    // different section is reported as missing
+    const inScope = (candidate: DraftHeading) => !heading || (candidate.blockIndex > heading.blockIndex && candidate.blockIndex < heading.end);
+
+    const missingSubsections = subsections.filter(subsection => {
+      const key = { text: subsection, terms: terms(subsection) };
+      const headingIndex = headings.findIndex((candidate, candidateIndex) =>
+        !usedHeadings.has(candidateIndex) && inScope(candidate) && similarity(key, candidate) >= MATCH_THRESHOLD);
+      if (headingIndex >= 0) {
+        usedHeadings.add(headingIndex);
+        return false;
+      }
+      return !isMentioned(subsection, scope);
+    });
+
+    expected += 1 + subsections.length;
+    found += (heading ? 1 : 0) + subsections.length - missingSubsections.length;
+
+    const words = heading ? heading.words : 0;
+    const targetWords = section.targetWords || evenShare;
+    let status: SectionCoverage["status"] = "on-target";
+    if (!heading) status = "missing";
+    else if (words < targetWords * THIN_RATIO) status = "thin";
+    else if (words > targetWords * LONG_RATIO) status = "long";
+
+    return {
+      heading: section.heading,
+      matchedHeading: heading ? heading.text : null,
+      similarity: match ? Math.round(match.score * 100) : 0,
+      words,
+      targetWords,
+      status,
+      missingSubsections,
+    };
+  });
+
+  return {
+    format: document.format,
+    titleMatched,
+    coverage: expected > 0 ? Math.round((found / expected) * 100) : 100,
+    draftWords,
+    targetWords: outline.estimatedWordCount,
+    sections,
+    extraHeadings: headings.filter((_, index) => !usedHeadings.has(index)).map(heading => heading.text),
+  };
+}
@@ -0,0 +1,215 @@
+import type { OutlineSection } from "@shared/schema";
+
+// Parses generated outline text into a section tree. Accepts Markdown
+// headings, numbered and bulleted lists (nested by indentation), classic
+// I. / A. / 1. / a. outlines and decimal 1.2.3 numbering, in any mix.
+
+export interface OutlineItem {
+  level: number;
+  heading: string;
+  // Words asked for in the text itself, e.g. "Getting Started (300 words)"
+  budget?: number | null;
+  notes?: string[];
+}
+
+interface ListContext {
+  indent: number;
+  kind: string;
+  level: number;
+  // Last marker seen at this position, to tell the letter "I." from the numeral
+  marker: string;
+}
+
+const MAX_LEVEL = 6;
+// Numerals up to XXXIX; nobody outlines further, and it keeps words like "mix" out
+const ROMAN_PATTERN = /^(?=[ivx])x{0,3}(ix|iv|v?i{0,3})$/i;
+const BUDGET_PATTERN = /\s*[([]\s*(?:~|about|approx\.?)?\s*(\d[\d,]*)\s*words?\s*[)\]]\s*$/i;
+
+function clampLevel(level: number): number {
+  return Math.max(1, Math.min(MAX_LEVEL, level));
+}
+
+function indentWidth(line: string): number {
+  const leading = line.match(/^[ \t]*/)![0];
+  return leading.replace(/\t/g, "    ").length;
+}
+
+// Roman numerals and letters overlap on I, V and X. A single
+// letter continues an alphabetical run when it follows the previous letter,
+// and is otherwise only a numeral if it's "I" or numerals are already in use.
+function markerKind(marker: string, stack: ListContext[]): string {
+  const upper = marker === marker.toUpperCase();
+  const caseKey = upper ? "upper" : "lower";
+  if (ROMAN_PATTERN.test(marker)) {
+    if (marker.length > 1) return `roman-${caseKey}`;
+    const previousLetter = String.fromCharCode(marker.charCodeAt(0) - 1);
+    if (stack.some(context => context.kind === `alpha-${caseKey}` && context.marker === previousLetter)) return `alpha-${caseKey}`;
+    if (/^i$/i.test(marker) || stack.some(context => context.kind === `roman-${caseKey}`)) return `roman-${caseKey}`;
+  }
+  return `alpha-${caseKey}`;
+}
+
+function listItem(line: string, stack: ListContext[]): { kind: string; marker: string; text: string } | null {
+  const bullet = line.match(/^[-*+\u2022]\s+(.+)$/);
+  if (bullet) return { kind: "bullet", marker: "-", text: bullet[1] };
+  const decimal = line.match(/^(\d+(?:\.\d+)+)\.?\s+(.+)$/);
+  if (decimal) return { kind: `decimal-${decimal[1].split(".").length}`, marker: decimal[1], text: decimal[2] };
+  const numbered = line.match(/^(\d+)[.)]\s+(.+)$/);
+  if (numbered) return { kind: "number", marker: numbered[1], text: numbered[2] };
+  const lettered = line.match(/^([A-Za-z]{1,4})[.)]\s+(.+)$/);
+  if (lettered && (lettered[1].length === 1 || ROMAN_PATTERN.test(lettered[1]))) {
+    return { kind: markerKind(lettered[1], stack), marker: lettered[1], text: lettered[2] };
+  }
+  return null;
+}
+
+// Same indent and marker style means a sibling; anything new nests one level deeper
+function listLevel(stack: ListContext[], indent: number, kind: string, marker: string, baseLevel: number): number {
+  while (stack.length > 0 && stack[stack.length - 1].indent > indent) stack.pop();
+  const siblingIndex = stack.map(context => context.indent === indent && context.kind === kind).lastIndexOf(true);
+  let level: number;
+  if (siblingIndex >= 0) {
+    level = stack[siblingIndex].level;
+    stack.splice(siblingIndex);
+  } else {
+    level = stack.length > 0 ? stack[stack.length - 1].level + 1 : baseLevel;
+  }
+  level = clampLevel(level);
+  stack.push({ indent, kind, level, marker });
+  return level;
+}
+
+function cleanHeading(text: string): { heading: string; budget: number | null; level: number | null } {
+  let heading = text.trim().replace(/\*\*|__/g, "");
+  let level: number | null = null;
+  const explicit = heading.match(/^H([1-6])\s*[:\-\u2013\u2014]\s*/i);
+  if (explicit) {
+    level = Number(explicit[1]);
+    heading = heading.slice(explicit[0].length);
+  }
+  let budget: number | null = null;
+  const words = heading.match(BUDGET_PATTERN);
+  if (words) {
+    budget = Number(words[1].replace(/,/g, ""));
+    heading = heading.slice(0, words.index);
+  }
+  return { heading: heading.replace(/[:\s]+$/, "").trim(), budget, level };
+}
+
+export function parseOutlineItems(text: string): { title: string | null; items: OutlineItem[] } {
+  let title: string | null = null;
+  const items: OutlineItem[] = [];
+  let stack: ListContext[] = [];
+  let baseLevel = 2;
+
+  for (const rawLine of text.replace(/\r\n/g, "\n").split("\n")) {
+    const line = rawLine.trim();
+    if (!line || /^(```|---+|\*\*\*+)$/.test(line)) continue;
+
+    const markdown = line.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+    if (markdown) {
+      const { heading, budget, level } = cleanHeading(markdown[2]);
+      const depth = level ?? markdown[1].length;
+      if (depth === 1 && title === null && items.length === 0) {
+        title = heading;
+      } else {
+        items.push({ level: clampLevel(Math.max(depth, 2)), heading, budget, notes: [] });
+      }
+      // Lists under a heading are its subsections
+      stack = [];
+      baseLevel = clampLevel(Math.max(depth, 1) + 1);
+      continue;
+    }
+
+    const item = listItem(line, stack);
+    if (item) {
+      const { heading, budget, level } = cleanHeading(item.text);
+      const nested = listLevel(stack, indentWidth(rawLine), item.kind, item.marker, baseLevel);
+      items.push({ level: level !== null ? clampLevel(Math.max(level, 2)) : nested, heading, budget, notes: [] });
+      continue;
+    }
+
+    // Anything else is a note on the section above it
+    const last = items[items.length - 1];
+    if (last) last.notes!.push(line.replace(/^notes?:\s*/i, ""));
+  }
+
+  return { title, items: items.filter(item => item.heading) };
+}
+
+function splitBudget(sections: OutlineSection[], budgets: Array<number | null>, total: number) {
+  const planned = budgets.reduce<number>((sum, budget) => sum + (budget ?? 0), 0);
+  const open = budgets.filter(budget => budget === null).length;
+  const share = open > 0 ? Math.max(0, total - planned) / open : 0;
+  sections.forEach((section, index) => {
+    section.targetWords = budgets[index] ?? Math.floor(share / 10) * 10;
+  });
+}
+
+// Nests items by level and shares `totalWords` out between them: each level
+// splits its parent's budget evenly, after any budgets the text asked for.
+// A section's budget includes its children's.
+export function buildSectionTree(items: OutlineItem[], totalWords = 0): OutlineSection[] {
+  const roots: OutlineSection[] = [];
+  const budgets = new Map<OutlineSection, number | null>();
+  const stack: OutlineSection[] = [];
+
+  for (const item of items) {
+    const section: OutlineSection = { heading: item.heading, level: item.level, targetWords: 0, children: [] };
+    if (item.notes && item.notes.length > 0) section.notes = item.notes.join(" ");
+    budgets.set(section, item.budget ?? null);
+    while (stack.length > 0 && stack[stack.length - 1].level >= item.level) stack.pop();
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(section);
+    stack.push(section);
+  }
+
+  const assign = (sections: OutlineSection[], total: number) => {
+    splitBudget(sections, sections.map(section => budgets.get(section) ?? null), total);
+    sections.forEach(section => assign(section.children, section.targetWords));
+  };
+  assign(roots, totalWords);
+  return roots;
+}
+
+export function parseOutline(text: string, totalWords: number): { title: string | null; sections: OutlineSection[] } {
+  const { title, items } = parseOutlineItems(text);
+  return { title, sections: buildSectionTree(items, totalWords) };
+}
+
+// Every heading below a section, depth first
+export function descendantHeadings(section: OutlineSection): string[] {
+  return section.children.flatMap(child => [child.heading, ...descendantHeadings(child)]);
+}
+
+export function findSection(sections: OutlineSection[], path: number[]): OutlineSection | null {
+  let current: OutlineSection | undefined;
+  let level = sections;
+  for (const index of path) {
+    current = level[index];
+    if (!current) return null;
+    level = current.children;
+  }
+  return current ?? null;
+}
+
+// Markdown headings for every section; `marked` gets a note after its heading
+export function renderOutlineMarkdown(sections: OutlineSection[], marked?: OutlineSection, note = ""): string {
+  return sections
+    .flatMap(section => [
+      `${"#".repeat(section.level)} ${section.heading}${section === marked ? note : ""}`,
+      renderOutlineMarkdown(section.children, marked, note),
+    ])
+    .filter(Boolean)
+    .join("\n");
+}
+
+// New children for `section` from generated text, moved to sit one level
+// below it whatever levels the text used
+export function parseSectionChildren(text: string, section: OutlineSection): OutlineSection[] {
+  const { items } = parseOutlineItems(text);
+  const points = items.filter(item => item.heading.toLowerCase() !== section.heading.toLowerCase());
+  if (points.length === 0) return [];
+  const shift = section.level + 1 - Math.min(...points.map(item => item.level));
+  const rebased = points.map(item => ({ ...item, level: clampLevel(item.level + shift) }));
+  return buildSectionTree(rebased, section.targetWords);
+}
@@ -0,0 +1,278 @@
+import { tokenizeWords, type ContentDocument } from "./document";
+import type { ContentLanguage, OverOptimizationFlag, OverOptimizationReport } from "@shared/schema";
+
+export interface OverOptimizationOptions {
+  language: ContentLanguage;
+  stopWords: Set<string>;
+  normalize: (word: string) => string;
+  // Focus and secondary keyphrases are checked at any length
+  keyphrases: string[];
+  totalWords: number;
+}
+
+interface IndexedSentence {
+  index: number;
+  text: string;
+  words: string[];
+  // Words after stemming or lemmatization, so "marketer"/"marketers" match
+  normalized: string[];
+}
+
+// In ordinary prose the most frequent content word rarely passes this share of the text
+const PROSE_BASELINE_DENSITY = 2.5;
+const OUTLIER_Z_SCORE = 3;
+const CRITICAL_DENSITY = 5;
+const MIN_WORDS_FOR_OUTLIERS = 100;
+const REPEATED_ANCHOR_MIN = 3;
+
+const LIST_SEPARATORS = /[,|/·•]/g;
+
+// Verbs a keyword list would never contain; anything else needs a POS tagger
+const AUXILIARY_VERBS: Record<ContentLanguage, string[]> = {
+  en: [
+    "is", "are", "was", "were", "be", "been", "being", "am", "has", "have", "had", "do", "does", "did",
+    "can", "could", "will", "would", "shall", "should", "may", "might", "must", "get", "gets", "got",
+    "make", "makes", "made", "take", "takes", "took", "use", "uses", "help", "helps", "need", "needs",
+    "want", "wants", "know", "knows", "find", "finds", "see", "sees", "give", "gives", "go", "goes",
+    "come", "comes", "keep", "keeps", "let", "lets", "try", "tries", "work", "works", "start", "starts",
+    "learn", "learns", "read", "reads", "grow", "grows", "buy", "sell", "sells", "offer", "offers",
+    "include", "includes", "provide", "provides", "show", "shows", "think", "say", "says", "look", "looks",
+  ],
+  es: ["es", "son", "era", "fue", "ser", "está", "están", "estar", "hay", "tiene", "tienen", "puede", "pueden", "hace", "debe"],
+  fr: ["est", "sont", "était", "être", "a", "ont", "avoir", "peut", "peuvent", "fait", "faut", "doit", "va"],
+  de: ["ist", "sind", "war", "sein", "hat", "haben", "kann", "können", "wird", "werden", "muss", "soll", "gibt"],
+  pt: ["é", "são", "era", "foi", "ser", "está", "estão", "estar", "tem", "têm", "pode", "podem", "faz", "deve", "há"],
+  it: ["è", "sono", "era", "essere", "ha", "hanno", "avere", "può", "possono", "fa", "deve", "c'è"],
+};
+
+function looksLikeVerb(word: string, language: ContentLanguage): boolean {
+  if (AUXILIARY_VERBS[language].includes(word)) return true;
+  // Past tenses and -ize/-ify verbs are a decent signal; -ing isn't ("marketing")
+  return language === "en" && word.length > 4 && /(ed|ize|ify)$/.test(word);
+}
+
+function sentenceRefs(sentences: IndexedSentence[]): OverOptimizationFlag["sentences"] {
+  return sentences.map(({ index, text }) => ({ index, text }));
+}
+
+function findSequence(words: string[], phrase: string[]): number[] {
+  const positions: number[] = [];
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((word, j) => words[i + j] === word)) positions.push(i);
+  }
+  return positions;
+}
+
+// Normalized 2- and 3-word phrases that don't start or end on a stop word
+function phraseKeys(sentence: IndexedSentence, stopWords: Set<string>): string[] {
+  const keys: string[] = [];
+  for (const size of [2, 3]) {
+    for (let i = 0; i + size <= sentence.words.length; i++) {
+      if (stopWords.has(sentence.words[i]) || stopWords.has(sentence.words[i + size - 1])) continue;
+      keys.push(sentence.normalized.slice(i, i + size).join(" "));
+    }
+  }
+  return keys;
+}
+
+function findAdjacentRepetition(
+  sentences: IndexedSentence[],
+  keyphraseKeys: string[],
+  stopWords: Set<string>,
+): OverOptimizationFlag[] {
+  const flags: Array<OverOptimizationFlag & { key: string }> = [];
+  const candidates = new Set<string>(keyphraseKeys);
+  const sizes = new Set([2, 3, ...keyphraseKeys.map(key => key.split(" ").length)]);
+  // Phrase to the sentences containing it, in order, with the count in each
+  const occurrences = new Map<string, Array<[number, number]>>();
+
+  sentences.forEach((sentence, position) => {
+    phraseKeys(sentence, stopWords).forEach(key => candidates.add(key));
+    const counts = new Map<string, number>();
+    sizes.forEach(size => {
+      for (let i = 0; i + size <= sentence.normalized.length; i++) {
+        const key = sentence.normalized.slice(i, i + size).join(" ");
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    });
+    counts.forEach((count, key) => {
+      const list = occurrences.get(key);
+      if (list) list.push([position, count]);
+      else occurrences.set(key, [[position, count]]);
+    });
+  });
+
+  candidates.forEach(key => {
+    const phrase = key.split(" ");
+    const found = occurrences.get(key) ?? [];
+
+    // Walk runs of consecutive sentences that all repeat the phrase
+    let start = 0;
+    while (start < found.length) {
+      let end = start;
+      while (end + 1 < found.length && found[end + 1][0] === found[end][0] + 1) end++;
+
+      const run = sentences.slice(found[start][0], found[end][0] + 1);
+      const counts = found.slice(start, end + 1).map(([, count]) => count);
+      const total = counts.reduce((sum, count) => sum + count, 0);
+      const maxInSentence = Math.max(...counts);
+      if (run.length >= 3 || (run.length >= 2 && total >= 4) || maxInSentence >= 3) {
+        // Report the phrase as written rather than its stems
+        const first = run[0];
+        const at = findSequence(first.normalized, phrase)[0];
+        const surface = first.words.slice(at, at + phrase.length).join(" ");
+        flags.push({
+          key,
+          type: "adjacent-repetition",
+          severity: run.length >= 4 || maxInSentence >= 3 ? "critical" : "warning",
+          phrase: surface,
+          message: run.length > 1
+            ? `"${surface}" is repeated ${total} times across ${run.length} consecutive sentences`
+            : `"${surface}" is repeated ${total} times in a single sentence`,
+          sentences: sentenceRefs(run),
+        });
+      }
+      start = end + 1;
+    }
+  });
+
+  // "email marketing tips" and "email marketing" flagging the same sentences is one problem
+  return flags
+    .filter(flag => !flags.some(other =>
+      other !== flag
+      && other.key.length > flag.key.length
+      && ` ${other.key} `.includes(` ${flag.key} `)
+      && flag.sentences.every(ref => other.sentences.some(otherRef => otherRef.index === ref.index))))
+    .map(({ key, ...flag }) => flag);
+}
+
+function findKeywordLists(sentences: IndexedSentence[], language: ContentLanguage): OverOptimizationFlag[] {
+  const flags: OverOptimizationFlag[] = [];
+  for (const sentence of sentences) {
+    const segments = sentence.text.split(LIST_SEPARATORS).map(segment => segment.trim()).filter(Boolean);
+    if (segments.length < 4) continue;
+    const averageLength = sentence.words.length / segments.length;
+    if (averageLength > 4 || sentence.words.some(word => looksLikeVerb(word, language))) continue;
+
+    flags.push({
+      type: "keyword-list",
+      severity: segments.length >= 6 ? "critical" : "warning",
+      phrase: segments.slice(0, 3).join(", "),
+      message: `A list of ${segments.length} phrases with no verb reads as a keyword list, not a sentence`,
+      sentences: sentenceRefs([sentence]),
+    });
+  }
+  return flags;
+}
+
+function findRepeatedAnchors(
+  document: ContentDocument,
+  sentences: IndexedSentence[],
+  options: OverOptimizationOptions,
+  keyphraseKeys: string[],
+): OverOptimizationFlag[] {
+  const normalizePhrase = (text: string) => tokenizeWords(text).map(options.normalize).join(" ");
+  const groups = new Map<string, { text: string; count: number }>();
+  const add = (text: string) => {
+    const key = normalizePhrase(text);
+    const group = groups.get(key) ?? { text, count: 0 };
+    group.count++;
+    groups.set(key, group);
+  };
+
+  // Real link text where there is markup; short standalone lines in plain text
+  if (document.format === "text") {
+    sentences
+      .filter(sentence => sentence.words.length >= 2 && sentence.words.length <= 6)
+      .forEach(sentence => add(sentence.text));
+  } else {
+    document.zones.anchor.forEach(add);
+  }
+
+  const flags: OverOptimizationFlag[] = [];
+  groups.forEach(({ text, count }, key) => {
+    const words = key.split(" ");
+    const contentWords = tokenizeWords(text).filter(word => !options.stopWords.has(word));
+    // "Read more" three times is lazy linking, not over-optimization
+    if (words.length < 2 || contentWords.length < 2) return;
+    const minimum = keyphraseKeys.includes(key) ? 2 : REPEATED_ANCHOR_MIN;
+    if (count < minimum) return;
+
+    flags.push({
+      type: "repeated-anchor",
+      severity: count >= 5 ? "critical" : "warning",
+      phrase: text,
+      message: document.format === "text"
+        ? `The phrase "${text}" stands alone ${count} times, like repeated link text`
+        : `${count} links use the same anchor text "${text}"`,
+      sentences: sentenceRefs(sentences.filter(sentence => findSequence(sentence.normalized, words).length > 0)),
+    });
+  });
+  return flags;
+}
+
+// Compares each content word's frequency against the rest of the vocabulary and
+// against the density ordinary prose tops out at
+function findDensityOutliers(sentences: IndexedSentence[], options: OverOptimizationOptions): OverOptimizationFlag[] {
+  if (options.totalWords < MIN_WORDS_FOR_OUTLIERS) return [];
+
+  const groups = new Map<string, { form: string; count: number }>();
+  sentences.forEach(sentence => sentence.words.forEach((word, i) => {
+    if (word.length <= 2 || options.stopWords.has(word) || /^\d+$/.test(word)) return;
+    const key = sentence.normalized[i];
+    const group = groups.get(key) ?? { form: word, count: 0 };
+    group.count++;
+    groups.set(key, group);
+  }));
+
+  const counts = Array.from(groups.values()).map(group => group.count);
+  if (counts.length < 2) return [];
+  const mean = counts.reduce((sum, count) => sum + count, 0) / counts.length;
+  const deviation = Math.sqrt(counts.reduce((sum, count) => sum + (count - mean) ** 2, 0) / counts.length);
+  if (deviation === 0) return [];
+
+  const flags: OverOptimizationFlag[] = [];
+  groups.forEach(({ form, count }, key) => {
+    const density = (count / options.totalWords) * 100;
+    const zScore = (count - mean) / deviation;
+    if (density < PROSE_BASELINE_DENSITY || zScore < OUTLIER_Z_SCORE) return;
+
+    flags.push({
+      type: "density-outlier",
+      severity: density >= CRITICAL_DENSITY ? "critical" : "warning",
+      phrase: form,
+      message: `"${form}" makes up ${density.toFixed(1)}% of the text, well above the ~${PROSE_BASELINE_DENSITY}% ceiling of natural prose`,
+      sentences: sentenceRefs(sentences.filter(sentence => sentence.normalized.includes(key))),
+    });
+  });
+  return flags;
+}
+
+export function detectOverOptimization(document: ContentDocument, options: OverOptimizationOptions): OverOptimizationReport {
+  const sentences: IndexedSentence[] = [];
+  const paragraphSentences: IndexedSentence[] = [];
+  document.blocks.forEach(block => {
+    block.sentences.forEach(text => {
+      const words = tokenizeWords(text);
+      const sentence = { index: sentences.length, text, words, normalized: words.map(options.normalize) };
+      sentences.push(sentence);
+      // A heading that names the topic before a paragraph about it is expected
+      if (block.type === "paragraph") paragraphSentences.push(sentence);
+    });
+  });
+
+  const keyphraseKeys = options.keyphrases
+    .map(keyphrase => tokenizeWords(keyphrase).map(options.normalize).join(" "))
+    .filter(Boolean);
+
+  const flags = [
+    ...findAdjacentRepetition(paragraphSentences, keyphraseKeys, options.stopWords),
+    ...findKeywordLists(paragraphSentences, options.language),
+    // Plain text parses short standalone lines as headings, which is exactly what this looks for
+    ...findRepeatedAnchors(document, document.format === "text" ? sentences : paragraphSentences, options, keyphraseKeys),
+    ...findDensityOutliers(sentences, options),
+  ];
+
+  const risk = flags.some(flag => flag.severity === "critical") ? "high" : flags.length > 0 ? "moderate" : "low";
+  return { risk, flags };
+}
@@ -0,0 +1,359 @@
+import { findByTag, textContent, type HtmlElement } from "./html";
+import { parseHtmlDocument, tokenizeWords } from "./document";
+import { analyzeDocumentKeywordDensity } from "./keyword-density";
+import { META_DESCRIPTION_MAX_LENGTH, META_DESCRIPTION_MIN_LENGTH } from "./meta-description";
+import { measureText, SERP_LIMITS } from "./text-width";
+import { convertTitleCase } from "./title-case";
+import type { AuditCheck, PageAuditResponse, ScoringProfile, TitleCaseStyle } from "@shared/schema";
+
+export interface PageAuditOptions {
+  url?: string;
+  focusKeyphrase?: string;
+  titleStyle: TitleCaseStyle;
+  scoringProfile: ScoringProfile;
+}
+
+const TITLE_MIN_LENGTH = 30;
+const TITLE_MAX_LENGTH = 60;
+const MIN_WORD_COUNT = 300;
+const TOP_KEYWORDS = 5;
+const SEVERITY_WEIGHTS: Record<AuditCheck["severity"], number> = { critical: 10, warning: 5, notice: 2 };
+const OPEN_GRAPH_TAGS = ["og:title", "og:description", "og:image"];
+
+type CheckInput = Omit<AuditCheck, "value"> & { value?: string | null };
+
+function check(input: CheckInput): AuditCheck {
+  return { ...input, value: input.value ?? null };
+}
+
+function metaContent(root: HtmlElement, key: string): string | null {
+  const meta = findByTag(root, "meta").find(element =>
+    (element.attrs.name ?? element.attrs.property ?? "").toLowerCase() === key);
+  return meta ? (meta.attrs.content ?? "").trim() : null;
+}
+
+function hostOf(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+function classifyLinks(root: HtmlElement, siteHost: string | null): { internal: number; external: number } {
+  let internal = 0;
+  let external = 0;
+  for (const anchor of findByTag(root, "a")) {
+    const href = (anchor.attrs.href ?? "").trim();
+    if (!href || href.startsWith("#") || /^(mailto|tel|javascript):/i.test(href)) continue;
+    if (!/^([a-z]+:)?\/\//i.test(href)) {
+      internal++;
+      continue;
+    }
+    const host = hostOf(href.startsWith("//") ? `https:${href}` : href);
+    if (siteHost && host === siteHost) internal++;
+    else external++;
+  }
+  return { internal, external };
+}
+
+function headingChecks(headings: HtmlElement[]): AuditCheck[] {
+  const levels = headings.map(heading => Number(heading.tag[1]));
+  const h1Count = levels.filter(level => level === 1).length;
+
+  const skipped: string[] = [];
+  levels.forEach((level, i) => {
+    if (i > 0 && level > levels[i - 1] + 1) skipped.push(`H${levels[i - 1]} → H${level}`);
+  });
+
+  return [
+    check({
+      id: "h1-single",
+      category: "headings",
+      label: "Exactly one H1",
+      passed: h1Count === 1,
+      severity: "critical",
+      message: h1Count === 1 ? "The page has a single H1."
+        : h1Count === 0 ? "The page has no H1 heading."
+        : `The page has ${h1Count} H1 headings; keep one as the main topic.`,
+      value: String(h1Count),
+    }),
+    check({
+      id: "heading-hierarchy",
+      category: "headings",
+      label: "Heading hierarchy",
+      passed: skipped.length === 0 && (levels.length === 0 || levels[0] === 1),
+      severity: "warning",
+      message: skipped.length > 0 ? `Heading levels are skipped: ${skipped.join(", ")}.`
+        : levels.length > 0 && levels[0] !== 1 ? `The first heading is an H${levels[0]}, not the H1.`
+        : "Headings nest without skipping levels.",
+    }),
+  ];
+}
+
+function titleChecks(title: string | null, style: TitleCaseStyle): AuditCheck[] {
+  if (!title) {
+    return [check({ id: "title-present", category: "title", label: "Title tag", passed: false, severity: "critical", message: "The page has no <title> tag." })];
+  }
+
+  const limit = SERP_LIMITS.desktop.title;
+  const width = Math.round(measureText(title, limit.font, limit.fontSize));
+  const cased = convertTitleCase(title, style).converted;
+  const sentenceCased = convertTitleCase(title, "sentence").converted;
+
+  return [
+    check({ id: "title-present", category: "title", label: "Title tag", passed: true, severity: "critical", message: "The page has a title.", value: title }),
+    check({
+      id: "title-length",
+      category: "title",
+      label: "Title length",
+      passed: title.length >= TITLE_MIN_LENGTH && title.length <= TITLE_MAX_LENGTH,
+      severity: "warning",
+      message: title.length < TITLE_MIN_LENGTH ? `At ${title.length} characters the title is short; aim for ${TITLE_MIN_LENGTH}-${TITLE_MAX_LENGTH}.`
+        : title.length > TITLE_MAX_LENGTH ? `At ${title.length} characters the title is long; aim for ${TITLE_MIN_LENGTH}-${TITLE_MAX_LENGTH}.`
+        : `${title.length} characters.`,
+      value: `${title.length} chars`,
+    }),
+    check({
+      id: "title-width",
+      category: "title",
+      label: "Title pixel width",
+      passed: width <= limit.maxWidth,
+      severity: "warning",
+      message: width <= limit.maxWidth ? "The title fits in a desktop search result."
+        : `The title is ${width}px wide and will be cut off after ${limit.maxWidth}px.`,
+      value: `${width}px / ${limit.maxWidth}px`,
+    }),
+    // Sentence case is a legitimate house style, so either passes
+    check({
+      id: "title-case",
+      category: "title",
+      label: "Consistent title casing",
+      passed: title === cased || title === sentenceCased,
+      severity: "notice",
+      message: title === cased || title === sentenceCased ? "The title uses consistent casing."
+        : `The casing is inconsistent; suggested: "${cased}".`,
+    }),
+  ];
+}
+
+function metaDescriptionChecks(description: string | null): AuditCheck[] {
+  if (!description) {
+    return [check({ id: "meta-description-present", category: "meta", label: "Meta description", passed: false, severity: "critical", message: "The page has no meta description." })];
+  }
+  const length = description.length;
+  return [
+    check({ id: "meta-description-present", category: "meta", label: "Meta description", passed: true, severity: "critical", message: "The page has a meta description.", value: description }),
+    check({
+      id: "meta-description-length",
+      category: "meta",
+      label: "Meta description length",
+      passed: length >= META_DESCRIPTION_MIN_LENGTH && length <= META_DESCRIPTION_MAX_LENGTH,
+      severity: "warning",
+      message: length < META_DESCRIPTION_MIN_LENGTH ? `At ${length} characters the description is short; aim for ${META_DESCRIPTION_MIN_LENGTH}-${META_DESCRIPTION_MAX_LENGTH}.`
+        : length > META_DESCRIPTION_MAX_LENGTH ? `At ${length} characters the description will be truncated; aim for ${META_DESCRIPTION_MIN_LENGTH}-${META_DESCRIPTION_MAX_LENGTH}.`
+        : `${length} characters.`,
+      value: `${length} chars`,
+    }),
+  ];
+}
+
+function containsPhrase(text: string | null, phrase: string): boolean {
+  if (!text) return false;
+  return ` ${tokenizeWords(text).join(" ")} `.includes(` ${tokenizeWords(phrase).join(" ")} `);
+}
+
+export function auditPage(html: string, options: PageAuditOptions): PageAuditResponse {
+  const document = parseHtmlDocument(html);
+  const root = document.root!;
+  const title = document.title;
+  const description = metaContent(root, "description");
+  const headings = findByTag(root, "h1", "h2", "h3", "h4", "h5", "h6");
+  const images = findByTag(root, "img");
+  // An empty alt marks a decorative image, which is fine; a missing one isn't
+  const imagesWithAlt = images.filter(image => image.attrs.alt !== undefined).length;
+  const canonical = findByTag(root, "link").find(link => (link.attrs.rel ?? "").toLowerCase().split(/\s+/).includes("canonical"));
+  const canonicalHref = canonical?.attrs.href?.trim() || null;
+  const robots = metaContent(root, "robots");
+  const viewport = metaContent(root, "viewport");
+  const lang = findByTag(root, "html")[0]?.attrs.lang?.trim() || null;
+  const links = classifyLinks(root, hostOf(options.url) ?? hostOf(canonicalHref ?? undefined));
+  const missingOpenGraph = OPEN_GRAPH_TAGS.filter(tag => !metaContent(root, tag));
+  const twitterCard = metaContent(root, "twitter:card");
+
+  const focusKeyphrase = options.focusKeyphrase?.trim();
+  const density = analyzeDocumentKeywordDensity(document, {
+    ngramSizes: [1],
+    language: "en",
+    removeStopWords: true,
+    customStopWords: [],
+    normalization: "none",
+    focusKeyphrase,
+    secondaryKeyphrases: [],
+    scoringProfile: options.scoringProfile,
+  });
+  // Every word counts here; the density total skips words of one or two letters
+  const words = document.blocks.reduce((sum, block) => sum + tokenizeWords(block.text).length, 0);
+
+  const checks: AuditCheck[] = [
+    ...titleChecks(title, options.titleStyle),
+    ...metaDescriptionChecks(description),
+    ...headingChecks(headings),
+    check({
+      id: "image-alt",
+      category: "images",
+      label: "Image alt text",
+      passed: imagesWithAlt === images.length,
+      severity: "warning",
+      message: images.length === 0 ? "The page has no images."
+        : imagesWithAlt === images.length ? "Every image has an alt attribute."
+        : `${images.length - imagesWithAlt} of ${images.length} images are missing an alt attribute.`,
+      value: `${imagesWithAlt}/${images.length}`,
+    }),
+    check({
+      id: "canonical",
+      category: "indexing",
+      label: "Canonical URL",
+      passed: canonicalHref !== null,
+      severity: "warning",
+      message: canonicalHref ? "A canonical URL is declared." : "No <link rel=\"canonical\"> tag was found.",
+      value: canonicalHref,
+    }),
+    check({
+      id: "meta-robots",
+      category: "indexing",
+      label: "Indexable by search engines",
+      passed: !/noindex|none/i.test(robots ?? ""),
+      severity: "critical",
+      message: /noindex|none/i.test(robots ?? "") ? "The robots meta tag blocks this page from being indexed."
+        : robots ? "The robots meta tag allows indexing." : "No robots meta tag; the page is indexable by default.",
+      value: robots,
+    }),
+    check({
+      id: "open-graph",
+      category: "social",
+      label: "Open Graph tags",
+      passed: missingOpenGraph.length === 0,
+      severity: "notice",
+      message: missingOpenGraph.length === 0 ? "Title, description and image are set for social sharing."
+        : `Missing ${missingOpenGraph.join(", ")}.`,
+    }),
+    check({
+      id: "twitter-card",
+      category: "social",
+      label: "Twitter card",
+      passed: twitterCard !== null,
+      severity: "notice",
+      message: twitterCard ? `Uses a "${twitterCard}" card.` : "No twitter:card meta tag was found.",
+      value: twitterCard,
+    }),
+    check({
+      id: "lang",
+      category: "technical",
+      label: "Language attribute",
+      passed: lang !== null,
+      severity: "warning",
+      message: lang ? `The page declares lang="${lang}".` : "The <html> element has no lang attribute.",
+      value: lang,
+    }),
+    check({
+      id: "viewport",
+      category: "technical",
+      label: "Mobile viewport",
+      passed: /width\s*=\s*device-width/i.test(viewport ?? ""),
+      severity: "critical",
+      message: /width\s*=\s*device-width/i.test(viewport ?? "") ? "The page sets a responsive viewport."
+        : "No responsive viewport meta tag; the page won't scale on mobile.",
+      value: viewport,
+    }),
+    check({
+      id: "internal-links",
+      category: "links",
+      label: "Internal links",
+      passed: links.internal > 0,
+      severity: "warning",
+      message: links.internal > 0 ? `${links.internal} internal link${links.internal === 1 ? "" : "s"}.` : "The page doesn't link to any other page on the site.",
+      value: String(links.internal),
+    }),
+    check({
+      id: "external-links",
+      category: "links",
+      label: "External links",
+      passed: links.external > 0,
+      severity: "notice",
+      message: links.external > 0 ? `${links.external} external link${links.external === 1 ? "" : "s"}.` : "The page cites no external sources.",
+      value: String(links.external),
+    }),
+    check({
+      id: "word-count",
+      category: "content",
+      label: "Word count",
+      passed: words >= MIN_WORD_COUNT,
+      severity: "warning",
+      message: words >= MIN_WORD_COUNT ? `${words} words of content.` : `Only ${words} words; pages under ${MIN_WORD_COUNT} words rarely rank.`,
+      value: String(words),
+    }),
+  ];
+
+  if (focusKeyphrase) {
+    const h1 = headings.find(heading => heading.tag === "h1");
+    const target = density.targets[0];
+    const statusTone = options.scoringProfile.statuses.find(status => status.id === target.status)?.tone;
+    checks.push(
+      check({
+        id: "keyphrase-title",
+        category: "keyphrase",
+        label: "Keyphrase in title",
+        passed: containsPhrase(title, focusKeyphrase),
+        severity: "warning",
+        message: containsPhrase(title, focusKeyphrase) ? "The title contains the focus keyphrase." : "The title doesn't contain the focus keyphrase.",
+      }),
+      check({
+        id: "keyphrase-description",
+        category: "keyphrase",
+        label: "Keyphrase in meta description",
+        passed: containsPhrase(description, focusKeyphrase),
+        severity: "notice",
+        message: containsPhrase(description, focusKeyphrase) ? "The meta description contains the focus keyphrase." : "The meta description doesn't contain the focus keyphrase.",
+      }),
+      check({
+        id: "keyphrase-h1",
+        category: "keyphrase",
+        label: "Keyphrase in H1",
+        passed: h1 !== undefined && containsPhrase(textContent(h1), focusKeyphrase),
+        severity: "warning",
+        message: h1 !== undefined && containsPhrase(textContent(h1), focusKeyphrase) ? "The H1 contains the focus keyphrase." : "The H1 doesn't contain the focus keyphrase.",
+      }),
+      check({
+        id: "keyphrase-density",
+        category: "keyphrase",
+        label: "Keyphrase density",
+        passed: statusTone === "positive",
+        severity: "warning",
+        message: `${target.exactMatches + target.partialMatches} mentions (${(target.exactDensity + target.partialDensity).toFixed(2)}%) rated "${target.status}" by the ${options.scoringProfile.name} profile.`,
+        value: target.status,
+      }),
+    );
+  }
+
+  const total = checks.reduce((sum, item) => sum + SEVERITY_WEIGHTS[item.severity], 0);
+  const earned = checks.filter(item => item.passed).reduce((sum, item) => sum + SEVERITY_WEIGHTS[item.severity], 0);
+
+  return {
+    score: Math.round((earned / total) * 100),
+    title,
+    metaDescription: description,
+    stats: {
+      words,
+      headings: headings.length,
+      images: images.length,
+      imagesWithAlt,
+      internalLinks: links.internal,
+      externalLinks: links.external,
+    },
+    checks,
+    topKeywords: density.keywords.slice(0, TOP_KEYWORDS),
+    statuses: options.scoringProfile.statuses,
+  };
+}
@@ -0,0 +1,256 @@
+import { parseContent } from "./document";
+import type { ContentFormat, ReadabilityIndex, ReadabilityResponse, ReadabilitySentence } from "@shared/schema";
+
+// Syllable counting is tuned for English, like the indices themselves
+const WORD_PATTERN = /[A-Za-z\u00C0-\u024F]+(?:['’-][A-Za-z\u00C0-\u024F]+)*/g;
+
+// Words the vowel-group heuristic gets wrong
+const SYLLABLE_EXCEPTIONS: Record<string, number> = {
+  every: 2, everything: 3, everyone: 3, business: 2, businesses: 3, different: 3, interest: 3, interesting: 4,
+  family: 3, evening: 2, chocolate: 3, camera: 3, several: 3, area: 3, idea: 3, real: 1, really: 2,
+  create: 2, created: 3, creates: 2, people: 2, poem: 2, quiet: 2, science: 2, being: 2, doing: 2, going: 2,
+  seo: 3, ai: 2, api: 3, via: 2, naive: 2, recipe: 3, simile: 3, apostrophe: 4, whole: 1, somewhere: 2,
+};
+
+const TRANSITION_PHRASES = [
+  "accordingly", "additionally", "afterward", "also", "although", "besides", "consequently", "conversely",
+  "finally", "first", "firstly", "furthermore", "hence", "however", "indeed", "instead", "likewise",
+  "meanwhile", "moreover", "nevertheless", "next", "nonetheless", "otherwise", "overall", "second", "secondly",
+  "similarly", "specifically", "subsequently", "then", "therefore", "thus", "ultimately", "whereas",
+  "above all", "after all", "as a result", "as well as", "at the same time", "because of", "by contrast",
+  "for example", "for instance", "for this reason", "in addition", "in conclusion", "in contrast", "in fact",
+  "in other words", "in short", "in summary", "on the other hand", "to begin with", "to sum up", "that is why",
+  "even though", "as long as", "so that", "in the meantime", "in particular", "of course", "to illustrate",
+];
+
+const BE_VERBS = new Set(["am", "is", "are", "was", "were", "be", "been", "being", "get", "gets", "got", "gotten"]);
+
+const IRREGULAR_PARTICIPLES = new Set([
+  "arisen", "awoken", "beaten", "become", "begun", "bent", "bitten", "blown", "born", "borne", "bought", "bound",
+  "broken", "brought", "built", "burnt", "caught", "chosen", "come", "cut", "dealt", "done", "drawn", "driven",
+  "drunk", "eaten", "fallen", "fed", "felt", "fought", "found", "forbidden", "forgotten", "forgiven", "frozen",
+  "given", "gone", "grown", "heard", "held", "hidden", "hit", "hung", "hurt", "kept", "known", "laid", "led",
+  "left", "lent", "lost", "made", "meant", "met", "paid", "put", "read", "ridden", "run", "said", "seen", "sent",
+  "set", "shaken", "shown", "shut", "sold", "sought", "spent", "spoken", "spread", "stolen", "struck", "sung",
+  "sunk", "swept", "taken", "taught", "thrown", "told", "thought", "understood", "upset", "woken", "won", "worn",
+  "written",
+]);
+
+// Per-sentence grade and length that mark a sentence as hard to read
+const HARD_SENTENCE = { words: 20, grade: 10 };
+const VERY_HARD_SENTENCE = { words: 30, grade: 14 };
+const LONG_PARAGRAPH_WORDS = 150;
+const WORDS_PER_MINUTE = 238;
+
+const SENTENCE_BUCKETS: Array<{ label: string; min: number; max: number | null }> = [
+  { label: "1-10 words", min: 1, max: 10 },
+  { label: "11-20 words", min: 11, max: 20 },
+  { label: "21-30 words", min: 21, max: 30 },
+  { label: "31+ words", min: 31, max: null },
+];
+
+export function countSyllables(word: string): number {
+  let clean = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!clean) return 0;
+  if (Object.hasOwn(SYLLABLE_EXCEPTIONS, clean)) return SYLLABLE_EXCEPTIONS[clean];
+  if (clean.length <= 3) return 1;
+
+  // Silent endings: "make", "hoped", "boxes" (but not "wanted")
+  clean = clean.replace(/(?:[^laeiouytd]es|[^laeiouytd]ed|e)$/, match => (match === "e" ? "" : match[0]));
+  clean = clean.replace(/^y/, "");
+  const groups = clean.match(/[aeiouy]+/g);
+  let count = groups ? groups.length : 1;
+  // "-le" after a consonant is its own syllable ("table"), and "-ia"/"-io" split
+  // ("radio") except in endings like "-tion" and "-cial"
+  if (/[^aeiouy]le$/.test(word.toLowerCase())) count++;
+  count += (clean.match(/[^aeioutsc]i[ao]/g) || []).length;
+  return Math.max(1, count);
+}
+
+function extractWords(text: string): string[] {
+  return text.match(WORD_PATTERN) || [];
+}
+
+function isTransitionSentence(lower: string): boolean {
+  const padded = ` ${lower.replace(/[^a-z\s]/g, " ").replace(/\s+/g, " ")} `;
+  return TRANSITION_PHRASES.some(phrase => padded.includes(` ${phrase} `));
+}
+
+// A form of "to be" or "to get", optionally an adverb, then a past participle
+function isPassiveSentence(words: string[]): boolean {
+  const lower = words.map(word => word.toLowerCase());
+  return lower.some((word, i) => {
+    if (!BE_VERBS.has(word)) return false;
+    const next = lower[i + 1]?.endsWith("ly") ? lower[i + 2] : lower[i + 1];
+    if (!next) return false;
+    return IRREGULAR_PARTICIPLES.has(next) || (next.length > 3 && next.endsWith("ed"));
+  });
+}
+
+// Three or more syllables, not counting names or hyphenated compounds
+function isComplexWord(word: string, position: number): boolean {
+  if (word.includes("-")) return false;
+  if (position > 0 && /^[A-Z]/.test(word)) return false;
+  return countSyllables(word) >= 3;
+}
+
+function fleschKincaidGrade(words: number, sentences: number, syllables: number): number {
+  return 0.39 * (words / sentences) + 11.8 * (syllables / words) - 15.59;
+}
+
+function gradeLabel(grade: number): string {
+  if (grade < 1) return "Kindergarten";
+  if (grade >= 17) return "Graduate";
+  if (grade >= 13) return "College";
+  return `Grade ${Math.round(grade)}`;
+}
+
+function fleschLabel(score: number): string {
+  if (score >= 90) return "Very easy";
+  if (score >= 80) return "Easy";
+  if (score >= 70) return "Fairly easy";
+  if (score >= 60) return "Plain English";
+  if (score >= 50) return "Fairly difficult";
+  if (score >= 30) return "Difficult";
+  return "Very difficult";
+}
+
+function round(value: number, digits = 1): number {
+  return Number(value.toFixed(digits));
+}
+
+function ratioStatus(percent: number, good: (value: number) => boolean, acceptable: (value: number) => boolean) {
+  if (good(percent)) return "good" as const;
+  if (acceptable(percent)) return "needs-improvement" as const;
+  return "poor" as const;
+}
+
+export function analyzeReadability(content: string, format: ContentFormat): ReadabilityResponse {
+  const document = parseContent(content, format);
+
+  let totalWords = 0;
+  let totalSentences = 0;
+  let totalSyllables = 0;
+  let totalLetters = 0;
+  let polysyllables = 0;
+  let complexWords = 0;
+  let passiveCount = 0;
+  let transitionCount = 0;
+  const sentenceLengths: number[] = [];
+  const paragraphWarnings: ReadabilityResponse["paragraphWarnings"] = [];
+
+  const paragraphs = document.blocks.map((block, blockIndex) => {
+    const sentences: ReadabilitySentence[] = block.sentences.map(text => {
+      const words = extractWords(text);
+      const syllables = words.map(countSyllables);
+      const syllableCount = syllables.reduce((sum, count) => sum + count, 0);
+      const passive = isPassiveSentence(words);
+      const transition = isTransitionSentence(text.toLowerCase());
+      const grade = words.length > 0 ? fleschKincaidGrade(words.length, 1, syllableCount) : 0;
+
+      // Headings are shown but left out of the scores
+      if (block.type === "paragraph" && words.length > 0) {
+        totalWords += words.length;
+        totalSentences++;
+        totalSyllables += syllableCount;
+        totalLetters += words.join("").replace(/[^A-Za-z\u00C0-\u024F]/g, "").length;
+        polysyllables += syllables.filter(count => count >= 3).length;
+        complexWords += words.filter((word, i) => isComplexWord(word, i)).length;
+        sentenceLengths.push(words.length);
+        if (passive) passiveCount++;
+        if (transition) transitionCount++;
+      }
+
+      let difficulty: ReadabilitySentence["difficulty"] = "ok";
+      if (block.type === "paragraph") {
+        if (words.length > VERY_HARD_SENTENCE.words || grade >= VERY_HARD_SENTENCE.grade) difficulty = "very-hard";
+        else if (words.length > HARD_SENTENCE.words || grade >= HARD_SENTENCE.grade) difficulty = "hard";
+      }
+
+      return { text, words: words.length, grade: round(Math.max(0, grade)), difficulty, passive, transition };
+    });
+
+    const paragraphWords = sentences.reduce((sum, sentence) => sum + sentence.words, 0);
+    if (block.type === "paragraph" && paragraphWords > LONG_PARAGRAPH_WORDS) {
+      paragraphWarnings.push({
+        index: blockIndex,
+        words: paragraphWords,
+        excerpt: block.text.split(/\s+/).slice(0, 12).join(" ") + "…",
+        message: `This paragraph has ${paragraphWords} words; try to keep paragraphs under ${LONG_PARAGRAPH_WORDS}.`,
+      });
+    }
+
+    return { type: block.type, sentences };
+  });
+
+  const words = Math.max(totalWords, 1);
+  const sentences = Math.max(totalSentences, 1);
+  const fleschScore = 206.835 - 1.015 * (words / sentences) - 84.6 * (totalSyllables / words);
+  const fkGrade = fleschKincaidGrade(words, sentences, totalSyllables);
+  const fog = 0.4 * (words / sentences + 100 * (complexWords / words));
+  const smog = 1.043 * Math.sqrt(polysyllables * (30 / sentences)) + 3.1291;
+  const colemanLiau = 0.0588 * ((totalLetters / words) * 100) - 0.296 * ((sentences / words) * 100) - 15.8;
+
+  const gradeIndex = (id: ReadabilityIndex["id"], name: string, grade: number, note?: string): ReadabilityIndex => ({
+    id,
+    name,
+    score: round(Math.max(0, grade)),
+    gradeLevel: round(Math.max(0, grade)),
+    label: gradeLabel(grade),
+    note: note ?? null,
+  });
+
+  const indices: ReadabilityIndex[] = [
+    {
+      id: "flesch-reading-ease",
+      name: "Flesch Reading Ease",
+      score: round(Math.min(100, Math.max(0, fleschScore))),
+      gradeLevel: null,
+      label: fleschLabel(fleschScore),
+      note: null,
+    },
+    gradeIndex("flesch-kincaid", "Flesch-Kincaid Grade", fkGrade),
+    gradeIndex("gunning-fog", "Gunning Fog", fog),
+    // SMOG was calibrated on 30-sentence samples
+    gradeIndex("smog", "SMOG", smog, totalSentences < 30 ? "Less reliable below 30 sentences" : undefined),
+    gradeIndex("coleman-liau", "Coleman-Liau", colemanLiau),
+  ];
+
+  const passivePercent = round((passiveCount / sentences) * 100);
+  const transitionPercent = round((transitionCount / sentences) * 100);
+
+  return {
+    format: document.format,
+    stats: {
+      words: totalWords,
+      sentences: totalSentences,
+      paragraphs: document.blocks.filter(block => block.type === "paragraph").length,
+      syllables: totalSyllables,
+      complexWords,
+      avgWordsPerSentence: round(totalWords / sentences),
+      avgSyllablesPerWord: round(totalSyllables / words, 2),
+      readingTime: Math.max(1, Math.ceil(totalWords / WORDS_PER_MINUTE)),
+    },
+    indices,
+    sentenceLengths: {
+      average: round(totalWords / sentences),
+      longest: sentenceLengths.reduce((longest, length) => Math.max(longest, length), 0),
+      buckets: SENTENCE_BUCKETS.map(bucket => {
+        const count = sentenceLengths.filter(length => length >= bucket.min && (bucket.max === null || length <= bucket.max)).length;
+        return { ...bucket, count, percent: round((count / sentences) * 100) };
+      }),
+    },
+    passiveVoice: {
+      count: passiveCount,
+      percent: passivePercent,
+      status: ratioStatus(passivePercent, value => value <= 10, value => value <= 20),
+    },
+    transitionWords: {
+      count: transitionCount,
+      percent: transitionPercent,
+      status: ratioStatus(transitionPercent, value => value >= 30, value => value >= 20),
+    },
+    paragraphWarnings,
+    paragraphs,
+  };
+}
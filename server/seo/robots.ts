@@ -0,0 +1,383 @@
+import type {
+  RobotsGenerateRequest,
+  RobotsGroup,
+  RobotsIssue,
+  RobotsParseResponse,
+  RobotsRule,
+  RobotsTestResponse,
+  RobotsUrlResult,
+} from "@shared/schema";
+import { editDistance } from "./edit-distance";
+
+// robots.txt parsing and URL matching following RFC 9309. A crawler obeys
+// every group naming its product token, or else every "*" group, and the
+// longest matching rule decides, with Allow winning ties.
+
+const DIRECTIVE_NAMES: Record<string, string> = {
+  "user-agent": "User-agent",
+  allow: "Allow",
+  disallow: "Disallow",
+  sitemap: "Sitemap",
+  "crawl-delay": "Crawl-delay",
+};
+// Honoured by a few crawlers at most; Google and RFC 9309 ignore them
+const UNSUPPORTED_DIRECTIVES = ["noindex", "nofollow", "host", "clean-param", "request-rate", "visit-time"];
+// Crawlers only have to read this much of the file
+const MAX_BYTES = 500 * 1024;
+// Base for resolving tested paths; only the path and query are matched
+const BASE_URL = "http://robots.invalid";
+// Characters compared when looking for rules that never apply, after which the
+// check gives up; files with thousands of wildcard rules would take seconds
+const MAX_COVER_STEPS = 20_000_000;
+
+function error(issues: RobotsIssue[], line: number | null, message: string) {
+  issues.push({ severity: "error", line, message });
+}
+
+function warning(issues: RobotsIssue[], line: number | null, message: string) {
+  issues.push({ severity: "warning", line, message });
+}
+
+function suggestDirective(key: string): string | undefined {
+  if (key.length < 4) return undefined;
+  const [best] = Object.keys(DIRECTIVE_NAMES)
+    .map(name => ({ name, distance: editDistance(key.replace(/[\s_]/g, "-"), name) }))
+    .filter(candidate => candidate.distance <= 2)
+    .sort((a, b) => a.distance - b.distance);
+  return best ? DIRECTIVE_NAMES[best.name] : undefined;
+}
+
+// The letters, "_" and "-" a user-agent starts with, lowercased:
+// "Googlebot/2.1" names the same crawler as "googlebot"
+function productToken(value: string): string {
+  return (value.trim().match(/^[A-Za-z_-]+/)?.[0] ?? "").toLowerCase();
+}
+
+// Uppercases percent escapes and escapes anything outside printable ASCII,
+// so "/a b" and "/a%20b" compare equal. Unpaired surrogates become U+FFFD.
+function normalizePath(path: string): string {
+  return path
+    .toWellFormed()
+    .replace(/%[0-9a-fA-F]{2}/g, escape => escape.toUpperCase())
+    .replace(/[^\x21-\x7e]+/g, text => encodeURIComponent(text));
+}
+
+function formatRule(rule: RobotsRule): string {
+  return `${rule.type === "allow" ? "Allow" : "Disallow"}: ${rule.path}`;
+}
+
+export function parseRobots(content: string): RobotsParseResponse {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  const issues: RobotsIssue[] = [];
+  let current: RobotsGroup | null = null;
+  // Consecutive user-agent lines share a group; one after a rule starts the next
+  let collectingAgents = false;
+
+  if (Buffer.byteLength(content, "utf8") > MAX_BYTES) {
+    warning(issues, null, "The file is over 500 KiB; crawlers may ignore rules past that point");
+  }
+
+  content.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const text = raw.replace(/#.*$/, "").trim();
+    if (!text) return;
+
+    const separator = text.indexOf(":");
+    if (separator < 0) {
+      error(issues, line, `Missing ":" after the directive in "${text}"`);
+      return;
+    }
+    const name = text.slice(0, separator).trim();
+    const key = name.toLowerCase();
+    const value = text.slice(separator + 1).trim();
+
+    switch (key) {
+      case "user-agent": {
+        if (!value) {
+          error(issues, line, "Empty User-agent");
+          return;
+        }
+        if (!collectingAgents || !current) {
+          current = { userAgents: [], rules: [], crawlDelay: null, line };
+          groups.push(current);
+          collectingAgents = true;
+        }
+        current.userAgents.push(value);
+        if (value !== "*" && !productToken(value)) {
+          warning(issues, line, `"${value}" doesn't start with a product token, so no crawler will match it`);
+        } else if (value !== "*" && productToken(value).length < value.length) {
+          warning(issues, line, `Only "${value.match(/^[A-Za-z_-]+/)![0]}" is matched; the rest of "${value}" is ignored`);
+        }
+        return;
+      }
+      case "allow":
+      case "disallow": {
+        collectingAgents = false;
+        if (!current) {
+          error(issues, line, `${DIRECTIVE_NAMES[key]} before any User-agent line is ignored`);
+          return;
+        }
+        current.rules.push({ type: key as RobotsRule["type"], path: value, line });
+        if (!value && key === "allow") {
+          warning(issues, line, "An empty Allow matches nothing");
+        } else if (value && !/^[/*]/.test(value)) {
+          warning(issues, line, `Paths should start with / or *; "${value}" may not match anything`);
+        }
+        if (!value.isWellFormed()) {
+          warning(issues, line, "The path has broken Unicode characters; they are matched as U+FFFD");
+        }
+        if (value.indexOf("$") >= 0 && value.indexOf("$") < value.length - 1) {
+          warning(issues, line, "$ only anchors the end of a path as its last character; elsewhere it matches a literal $");
+        }
+        return;
+      }
+      case "sitemap": {
+        try {
+          new URL(value);
+          sitemaps.push(value);
+        } catch {
+          error(issues, line, `Sitemap must be a full URL, e.g. https://example.com/sitemap.xml`);
+        }
+        return;
+      }
+      case "crawl-delay": {
+        collectingAgents = false;
+        if (!current) {
+          warning(issues, line, "Crawl-delay before any User-agent line is ignored");
+        } else if (!/^\d+(\.\d+)?$/.test(value)) {
+          error(issues, line, `Crawl-delay must be a number of seconds, not "${value}"`);
+        } else {
+          current.crawlDelay = Number(value);
+        }
+        return;
+      }
+    }
+
+    if (UNSUPPORTED_DIRECTIVES.includes(key)) {
+      warning(issues, line, `${name} isn't part of the robots.txt standard; most crawlers ignore it`);
+      return;
+    }
+    const suggestion = suggestDirective(key);
+    if (suggestion) {
+      error(issues, line, `Unknown directive "${name}"; did you mean ${suggestion}?`);
+    } else {
+      warning(issues, line, `Unknown directive "${name}" is ignored`);
+    }
+  });
+
+  for (const group of groups) {
+    const named = group.userAgents.filter(agent => agent !== "*");
+    if (group.rules.length === 0 && named.length > 0) {
+      warning(issues, group.line, `No rules for ${named.join(", ")}; these crawlers may crawl everything and skip the * group`);
+    } else if (group.rules.length === 0) {
+      warning(issues, group.line, "No rules follow this User-agent line");
+    }
+  }
+  issues.push(...unreachableRuleIssues(groups));
+  issues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  return { groups, sitemaps, issues };
+}
+
+// Indexes of the groups a crawler obeys: every group naming its product
+// token, else every "*" group. None means everything is allowed.
+function matchingGroups(groups: RobotsGroup[], userAgent: string): number[] {
+  const token = productToken(userAgent);
+  const indexes = (test: (agent: string) => boolean) =>
+    groups.flatMap((group, index) => (group.userAgents.some(test) ? [index] : []));
+  const named = token ? indexes(agent => productToken(agent) === token) : [];
+  return named.length > 0 ? named : indexes(agent => agent === "*");
+}
+
+// Follows every position in the path the pattern could have reached so far,
+// which avoids the backtracking a regular expression would do on many "*"s
+function patternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const end = anchored ? pattern.length - 1 : pattern.length;
+  let positions = [0];
+  for (let i = 0; i < end && positions.length > 0; i++) {
+    if (pattern[i] === "*") {
+      positions = Array.from({ length: path.length - positions[0] + 1 }, (_, offset) => positions[0] + offset);
+    } else {
+      positions = positions.filter(position => path[position] === pattern[i]).map(position => position + 1);
+    }
+  }
+  return anchored ? positions.includes(path.length) : positions.length > 0;
+}
+
+// A rule with its path normalized once, so comparing it with many paths or
+// rules doesn't normalize it again each time
+interface RulePattern {
+  rule: RobotsRule;
+  path: string;
+  // "$" dropped from an anchored path, else "*" added to match any ending
+  glob: string;
+  // The glob up to its first "*"; every path it matches starts with this
+  literal: string;
+  // The runs of characters between "*"s
+  chunks: string[];
+}
+
+function rulePattern(rule: RobotsRule): RulePattern {
+  const path = normalizePath(rule.path);
+  const glob = path.endsWith("$") ? path.slice(0, -1) : `${path}*`;
+  const wildcard = glob.indexOf("*");
+  return { rule, path, glob, literal: wildcard < 0 ? glob : glob.slice(0, wildcard), chunks: glob.split("*").filter(Boolean) };
+}
+
+// Longer patterns are more specific; Allow wins between equally long ones
+function outranks(pattern: RulePattern, other: RulePattern): boolean {
+  const length = pattern.path.length;
+  const otherLength = other.path.length;
+  return length > otherLength || (length === otherLength && pattern.rule.type === "allow" && other.rule.type === "disallow");
+}
+
+function decidingRule(patterns: RulePattern[], path: string): RobotsRule | null {
+  let best: RulePattern | null = null;
+  for (const pattern of patterns) {
+    if (!patternMatches(pattern.path, path)) continue;
+    if (!best || outranks(pattern, best)) best = pattern;
+  }
+  return best?.rule ?? null;
+}
+
+function urlPath(url: string): string {
+  try {
+    const parsed = new URL(url, BASE_URL);
+    return normalizePath(parsed.pathname + parsed.search);
+  } catch {
+    return normalizePath(url.startsWith("/") ? url : `/${url}`);
+  }
+}
+
+export function testRobots(content: string, userAgent: string, urls: string[]): RobotsTestResponse {
+  const parsed = parseRobots(content);
+  const groupIndexes = matchingGroups(parsed.groups, userAgent);
+  // An empty rule matches nothing, so "Disallow:" allows everything
+  const patterns = groupIndexes.flatMap(index => parsed.groups[index].rules).filter(rule => rule.path).map(rulePattern);
+
+  const results: RobotsUrlResult[] = urls.map(url => {
+    const path = urlPath(url);
+    // robots.txt itself is always allowed
+    const rule = path === "/robots.txt" ? null : decidingRule(patterns, path);
+    return { url, path, allowed: !rule || rule.type === "allow", rule };
+  });
+
+  return { ...parsed, userAgent, groupIndexes, results };
+}
+
+// Whether `general` matches every path `specific` matches. A "*" in the
+// specific pattern can only be matched by a "*" in the general one, which
+// is exact for the patterns robots.txt files use. The comparison is charged
+// to the budget.
+function covers(general: RulePattern, specific: RulePattern, budget: { steps: number }): boolean {
+  const target = specific.glob;
+  budget.steps -= general.chunks.length;
+  // Each run of characters in the general pattern has to match a run in the specific one
+  if (!general.chunks.every(chunk => target.includes(chunk))) return false;
+  budget.steps -= general.glob.length * target.length;
+  // reachable[j]: the general pattern read so far can match the first j characters of the specific one
+  let reachable = new Uint8Array(target.length + 1);
+  let next = new Uint8Array(target.length + 1);
+  reachable[0] = 1;
+  for (const char of general.glob) {
+    if (char === "*") {
+      const first = reachable.indexOf(1);
+      if (first < 0) return false;
+      reachable.fill(1, first);
+    } else {
+      next[0] = 0;
+      for (let j = 1; j <= target.length; j++) next[j] = reachable[j - 1] && target[j - 1] === char ? 1 : 0;
+      [reachable, next] = [next, reachable];
+    }
+  }
+  return reachable[target.length] === 1;
+}
+
+// Rules a crawler obeys, keyed by their literal prefix, each list in file order
+type RuleIndex = Map<string, RulePattern[]>;
+
+// The first rule in the index that matches every path `pattern` does and takes
+// precedence over it. Only rules whose literal prefix starts `pattern`'s can
+// match everything it does, so only those are compared. None are once the
+// budget runs out.
+function precedingRule(index: RuleIndex, pattern: RulePattern, budget: { steps: number }): RulePattern | undefined {
+  let winner: RulePattern | undefined;
+  for (let end = 0; end <= pattern.literal.length; end++) {
+    for (const other of index.get(pattern.literal.slice(0, end)) ?? []) {
+      if (winner && other.rule.line > winner.rule.line) break;
+      const duplicate = other.rule.type === pattern.rule.type && other.rule.path === pattern.rule.path && other.rule.line < pattern.rule.line;
+      if (other === pattern || !(outranks(other, pattern) || duplicate)) continue;
+      if (budget.steps <= 0) return undefined;
+      if (covers(other, pattern, budget)) winner = other;
+    }
+  }
+  return winner;
+}
+
+// A rule is unreachable when, for every crawler its group applies to,
+// another rule matches everything it does and outranks it
+function unreachableRuleIssues(groups: RobotsGroup[]): RobotsIssue[] {
+  const issues: RobotsIssue[] = [];
+  const patterns = new Map(groups.flatMap(group => group.rules).filter(rule => rule.path).map(rule => [rule, rulePattern(rule)]));
+  const budget = { steps: MAX_COVER_STEPS };
+  // Crawlers that obey the same groups share an index
+  const indexes = new Map<string, RuleIndex>();
+  const ruleIndex = (agent: string): RuleIndex => {
+    const groupIndexes = matchingGroups(groups, agent);
+    const key = groupIndexes.join(",");
+    let index = indexes.get(key);
+    if (!index) {
+      index = new Map();
+      for (const groupIndex of groupIndexes) {
+        for (const rule of groups[groupIndex].rules) {
+          const pattern = patterns.get(rule);
+          if (!pattern) continue;
+          const bucket = index.get(pattern.literal);
+          if (bucket) bucket.push(pattern);
+          else index.set(pattern.literal, [pattern]);
+        }
+      }
+      indexes.set(key, index);
+    }
+    return index;
+  };
+
+  for (const group of groups) {
+    // Agents without a product token apply to no crawler
+    const rulesets = group.userAgents.filter(agent => agent === "*" || productToken(agent)).map(ruleIndex);
+
+    for (const rule of group.rules) {
+      const pattern = patterns.get(rule);
+      if (!pattern) continue;
+      const winners = rulesets.map(index => precedingRule(index, pattern, budget));
+      if (budget.steps <= 0) {
+        warning(issues, rule.line, "Too many rules to finish checking for ones that never apply; rules from here on weren't checked");
+        return issues;
+      }
+      if (winners.length === 0 || winners.some(winner => !winner)) continue;
+
+      const winner = winners[0]!.rule;
+      warning(issues, rule.line, winner.type === rule.type && winner.path === rule.path
+        ? `Duplicate of line ${winner.line}`
+        : `Never applies: "${formatRule(winner)}" on line ${winner.line} matches every URL this rule does and takes precedence`);
+    }
+  }
+  return issues;
+}
+
+export function generateRobots(request: RobotsGenerateRequest): string {
+  const blocks = request.groups.map(group => {
+    const lines = group.userAgents.map(agent => `User-agent: ${agent}`);
+    // An empty Disallow says outright that everything may be crawled
+    if (group.disallow.length === 0 && group.allow.length === 0) lines.push("Disallow:");
+    lines.push(...group.disallow.map(path => `Disallow: ${path}`));
+    lines.push(...group.allow.map(path => `Allow: ${path}`));
+    if (group.crawlDelay) lines.push(`Crawl-delay: ${group.crawlDelay}`);
+    return lines.join("\n");
+  });
+  if (request.sitemaps.length > 0) {
+    blocks.push(request.sitemaps.map(url => `Sitemap: ${url}`).join("\n"));
+  }
+  return `${blocks.join("\n\n")}\n`;
+}
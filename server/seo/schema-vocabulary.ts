@@ -0,0 +1,415 @@
+// A bundled subset of the schema.org vocabulary: the types the structured
+// data generator emits and the types that usually appear inside them.
+// Required and recommended properties follow Google's rich result
+// guidelines where Google documents them.
+
+// Value formats checked directly; any other expected name refers to a type
+export const DATA_TYPES = ["Text", "URL", "Date", "DateTime", "Time", "Number", "Integer", "Duration", "Boolean"] as const;
+export type DataType = typeof DATA_TYPES[number];
+
+export interface TypeDefinition {
+  parent?: string;
+  // Property name to the types and data types it accepts
+  properties: Record<string, string[]>;
+  // Each entry is a property name, or a list of alternatives where any one will do.
+  // Types without their own lists use their nearest ancestor's.
+  required?: Array<string | string[]>;
+  recommended?: Array<string | string[]>;
+}
+
+export const ENUMERATIONS: Record<string, string[]> = {
+  ItemAvailability: ["InStock", "OutOfStock", "PreOrder", "BackOrder", "Discontinued", "LimitedAvailability", "SoldOut", "InStoreOnly", "OnlineOnly", "PreSale"],
+  OfferItemCondition: ["NewCondition", "UsedCondition", "RefurbishedCondition", "DamagedCondition"],
+  DayOfWeek: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday", "PublicHolidays"],
+};
+
+// Common LocalBusiness subtypes, checked with LocalBusiness's rules
+const LOCAL_BUSINESS_SUBTYPES = [
+  "AutoRepair", "Bakery", "BarOrPub", "BeautySalon", "CafeOrCoffeeShop", "ClothingStore", "Dentist", "Electrician",
+  "FinancialService", "FoodEstablishment", "HairSalon", "HomeAndConstructionBusiness", "Hotel", "LegalService",
+  "Plumber", "ProfessionalService", "RealEstateAgent", "Restaurant", "Store",
+];
+
+export const VOCABULARY: Record<string, TypeDefinition> = {
+  Thing: {
+    properties: {
+      name: ["Text"],
+      alternateName: ["Text"],
+      description: ["Text"],
+      url: ["URL"],
+      image: ["URL", "ImageObject"],
+      sameAs: ["URL"],
+      identifier: ["Text", "URL"],
+    },
+  },
+
+  CreativeWork: {
+    parent: "Thing",
+    properties: {
+      headline: ["Text"],
+      text: ["Text"],
+      author: ["Person", "Organization"],
+      publisher: ["Organization", "Person"],
+      datePublished: ["Date", "DateTime"],
+      dateModified: ["Date", "DateTime"],
+      mainEntityOfPage: ["URL", "WebPage"],
+      mainEntity: ["Thing"],
+      about: ["Thing"],
+      inLanguage: ["Text"],
+      keywords: ["Text"],
+      thumbnailUrl: ["URL"],
+      review: ["Review"],
+      aggregateRating: ["AggregateRating"],
+    },
+  },
+  Article: {
+    parent: "CreativeWork",
+    properties: {
+      articleBody: ["Text"],
+      articleSection: ["Text"],
+      wordCount: ["Integer"],
+    },
+    required: [],
+    recommended: ["headline", "image", "author", "datePublished", "dateModified"],
+  },
+  BlogPosting: { parent: "Article", properties: {} },
+  NewsArticle: { parent: "Article", properties: {} },
+  WebPage: {
+    parent: "CreativeWork",
+    properties: {
+      breadcrumb: ["BreadcrumbList"],
+    },
+  },
+  FAQPage: {
+    parent: "WebPage",
+    properties: {
+      mainEntity: ["Question"],
+    },
+    required: ["mainEntity"],
+  },
+  Question: {
+    parent: "CreativeWork",
+    properties: {
+      acceptedAnswer: ["Answer"],
+      suggestedAnswer: ["Answer"],
+      answerCount: ["Integer"],
+    },
+    required: ["name", "acceptedAnswer"],
+  },
+  Answer: {
+    parent: "CreativeWork",
+    properties: {},
+    required: ["text"],
+  },
+  ImageObject: {
+    parent: "CreativeWork",
+    properties: {
+      contentUrl: ["URL"],
+      width: ["Integer", "Text"],
+      height: ["Integer", "Text"],
+      caption: ["Text"],
+    },
+    required: [["url", "contentUrl"]],
+  },
+
+  HowTo: {
+    parent: "CreativeWork",
+    properties: {
+      step: ["HowToStep", "HowToSection", "Text"],
+      supply: ["HowToSupply", "Text"],
+      tool: ["HowToTool", "Text"],
+      totalTime: ["Duration"],
+      prepTime: ["Duration"],
+      performTime: ["Duration"],
+      estimatedCost: ["MonetaryAmount", "Text"],
+      yield: ["Text"],
+    },
+    required: ["name", "step"],
+    recommended: ["description", "image", "totalTime", "supply", "tool"],
+  },
+  HowToSection: {
+    parent: "Thing",
+    properties: {
+      itemListElement: ["HowToStep"],
+      position: ["Integer"],
+    },
+    required: ["name", "itemListElement"],
+  },
+  HowToStep: {
+    parent: "CreativeWork",
+    properties: {
+      itemListElement: ["HowToDirection", "HowToTip", "Text"],
+      position: ["Integer"],
+    },
+    required: [["text", "itemListElement"]],
+    recommended: ["name"],
+  },
+  HowToDirection: { parent: "CreativeWork", properties: {}, required: ["text"] },
+  HowToTip: { parent: "CreativeWork", properties: {}, required: ["text"] },
+  HowToSupply: {
+    parent: "Thing",
+    properties: {
+      requiredQuantity: ["Number", "Text"],
+    },
+    required: ["name"],
+  },
+  HowToTool: {
+    parent: "Thing",
+    properties: {
+      requiredQuantity: ["Number", "Text"],
+    },
+    required: ["name"],
+  },
+  MonetaryAmount: {
+    parent: "Thing",
+    properties: {
+      currency: ["Text"],
+      value: ["Number"],
+    },
+    required: ["currency", "value"],
+  },
+
+  ItemList: {
+    parent: "Thing",
+    properties: {
+      itemListElement: ["ListItem", "Thing", "Text"],
+      numberOfItems: ["Integer"],
+      itemListOrder: ["Text"],
+    },
+  },
+  BreadcrumbList: {
+    parent: "ItemList",
+    properties: {
+      itemListElement: ["ListItem"],
+    },
+    required: ["itemListElement"],
+  },
+  ListItem: {
+    parent: "Thing",
+    properties: {
+      position: ["Integer"],
+      item: ["Thing", "URL"],
+    },
+    required: ["position", ["name", "item"]],
+    recommended: ["item"],
+  },
+
+  Person: {
+    parent: "Thing",
+    properties: {
+      jobTitle: ["Text"],
+      email: ["Text"],
+      telephone: ["Text"],
+      worksFor: ["Organization"],
+      affiliation: ["Organization"],
+    },
+    required: ["name"],
+    recommended: ["url"],
+  },
+  Organization: {
+    parent: "Thing",
+    properties: {
+      legalName: ["Text"],
+      logo: ["URL", "ImageObject"],
+      email: ["Text"],
+      telephone: ["Text"],
+      address: ["PostalAddress", "Text"],
+      contactPoint: ["ContactPoint"],
+      founder: ["Person"],
+      foundingDate: ["Date"],
+      vatID: ["Text"],
+      taxID: ["Text"],
+      brand: ["Brand", "Organization"],
+      aggregateRating: ["AggregateRating"],
+      review: ["Review"],
+    },
+    required: ["name"],
+    recommended: ["url", "logo", "sameAs"],
+  },
+  LocalBusiness: {
+    parent: "Organization",
+    properties: {
+      geo: ["GeoCoordinates"],
+      openingHours: ["Text"],
+      openingHoursSpecification: ["OpeningHoursSpecification"],
+      priceRange: ["Text"],
+      hasMap: ["URL"],
+      areaServed: ["Text"],
+      paymentAccepted: ["Text"],
+      currenciesAccepted: ["Text"],
+      servesCuisine: ["Text"],
+      menu: ["URL", "Text"],
+    },
+    required: ["name", "address"],
+    recommended: ["telephone", "url", "image", "geo", ["openingHoursSpecification", "openingHours"], "priceRange"],
+  },
+  ...Object.fromEntries(LOCAL_BUSINESS_SUBTYPES.map((name): [string, TypeDefinition] => [name, { parent: "LocalBusiness", properties: {} }])),
+  PostalAddress: {
+    parent: "Thing",
+    properties: {
+      streetAddress: ["Text"],
+      addressLocality: ["Text"],
+      addressRegion: ["Text"],
+      postalCode: ["Text"],
+      addressCountry: ["Text"],
+      postOfficeBoxNumber: ["Text"],
+    },
+    recommended: ["streetAddress", "addressLocality", "postalCode", "addressCountry"],
+  },
+  GeoCoordinates: {
+    parent: "Thing",
+    properties: {
+      latitude: ["Number"],
+      longitude: ["Number"],
+    },
+    required: ["latitude", "longitude"],
+  },
+  OpeningHoursSpecification: {
+    parent: "Thing",
+    properties: {
+      dayOfWeek: ["DayOfWeek"],
+      opens: ["Time"],
+      closes: ["Time"],
+      validFrom: ["Date", "DateTime"],
+      validThrough: ["Date", "DateTime"],
+    },
+    required: ["dayOfWeek", "opens", "closes"],
+  },
+  ContactPoint: {
+    parent: "Thing",
+    properties: {
+      telephone: ["Text"],
+      email: ["Text"],
+      contactType: ["Text"],
+      areaServed: ["Text"],
+      availableLanguage: ["Text"],
+    },
+    recommended: ["telephone", "contactType"],
+  },
+
+  Product: {
+    parent: "Thing",
+    properties: {
+      brand: ["Brand", "Organization"],
+      sku: ["Text"],
+      mpn: ["Text"],
+      gtin: ["Text"],
+      gtin8: ["Text"],
+      gtin12: ["Text"],
+      gtin13: ["Text"],
+      gtin14: ["Text"],
+      offers: ["Offer", "AggregateOffer"],
+      aggregateRating: ["AggregateRating"],
+      review: ["Review"],
+      category: ["Text"],
+      color: ["Text"],
+      material: ["Text"],
+      model: ["Text"],
+    },
+    required: ["name", ["offers", "review", "aggregateRating"]],
+    recommended: ["image", "description", "brand", ["sku", "gtin", "gtin8", "gtin12", "gtin13", "gtin14", "mpn"]],
+  },
+  Brand: {
+    parent: "Thing",
+    properties: {
+      logo: ["URL", "ImageObject"],
+    },
+    required: ["name"],
+  },
+  Offer: {
+    parent: "Thing",
+    properties: {
+      price: ["Number"],
+      priceCurrency: ["Text"],
+      priceValidUntil: ["Date"],
+      availability: ["ItemAvailability"],
+      itemCondition: ["OfferItemCondition"],
+      seller: ["Organization", "Person"],
+    },
+    required: ["price", "priceCurrency"],
+    recommended: ["availability", "url"],
+  },
+  AggregateOffer: {
+    parent: "Offer",
+    properties: {
+      lowPrice: ["Number"],
+      highPrice: ["Number"],
+      offerCount: ["Integer"],
+    },
+    required: ["lowPrice", "priceCurrency"],
+    recommended: ["highPrice", "offerCount"],
+  },
+  Rating: {
+    parent: "Thing",
+    properties: {
+      ratingValue: ["Number"],
+      bestRating: ["Number"],
+      worstRating: ["Number"],
+      author: ["Person", "Organization"],
+    },
+    required: ["ratingValue"],
+  },
+  AggregateRating: {
+    parent: "Rating",
+    properties: {
+      ratingCount: ["Integer"],
+      reviewCount: ["Integer"],
+      itemReviewed: ["Thing"],
+    },
+    required: ["ratingValue", ["ratingCount", "reviewCount"]],
+    recommended: ["bestRating"],
+  },
+  Review: {
+    parent: "CreativeWork",
+    properties: {
+      reviewRating: ["Rating"],
+      reviewBody: ["Text"],
+      itemReviewed: ["Thing"],
+    },
+    required: ["author"],
+    recommended: ["reviewRating", "datePublished"],
+  },
+};
+
+// Names come from user JSON-LD, so only the vocabulary's own keys count
+export function isKnownType(name: string): boolean {
+  return Object.hasOwn(VOCABULARY, name);
+}
+
+export function isEnumeration(name: string): boolean {
+  return Object.hasOwn(ENUMERATIONS, name);
+}
+
+// The type and its ancestors, nearest first
+export function typeAncestry(type: string): string[] {
+  const chain: string[] = [];
+  for (let current: string | undefined = type; current && isKnownType(current); current = VOCABULARY[current].parent) {
+    chain.push(current);
+  }
+  return chain;
+}
+
+export function isSubtypeOf(type: string, ancestor: string): boolean {
+  return typeAncestry(type).includes(ancestor);
+}
+
+// Expected values for a property, from the nearest type that declares it
+export function propertyRange(type: string, property: string): string[] | undefined {
+  for (const name of typeAncestry(type)) {
+    const { properties } = VOCABULARY[name];
+    if (Object.hasOwn(properties, property)) return properties[property];
+  }
+  return undefined;
+}
+
+export function allProperties(type: string): string[] {
+  return Array.from(new Set(typeAncestry(type).flatMap(name => Object.keys(VOCABULARY[name].properties))));
+}
+
+export function propertyRules(type: string): { required: Array<string | string[]>; recommended: Array<string | string[]> } {
+  const chain = typeAncestry(type);
+  return {
+    required: chain.map(name => VOCABULARY[name].required).find(Boolean) ?? [],
+    recommended: chain.map(name => VOCABULARY[name].recommended).find(Boolean) ?? [],
+  };
+}
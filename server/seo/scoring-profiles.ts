@@ -0,0 +1,47 @@
+import type { DensityCutoff, KeywordType, ScoringBand, ScoringProfile } from "@shared/schema";
+
+const cutoffs = (low: number, good: number, high: number): DensityCutoff[] => [
+  { status: "low", below: low },
+  { status: "good", below: good },
+  { status: "high", below: high },
+  { status: "excessive", below: null },
+];
+
+// One mention is a bigger share of a short text, so short content gets looser cutoffs
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  name: "default",
+  description: "Balanced thresholds for blog posts and articles",
+  statuses: [
+    { id: "low", label: "Low", tone: "neutral" },
+    { id: "good", label: "Good", tone: "positive" },
+    { id: "high", label: "High", tone: "warning" },
+    { id: "excessive", label: "Excessive", tone: "negative" },
+  ],
+  bands: [
+    { maxWords: 300, focus: cutoffs(1, 3, 4.5), secondary: cutoffs(0.5, 2, 3), generic: cutoffs(1, 2.5, 4) },
+    { maxWords: 1500, focus: cutoffs(0.8, 2.5, 3.5), secondary: cutoffs(0.3, 1.5, 2.5), generic: cutoffs(1, 2, 3) },
+    { maxWords: null, focus: cutoffs(0.5, 2, 3), secondary: cutoffs(0.2, 1, 2), generic: cutoffs(0.5, 1.5, 2.5) },
+  ],
+};
+
+function bandFor(profile: ScoringProfile, totalWords: number): ScoringBand {
+  return profile.bands.find(candidate => candidate.maxWords === null || totalWords <= candidate.maxWords)
+    ?? profile.bands[profile.bands.length - 1];
+}
+
+export function classifyDensity(profile: ScoringProfile, type: KeywordType, totalWords: number, density: number): string {
+  const band = bandFor(profile, totalWords);
+  const cutoff = band[type].find(candidate => candidate.below === null || density < candidate.below)
+    ?? band[type][band[type].length - 1];
+  return cutoff.status;
+}
+
+// Density range, in percent, that earns the profile's first positive status;
+// null when the profile has none for this keyword type
+export function targetDensityRange(profile: ScoringProfile, type: KeywordType, totalWords: number): { min: number; max: number | null } | null {
+  const positive = profile.statuses.find(status => status.tone === "positive");
+  const cutoffs = bandFor(profile, totalWords)[type];
+  const index = positive ? cutoffs.findIndex(cutoff => cutoff.status === positive.id) : -1;
+  if (index < 0) return null;
+  return { min: index > 0 ? cutoffs[index - 1].below ?? 0 : 0, max: cutoffs[index].below };
+}
@@ -0,0 +1,119 @@
+// English word normalization for grouping keyword variants. Both functions
+// expect lowercase input.
+
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: "ate", tional: "tion", enci: "ence", anci: "ance", izer: "ize", bli: "ble", alli: "al",
+  entli: "ent", eli: "e", ousli: "ous", ization: "ize", ation: "ate", ator: "ate", alism: "al",
+  iveness: "ive", fulness: "ful", ousness: "ous", aliti: "al", iviti: "ive", biliti: "ble", logi: "log",
+};
+
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: "ic", ative: "", alize: "al", iciti: "ic", ical: "ic", ful: "", ness: "",
+};
+
+const c = "[^aeiou]";
+const v = "[aeiouy]";
+const C = `${c}[^aeiouy]*`;
+const V = `${v}[aeiou]*`;
+
+const MEASURE_GT_0 = new RegExp(`^(${C})?${V}${C}`);
+const MEASURE_EQ_1 = new RegExp(`^(${C})?${V}${C}(${V})?$`);
+const MEASURE_GT_1 = new RegExp(`^(${C})?${V}${C}${V}${C}`);
+const HAS_VOWEL = new RegExp(`^(${C})?${v}`);
+const SHORT_CVC = new RegExp(`^${C}${v}[^aeiouwxy]$`);
+const DOUBLE_CONSONANT = /([^aeiouylsz])\1$/;
+
+// Porter (1980) stemming algorithm: "marketing", "marketed" and "markets" all become "market"
+export function porterStem(word: string): string {
+  if (word.length < 3) return word;
+
+  let w = word;
+  const initialY = w.charAt(0) === "y";
+  if (initialY) w = "Y" + w.slice(1);
+
+  // Step 1a: plurals
+  if (/^(.+?)(ss|i)es$/.test(w)) w = w.replace(/^(.+?)(ss|i)es$/, "$1$2");
+  else if (/^(.+?)([^s])s$/.test(w)) w = w.replace(/^(.+?)([^s])s$/, "$1$2");
+
+  // Step 1b: past tense and gerunds
+  let match = w.match(/^(.+?)eed$/);
+  if (match) {
+    if (MEASURE_GT_0.test(match[1])) w = w.slice(0, -1);
+  } else if ((match = w.match(/^(.+?)(ed|ing)$/)) && HAS_VOWEL.test(match[1])) {
+    w = match[1];
+    if (/(at|bl|iz)$/.test(w)) w += "e";
+    else if (DOUBLE_CONSONANT.test(w)) w = w.slice(0, -1);
+    else if (SHORT_CVC.test(w)) w += "e";
+  }
+
+  // Step 1c: terminal y
+  match = w.match(/^(.+?)y$/);
+  if (match && HAS_VOWEL.test(match[1])) w = match[1] + "i";
+
+  // Step 2: double suffixes
+  match = w.match(/^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/);
+  if (match && MEASURE_GT_0.test(match[1])) w = match[1] + STEP2_SUFFIXES[match[2]];
+
+  // Step 3: -ic-, -full, -ness etc.
+  match = w.match(/^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/);
+  if (match && MEASURE_GT_0.test(match[1])) w = match[1] + STEP3_SUFFIXES[match[2]];
+
+  // Step 4: -ant, -ence etc.
+  match = w.match(/^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/);
+  if (match) {
+    if (MEASURE_GT_1.test(match[1])) w = match[1];
+  } else if ((match = w.match(/^(.+?)(s|t)(ion)$/)) && MEASURE_GT_1.test(match[1] + match[2])) {
+    w = match[1] + match[2];
+  }
+
+  // Step 5: tidy up a final -e and -ll
+  match = w.match(/^(.+?)e$/);
+  if (match) {
+    const stem = match[1];
+    if (MEASURE_GT_1.test(stem) || (MEASURE_EQ_1.test(stem) && !SHORT_CVC.test(stem))) w = stem;
+  }
+  if (/ll$/.test(w) && MEASURE_GT_1.test(w)) w = w.slice(0, -1);
+
+  return initialY ? "y" + w.slice(1) : w;
+}
+
+const IRREGULAR_LEMMAS: Record<string, string> = {
+  am: "be", is: "be", are: "be", was: "be", were: "be", been: "be", being: "be",
+  has: "have", had: "have", having: "have", does: "do", did: "do", done: "do", doing: "do",
+  went: "go", gone: "go", goes: "go", made: "make", got: "get", gotten: "get", took: "take", taken: "take",
+  wrote: "write", written: "write", ran: "run", began: "begin", begun: "begin", bought: "buy",
+  brought: "bring", thought: "think", found: "find", knew: "know", known: "know", saw: "see", seen: "see",
+  gave: "give", given: "give", chose: "choose", chosen: "choose", built: "build", sold: "sell", told: "tell",
+  used: "use", using: "use", uses: "use",
+  better: "good", best: "good", worse: "bad", worst: "bad",
+  children: "child", people: "person", men: "man", women: "woman", mice: "mouse", feet: "foot",
+  teeth: "tooth", geese: "goose", analyses: "analysis", criteria: "criterion", data: "data", media: "media",
+};
+
+// Restores the "e" that inflection drops: creat(ing) -> create, optimiz(ed) -> optimize
+function restoreStem(stem: string): string {
+  if (/(at|bl|iz|us|ov|dg)$/.test(stem)) return stem + "e";
+  if (DOUBLE_CONSONANT.test(stem)) return stem.slice(0, -1);
+  if (stem.length <= 4 && SHORT_CVC.test(stem)) return stem + "e";
+  return stem;
+}
+
+// Lightweight rule-based lemmatizer. Unlike the stemmer it aims to return real
+// dictionary words ("strategies" -> "strategy", "running" -> "run"), at the
+// cost of missing derivational variants such as "marketer".
+export function lemmatize(word: string): string {
+  if (Object.hasOwn(IRREGULAR_LEMMAS, word)) return IRREGULAR_LEMMAS[word];
+  if (word.length <= 3 || /(ss|us|is)$/.test(word)) return word;
+
+  if (/ies$/.test(word) && word.length > 4) return word.slice(0, -3) + "y";
+  if (/(sses|xes|ches|shes|zes)$/.test(word)) return word.slice(0, -2);
+  if (/ied$/.test(word)) return word.slice(0, -3) + "y";
+
+  const inflected = word.match(/^(.+?)(ing|ed)$/);
+  if (inflected && /[aeiouy]/.test(inflected[1]) && inflected[1].length >= 2) {
+    return restoreStem(inflected[1]);
+  }
+
+  if (/[^s]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
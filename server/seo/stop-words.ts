@@ -0,0 +1,58 @@
+import type { ContentLanguage } from "@shared/schema";
+
+const STOP_WORDS: Record<ContentLanguage, string[]> = {
+  en: [
+    "a", "about", "above", "after", "again", "against", "all", "also", "am", "an", "and", "any", "are", "as", "at",
+    "be", "because", "been", "before", "being", "below", "between", "both", "but", "by", "can", "could",
+    "did", "do", "does", "doing", "down", "during", "each", "few", "for", "from", "further", "get", "had", "has",
+    "have", "having", "he", "her", "here", "hers", "herself", "him", "himself", "his", "how", "i", "if", "in",
+    "into", "is", "it", "its", "itself", "just", "me", "more", "most", "my", "myself", "no", "nor", "not",
+    "now", "of", "off", "on", "once", "only", "or", "other", "our", "ours", "ourselves", "out", "over", "own",
+    "same", "she", "should", "so", "some", "such", "than", "that", "the", "their", "theirs", "them",
+    "themselves", "then", "there", "these", "they", "this", "those", "through", "to", "too", "under", "until",
+    "up", "very", "was", "we", "were", "what", "when", "where", "which", "while", "who", "whom", "why", "will",
+    "with", "would", "you", "your", "yours", "yourself", "yourselves",
+  ],
+  es: [
+    "a", "al", "algo", "algunos", "ante", "antes", "como", "con", "contra", "cual", "cuando", "de", "del",
+    "desde", "donde", "durante", "e", "el", "ella", "ellas", "ellos", "en", "entre", "era", "es", "esa",
+    "ese", "eso", "esta", "estas", "este", "esto", "estos", "fue", "ha", "hay", "la", "las", "le", "les", "lo",
+    "los", "mas", "más", "me", "mi", "muy", "nada", "ni", "no", "nos", "nosotros", "o", "os", "otra", "otro",
+    "para", "pero", "poco", "por", "porque", "que", "qué", "quien", "se", "sea", "ser", "si", "sí", "sin",
+    "sobre", "son", "su", "sus", "también", "te", "tiene", "todo", "todos", "tu", "tus", "un", "una", "uno",
+    "unos", "y", "ya", "yo",
+  ],
+  fr: [
+    "à", "au", "aux", "avec", "ce", "ces", "cette", "comme", "dans", "de", "des", "du", "elle", "elles", "en",
+    "est", "et", "été", "être", "eu", "il", "ils", "je", "la", "le", "les", "leur", "leurs", "lui", "ma",
+    "mais", "me", "même", "mes", "moi", "mon", "ne", "nos", "notre", "nous", "on", "ont", "ou", "où", "par",
+    "pas", "plus", "pour", "qu", "que", "qui", "sa", "sans", "se", "ses", "son", "sont", "sur", "ta", "te",
+    "tes", "toi", "ton", "tous", "tout", "tu", "un", "une", "vos", "votre", "vous", "y",
+  ],
+  de: [
+    "aber", "als", "am", "an", "auch", "auf", "aus", "bei", "bin", "bis", "da", "damit", "das", "dass", "dem",
+    "den", "der", "des", "die", "dies", "diese", "dieser", "doch", "du", "durch", "ein", "eine", "einem",
+    "einen", "einer", "er", "es", "für", "hat", "hatte", "ich", "ihr", "im", "in", "ist", "ja", "kann",
+    "mit", "nach", "nicht", "noch", "nur", "ob", "oder", "ohne", "sich", "sie", "sind", "so", "über", "um",
+    "und", "uns", "unter", "vom", "von", "vor", "war", "was", "weil", "wenn", "wie", "wir", "wird", "zu",
+    "zum", "zur",
+  ],
+  pt: [
+    "a", "ao", "aos", "as", "até", "com", "como", "da", "das", "de", "dela", "dele", "do", "dos", "e", "é",
+    "ela", "elas", "ele", "eles", "em", "entre", "era", "essa", "esse", "esta", "este", "eu", "foi", "há",
+    "isso", "isto", "já", "la", "lhe", "mais", "mas", "me", "mesmo", "meu", "minha", "muito", "na", "nas",
+    "não", "nem", "no", "nos", "nós", "o", "os", "ou", "para", "pela", "pelo", "por", "qual", "quando", "que",
+    "se", "sem", "ser", "seu", "sua", "são", "também", "te", "tem", "um", "uma", "você",
+  ],
+  it: [
+    "a", "ad", "al", "alla", "alle", "anche", "che", "chi", "ci", "come", "con", "da", "dal", "dalla", "degli",
+    "dei", "del", "della", "delle", "di", "e", "è", "gli", "ha", "hanno", "i", "il", "in", "io", "la", "le",
+    "lei", "li", "lo", "loro", "lui", "ma", "mi", "nel", "nella", "non", "noi", "o", "per", "più", "questa",
+    "questo", "se", "si", "sia", "sono", "su", "sua", "suo", "tra", "tu", "un", "una", "uno", "voi",
+  ],
+};
+
+// Built-in list for the language, extended with the caller's own words
+export function getStopWords(language: ContentLanguage, extra: string[] = []): Set<string> {
+  return new Set([...STOP_WORDS[language], ...extra.map(word => word.trim().toLowerCase()).filter(Boolean)]);
+}
@@ -0,0 +1,295 @@
+import { findAll, parseHtml } from "./html";
+import { editDistance } from "./edit-distance";
+import {
+  DATA_TYPES,
+  ENUMERATIONS,
+  allProperties,
+  isEnumeration,
+  isKnownType,
+  isSubtypeOf,
+  propertyRange,
+  propertyRules,
+  type DataType,
+} from "./schema-vocabulary";
+import type { StructuredDataIssue, StructuredDataItem, StructuredDataValidation } from "@shared/schema";
+
+// Checks JSON-LD against the bundled schema.org subset: types, required and
+// recommended properties, and value formats. Every issue carries the JSON
+// path of the value it is about, relative to the script it came from.
+
+type JsonObject = Record<string, unknown>;
+
+const SCHEMA_PREFIX = /^(?:https?:\/\/schema\.org\/|schema:)/i;
+const SCHEMA_CONTEXT = /^https?:\/\/schema\.org\/?$/i;
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const TIME = /^\d{2}:\d{2}(:\d{2})?(Z|[+-]\d{2}:?\d{2})?$/;
+const DURATION = /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+const DATA_TYPE_CHECKS: Record<DataType, (value: unknown) => boolean> = {
+  Text: value => typeof value === "string" || typeof value === "number",
+  URL: value => typeof value === "string" && /^https?:\/\/[^\s/]+\.[^\s]*$/i.test(value),
+  Date: value => typeof value === "string" && DATE.test(value) && !isNaN(Date.parse(value)),
+  DateTime: value => typeof value === "string" && DATE_TIME.test(value) && !isNaN(Date.parse(value)),
+  Time: value => typeof value === "string" && TIME.test(value),
+  Number: value => (typeof value === "number" && isFinite(value)) || (typeof value === "string" && NUMBER.test(value.trim())),
+  Integer: value => (typeof value === "number" && Number.isInteger(value)) || (typeof value === "string" && /^-?\d+$/.test(value.trim())),
+  Duration: value => typeof value === "string" && DURATION.test(value),
+  Boolean: value => typeof value === "boolean" || (typeof value === "string" && /^(true|false)$/i.test(value.replace(SCHEMA_PREFIX, ""))),
+};
+
+const DATA_TYPE_MESSAGES: Record<DataType, string> = {
+  Text: "Expected text",
+  URL: "Expected an absolute URL, e.g. https://example.com/page",
+  Date: "Expected an ISO 8601 date, e.g. 2024-05-31",
+  DateTime: "Expected an ISO 8601 date and time, e.g. 2024-05-31T09:00:00+01:00",
+  Time: "Expected a time, e.g. 09:00",
+  Number: "Expected a number, without currency symbols or separators",
+  Integer: "Expected a whole number",
+  Duration: "Expected an ISO 8601 duration, e.g. PT30M",
+  Boolean: "Expected true or false",
+};
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isDataType(name: string): name is DataType {
+  return (DATA_TYPES as readonly string[]).includes(name);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}["${key}"]`;
+}
+
+function typeNames(node: JsonObject): string[] {
+  const raw = node["@type"];
+  const values = Array.isArray(raw) ? raw : raw === undefined ? [] : [raw];
+  return values.filter((value): value is string => typeof value === "string").map(value => value.replace(SCHEMA_PREFIX, ""));
+}
+
+function describe(alternatives: string[]): string {
+  if (alternatives.length === 1) return alternatives[0];
+  return `one of ${alternatives.slice(0, -1).join(", ")} or ${alternatives[alternatives.length - 1]}`;
+}
+
+// Unknown properties are only reported when they look like a typo of a known
+// one; the bundled vocabulary is a subset, so anything else may be valid
+function suggestProperty(property: string, known: string[]): string | undefined {
+  const lower = property.toLowerCase();
+  const exact = known.find(name => name.toLowerCase() === lower);
+  if (exact) return exact;
+  if (property.length < 5) return undefined;
+  const [best] = known
+    .map(name => ({ name, distance: editDistance(lower, name.toLowerCase()) }))
+    .filter(candidate => candidate.distance <= 2)
+    .sort((a, b) => a.distance - b.distance);
+  return best?.name;
+}
+
+function error(issues: StructuredDataIssue[], path: string, message: string) {
+  issues.push({ severity: "error", path, message });
+}
+
+function warning(issues: StructuredDataIssue[], path: string, message: string) {
+  issues.push({ severity: "warning", path, message });
+}
+
+// People and organizations are often described in full elsewhere on the site,
+// so nested ones (authors, publishers, brands) are only held to their required properties
+const REFERENCED_TYPES = ["Person", "Organization"];
+
+// `fallbackType` is used for objects that leave out @type where only one type fits
+function validateNode(node: JsonObject, path: string, issues: StructuredDataIssue[], nested: boolean, fallbackType?: string) {
+  const types = typeNames(node);
+  if (types.length === 0 && !fallbackType) {
+    error(issues, path, "Missing @type");
+    return;
+  }
+  const type = types.length > 0 ? types.find(isKnownType) : fallbackType;
+  if (!type) {
+    warning(issues, childPath(path, "@type"), `"${types.join(", ")}" isn't in the bundled vocabulary, so only its syntax was checked`);
+    return;
+  }
+
+  const rules = propertyRules(type);
+  const reported = new Set<string>();
+  for (const rule of rules.required) {
+    const alternatives = Array.isArray(rule) ? rule : [rule];
+    if (alternatives.every(property => isEmpty(node[property]))) {
+      error(issues, path, `Missing required property ${describe(alternatives)} for ${type}`);
+      alternatives.forEach(property => reported.add(property));
+    }
+  }
+  const checkRecommended = !nested || !REFERENCED_TYPES.some(name => isSubtypeOf(type, name));
+  for (const rule of checkRecommended ? rules.recommended : []) {
+    const alternatives = Array.isArray(rule) ? rule : [rule];
+    if (alternatives.every(property => isEmpty(node[property]) && !reported.has(property))) {
+      warning(issues, path, `Missing recommended property ${describe(alternatives)} for ${type}`);
+    }
+  }
+
+  const known = allProperties(type);
+  for (const [property, value] of Object.entries(node)) {
+    if (property.startsWith("@")) continue;
+    const range = propertyRange(type, property);
+    if (!range) {
+      const suggestion = suggestProperty(property, known);
+      if (suggestion) warning(issues, childPath(path, property), `Unknown property "${property}" for ${type}; did you mean "${suggestion}"?`);
+      continue;
+    }
+    validateValue(value, range, childPath(path, property), issues);
+  }
+}
+
+function validateValue(value: unknown, range: string[], path: string, issues: StructuredDataIssue[]) {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => validateValue(item, range, childPath(path, index), issues));
+    return;
+  }
+  if (value === null || value === "") {
+    error(issues, path, "Empty value; remove the property or give it a value");
+    return;
+  }
+
+  const typeRange = range.filter(name => !isDataType(name) && !isEnumeration(name));
+  if (isObject(value)) {
+    if ("@value" in value) {
+      validateValue(value["@value"], range, childPath(path, "@value"), issues);
+      return;
+    }
+    const types = typeNames(value);
+    // A bare {"@id": ...} points at a node described elsewhere
+    if (types.length === 0 && Object.keys(value).every(key => key.startsWith("@"))) return;
+    if (typeRange.length === 0) {
+      error(issues, path, `${DATA_TYPE_MESSAGES[range.find(isDataType) ?? "Text"]}, not an object`);
+      return;
+    }
+    if (types.length === 0) {
+      warning(issues, path, `Add "@type": "${typeRange[0]}"`);
+      validateNode(value, path, issues, true, typeRange[0]);
+      return;
+    }
+    const knownTypes = types.filter(isKnownType);
+    if (knownTypes.length > 0 && !knownTypes.some(name => typeRange.some(expected => isSubtypeOf(name, expected)))) {
+      error(issues, childPath(path, "@type"), `Expected ${describe(typeRange)}, found ${types.join(", ")}`);
+      return;
+    }
+    validateNode(value, path, issues, true);
+    return;
+  }
+
+  const enumeration = range.find(isEnumeration);
+  if (enumeration) {
+    const member = typeof value === "string" ? value.replace(SCHEMA_PREFIX, "") : "";
+    if (!ENUMERATIONS[enumeration].includes(member)) {
+      error(issues, path, `Expected a ${enumeration} value such as https://schema.org/${ENUMERATIONS[enumeration][0]}`);
+    }
+    return;
+  }
+
+  const dataTypes = range.filter(isDataType);
+  if (dataTypes.some(name => DATA_TYPE_CHECKS[name](value))) return;
+  if (dataTypes.length > 0) {
+    // Structured data is read out of context, so relative URLs can't be resolved
+    if (dataTypes.includes("URL") && typeof value === "string" && /^\/|^\.{1,2}\//.test(value)) {
+      warning(issues, path, "Use an absolute URL; relative URLs may not be resolved");
+      return;
+    }
+    error(issues, path, DATA_TYPE_MESSAGES[dataTypes[0]]);
+    return;
+  }
+  warning(issues, path, `Expected ${describe(typeRange)} as an object with @type; plain values may be ignored`);
+}
+
+function contextIssue(context: unknown): string | null {
+  if (context === undefined) return 'Missing @context; add "@context": "https://schema.org"';
+  const contexts = Array.isArray(context) ? context : [context];
+  const schemaOrg = contexts.some(entry =>
+    (typeof entry === "string" && SCHEMA_CONTEXT.test(entry)) ||
+    (isObject(entry) && typeof entry["@vocab"] === "string" && SCHEMA_CONTEXT.test(entry["@vocab"])));
+  return schemaOrg ? null : "@context should be https://schema.org";
+}
+
+// Validates parsed JSON-LD: a single node, a list of nodes or an @graph
+export function validateJsonLd(data: unknown, source: string): StructuredDataItem[] {
+  const items: StructuredDataItem[] = [];
+  const check = (node: unknown, path: string, inheritedContext: unknown) => {
+    const issues: StructuredDataIssue[] = [];
+    if (!isObject(node)) {
+      error(issues, path, "Expected a JSON object");
+      items.push({ source, path, type: null, issues });
+      return;
+    }
+    const context = node["@context"] ?? inheritedContext;
+    const problem = contextIssue(context);
+    if (problem) error(issues, node["@context"] === undefined ? path : childPath(path, "@context"), problem);
+    validateNode(node, path, issues, false);
+    const types = typeNames(node);
+    items.push({ source, path, type: types.length > 0 ? types.join(", ") : null, issues });
+  };
+
+  const visit = (node: unknown, path: string, inheritedContext: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => visit(item, childPath(path, index), inheritedContext));
+    } else if (isObject(node) && Array.isArray(node["@graph"])) {
+      const context = node["@context"] ?? inheritedContext;
+      node["@graph"].forEach((item, index) => visit(item, childPath(childPath(path, "@graph"), index), context));
+    } else {
+      check(node, path, inheritedContext);
+    }
+  };
+
+  visit(data, "$", undefined);
+  return items;
+}
+
+export function validationReport(format: StructuredDataValidation["format"], items: StructuredDataItem[]): StructuredDataValidation {
+  const issues = items.flatMap(item => item.issues);
+  return {
+    format,
+    items,
+    errorCount: issues.filter(issue => issue.severity === "error").length,
+    warningCount: issues.filter(issue => issue.severity === "warning").length,
+  };
+}
+
+function parseJson(text: string, source: string): StructuredDataItem[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return [{ source, path: "$", type: null, issues: [{ severity: "error", path: "$", message: `Invalid JSON: ${message}` }] }];
+  }
+  return validateJsonLd(data, source);
+}
+
+// Accepts raw JSON-LD or an HTML page with application/ld+json scripts
+export function validateStructuredData(content: string): StructuredDataValidation {
+  const trimmed = content.trim();
+  const format = /^[[{]/.test(trimmed) ? "json" : "html";
+
+  let items: StructuredDataItem[];
+  if (format === "json") {
+    items = parseJson(trimmed, "JSON-LD");
+  } else {
+    const scripts = findAll(parseHtml(content), element =>
+      element.tag === "script" && (element.attrs.type ?? "").trim().toLowerCase() === "application/ld+json");
+    items = scripts.flatMap((script, index) => {
+      const text = script.children.map(child => (child.type === "text" ? child.text : "")).join("");
+      // Older pages wrap script contents in comment or CDATA markers
+      const json = text.trim().replace(/^(?:<!--|\/\/\s*<!\[CDATA\[)|(?:-->|\/\/\s*\]\]>)$/g, "").trim();
+      return parseJson(json, `Script ${index + 1}`);
+    });
+  }
+
+  return validationReport(format, items);
+}
@@ -0,0 +1,194 @@
+import type {
+  ArticleInput,
+  BreadcrumbListInput,
+  FaqItem,
+  HowToInput,
+  LocalBusinessInput,
+  OrganizationInput,
+  ProductInput,
+  StructuredDataRequest,
+} from "@shared/schema";
+
+// Builds schema.org JSON-LD from the generator's form inputs. Blank optional
+// fields are left out rather than emitted as empty strings.
+
+type JsonLd = Record<string, unknown>;
+
+const CONTEXT = "https://schema.org";
+
+// Drops undefined, empty-string and empty-array values
+function compact(data: JsonLd): JsonLd {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) =>
+    value !== undefined && value !== "" && !(Array.isArray(value) && value.length === 0)));
+}
+
+function orUndefined(value: string | undefined): string | undefined {
+  return value ? value : undefined;
+}
+
+// A single value stays a plain string; several become a list
+function oneOrMany(values: string[]): string | string[] | undefined {
+  if (values.length === 0) return undefined;
+  return values.length === 1 ? values[0] : values;
+}
+
+function articleJsonLd(type: "Article" | "BlogPosting", input: ArticleInput): JsonLd {
+  return compact({
+    "@context": CONTEXT,
+    "@type": type,
+    headline: input.headline,
+    description: orUndefined(input.description),
+    image: input.images,
+    author: compact({ "@type": input.authorType, name: input.authorName, url: orUndefined(input.authorUrl) }),
+    publisher: input.publisherName
+      ? compact({
+        "@type": "Organization",
+        name: input.publisherName,
+        logo: input.publisherLogo ? { "@type": "ImageObject", url: input.publisherLogo } : undefined,
+      })
+      : undefined,
+    datePublished: input.datePublished,
+    dateModified: orUndefined(input.dateModified),
+    mainEntityOfPage: input.url ? { "@type": "WebPage", "@id": input.url } : undefined,
+  });
+}
+
+function productJsonLd(input: ProductInput): JsonLd {
+  const offer = input.price
+    ? compact({
+      "@type": "Offer",
+      price: input.price,
+      priceCurrency: orUndefined(input.priceCurrency),
+      availability: input.availability ? `${CONTEXT}/${input.availability}` : undefined,
+      url: orUndefined(input.url),
+    })
+    : undefined;
+  const rating = input.ratingValue && input.reviewCount
+    ? { "@type": "AggregateRating", ratingValue: input.ratingValue, reviewCount: input.reviewCount }
+    : undefined;
+
+  return compact({
+    "@context": CONTEXT,
+    "@type": "Product",
+    name: input.name,
+    description: orUndefined(input.description),
+    image: input.images,
+    url: orUndefined(input.url),
+    brand: input.brand ? { "@type": "Brand", name: input.brand } : undefined,
+    sku: orUndefined(input.sku),
+    gtin: orUndefined(input.gtin),
+    offers: offer,
+    aggregateRating: rating,
+  });
+}
+
+export function faqPageJsonLd(faqs: FaqItem[]): JsonLd {
+  return {
+    "@context": CONTEXT,
+    "@type": "FAQPage",
+    mainEntity: faqs.map(item => ({
+      "@type": "Question",
+      name: item.question,
+      acceptedAnswer: { "@type": "Answer", text: item.answer },
+    })),
+  };
+}
+
+function howToJsonLd(input: HowToInput): JsonLd {
+  return compact({
+    "@context": CONTEXT,
+    "@type": "HowTo",
+    name: input.name,
+    description: orUndefined(input.description),
+    image: orUndefined(input.image),
+    totalTime: orUndefined(input.totalTime),
+    supply: input.supplies.map(name => ({ "@type": "HowToSupply", name })),
+    tool: input.tools.map(name => ({ "@type": "HowToTool", name })),
+    step: input.steps.map((step, index) => compact({
+      "@type": "HowToStep",
+      position: index + 1,
+      name: orUndefined(step.name),
+      text: step.text,
+      url: orUndefined(step.url),
+      image: orUndefined(step.image),
+    })),
+  });
+}
+
+function breadcrumbListJsonLd(input: BreadcrumbListInput): JsonLd {
+  return {
+    "@context": CONTEXT,
+    "@type": "BreadcrumbList",
+    itemListElement: input.items.map((crumb, index) => compact({
+      "@type": "ListItem",
+      position: index + 1,
+      name: crumb.name,
+      item: orUndefined(crumb.url),
+    })),
+  };
+}
+
+function organizationFields(input: OrganizationInput): JsonLd {
+  return {
+    name: input.name,
+    description: orUndefined(input.description),
+    url: orUndefined(input.url),
+    logo: orUndefined(input.logo),
+    email: orUndefined(input.email),
+    telephone: orUndefined(input.telephone),
+    sameAs: oneOrMany(input.sameAs),
+  };
+}
+
+function organizationJsonLd(input: OrganizationInput): JsonLd {
+  return compact({ "@context": CONTEXT, "@type": "Organization", ...organizationFields(input) });
+}
+
+function localBusinessJsonLd(input: LocalBusinessInput): JsonLd {
+  return compact({
+    "@context": CONTEXT,
+    "@type": input.businessType,
+    ...organizationFields(input),
+    image: orUndefined(input.image),
+    priceRange: orUndefined(input.priceRange),
+    address: compact({
+      "@type": "PostalAddress",
+      streetAddress: input.address.streetAddress,
+      addressLocality: input.address.addressLocality,
+      addressRegion: orUndefined(input.address.addressRegion),
+      postalCode: orUndefined(input.address.postalCode),
+      addressCountry: input.address.addressCountry,
+    }),
+    geo: input.latitude && input.longitude
+      ? { "@type": "GeoCoordinates", latitude: Number(input.latitude), longitude: Number(input.longitude) }
+      : undefined,
+    openingHours: oneOrMany(input.openingHours),
+  });
+}
+
+export function buildStructuredData(request: StructuredDataRequest): JsonLd {
+  switch (request.type) {
+    case "Article":
+    case "BlogPosting":
+      return articleJsonLd(request.type, request.data);
+    case "Product":
+      return productJsonLd(request.data);
+    case "FAQPage":
+      return faqPageJsonLd(request.data.questions);
+    case "HowTo":
+      return howToJsonLd(request.data);
+    case "BreadcrumbList":
+      return breadcrumbListJsonLd(request.data);
+    case "Organization":
+      return organizationJsonLd(request.data);
+    case "LocalBusiness":
+      return localBusinessJsonLd(request.data);
+  }
+}
+
+// JSON-LD in a script tag. "<" is escaped so text like "</script>" in a
+// value can't end the tag early; JSON parsers read it back unchanged.
+export function jsonLdScript(data: object): string {
+  const json = JSON.stringify(data, null, 2).replace(/</g, "\\u003c");
+  return `<script type="application/ld+json">\n${json}\n</script>`;
+}
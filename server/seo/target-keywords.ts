@@ -0,0 +1,113 @@
+import { tokenizeWords, type TextBlock } from "./document";
+import { porterStem } from "./stemmer";
+import type { ContentLanguage, TargetKeyphraseResult } from "@shared/schema";
+
+// Mentions this early in the text count as "in the introduction"
+const INTRODUCTION_WORDS = 100;
+const DISTRIBUTION_SEGMENTS = 10;
+// Fewer mentions than this can't be called spread or clustered
+const MIN_DISTRIBUTION_MENTIONS = 3;
+
+interface Sentence {
+  words: string[];
+  // Index of the sentence's first word in the whole document
+  offset: number;
+  blockIndex: number;
+}
+
+function flattenSentences(blocks: TextBlock[]): Sentence[] {
+  const sentences: Sentence[] = [];
+  let offset = 0;
+  blocks.forEach((block, blockIndex) => {
+    for (const sentence of block.sentences) {
+      const words = tokenizeWords(sentence);
+      sentences.push({ words, offset, blockIndex });
+      offset += words.length;
+    }
+  });
+  return sentences;
+}
+
+function findSequence(words: string[], phrase: string[]): number[] {
+  const positions: number[] = [];
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((word, j) => words[i + j] === word)) positions.push(i);
+  }
+  return positions;
+}
+
+// The text is cut into ten equal segments, and the score is the share of the
+// segments the mentions could fill that they do fill. Ten mentions packed into
+// the first paragraph score low; the same ten spread through the post score 100.
+function distributionScore(positions: number[], totalWords: number): number | null {
+  if (positions.length === 0 || totalWords === 0) return 0;
+  if (positions.length < MIN_DISTRIBUTION_MENTIONS) return null;
+  const occupied = new Set(positions.map(position =>
+    Math.min(DISTRIBUTION_SEGMENTS - 1, Math.floor((position / totalWords) * DISTRIBUTION_SEGMENTS))));
+  return Math.round((occupied.size / Math.min(positions.length, DISTRIBUTION_SEGMENTS)) * 100);
+}
+
+function distributionLabel(score: number | null, mentions: number): TargetKeyphraseResult["distribution"] {
+  if (mentions === 0) return "none";
+  if (score === null) return "too-few";
+  if (score >= 70) return "spread";
+  if (score >= 40) return "uneven";
+  return "clustered";
+}
+
+export function analyzeTargetKeyphrase(
+  blocks: TextBlock[],
+  keyphrase: string,
+  type: TargetKeyphraseResult["type"],
+  totalWords: number,
+  stopWords: Set<string>,
+  language: ContentLanguage,
+): Omit<TargetKeyphraseResult, "status"> {
+  const stem = language === "en" ? porterStem : (word: string) => word;
+  const phraseWords = tokenizeWords(keyphrase);
+  const contentWords = phraseWords.filter(word => !stopWords.has(word));
+  const requiredStems = (contentWords.length > 0 ? contentWords : phraseWords).map(stem);
+
+  const sentences = flattenSentences(blocks);
+  const documentWords = sentences.reduce((sum, sentence) => sum + sentence.words.length, 0);
+  const positions: number[] = [];
+  const matchedBlocks = new Set<number>();
+  let exactMatches = 0;
+  let partialMatches = 0;
+
+  for (const sentence of sentences) {
+    const exact = findSequence(sentence.words, phraseWords);
+    if (exact.length > 0) {
+      exactMatches += exact.length;
+      positions.push(...exact.map(index => sentence.offset + index));
+      matchedBlocks.add(sentence.blockIndex);
+      continue;
+    }
+
+    // Partial match: every significant word appears in the sentence, in any order or form
+    const stems = sentence.words.map(stem);
+    if (requiredStems.length > 0 && requiredStems.every(required => stems.includes(required))) {
+      partialMatches++;
+      positions.push(sentence.offset + stems.indexOf(requiredStems[0]));
+      matchedBlocks.add(sentence.blockIndex);
+    }
+  }
+
+  const lastParagraph = blocks.map(block => block.type).lastIndexOf("paragraph");
+  const score = distributionScore(positions, documentWords);
+  const density = (count: number) => (totalWords > 0 ? Number(((count / totalWords) * 100).toFixed(2)) : 0);
+
+  return {
+    keyphrase,
+    type,
+    exactMatches,
+    partialMatches,
+    exactDensity: density(exactMatches),
+    partialDensity: density(partialMatches),
+    inFirst100Words: positions.some(position => position < INTRODUCTION_WORDS),
+    inHeading: blocks.some((block, index) => block.type === "heading" && matchedBlocks.has(index)),
+    inLastParagraph: lastParagraph >= 0 && matchedBlocks.has(lastParagraph),
+    distributionScore: score,
+    distribution: distributionLabel(score, positions.length),
+  };
+}
@@ -0,0 +1,236 @@
+import type { SerpPreviewResponse } from "@shared/schema";
+
+// Text width measurement without a browser. Glyph advance widths are embedded
+// for the fonts Google uses in search results, so snippet truncation can be
+// predicted on the server.
+
+export type SerpFont = "arial" | "roboto";
+
+interface GlyphTable {
+  unitsPerEm: number;
+  // Used for characters missing from the table (accented letters, symbols, CJK...)
+  defaultWidth: number;
+  widths: Record<string, number>;
+}
+
+function table(unitsPerEm: number, defaultWidth: number, groups: Array<[string, number]>): GlyphTable {
+  const widths: Record<string, number> = {};
+  for (const [chars, width] of groups) {
+    for (const char of chars) widths[char] = width;
+  }
+  return { unitsPerEm, defaultWidth, widths };
+}
+
+// Arial regular advance widths (metric-compatible with Helvetica), 1000 units per em
+const ARIAL = table(1000, 556, [
+  [" !,./:;I[\\]ft", 278],
+  ["ijl", 222],
+  ["\"", 355],
+  ["#$0123456789?_abdeghnopqu", 556],
+  ["%", 889],
+  ["&ABEKPSVXY", 667],
+  ["'", 191],
+  ["()-`r", 333],
+  ["*", 389],
+  ["+<=>~", 584],
+  ["@", 1015],
+  ["CDHNRUw", 722],
+  ["FTZ", 611],
+  ["GOQ", 778],
+  ["J", 500],
+  ["L", 556],
+  ["Mm", 833],
+  ["W", 944],
+  ["^", 469],
+  ["ckszvxy", 500],
+  ["{}", 334],
+  ["|", 260],
+  ["…", 1000],
+  ["–", 556],
+  ["—", 1000],
+  ["‘’", 222],
+  ["“”", 333],
+  ["›", 333],
+  ["·", 278],
+]);
+
+// Roboto regular advance widths, 2048 units per em
+const ROBOTO = table(2048, 1120, [
+  [" ", 507],
+  ["!", 528],
+  ["\"", 639],
+  ["#", 1232],
+  ["$", 1123],
+  ["%", 1465],
+  ["&", 1270],
+  ["'", 313],
+  ["(", 684],
+  [")", 695],
+  ["*", 861],
+  ["+<=>~", 1134],
+  [",", 393],
+  ["-", 553],
+  [".", 539],
+  ["/", 842],
+  ["0123456789", 1150],
+  [":", 484],
+  [";", 434],
+  ["?", 945],
+  ["@", 1797],
+  ["A", 1336],
+  ["B", 1275],
+  ["C", 1333],
+  ["D", 1343],
+  ["E", 1164],
+  ["F", 1132],
+  ["G", 1395],
+  ["HN", 1460],
+  ["I", 557],
+  ["J", 1130],
+  ["KX", 1284],
+  ["L", 1100],
+  ["M", 1788],
+  ["OQ", 1408],
+  ["P", 1292],
+  ["R", 1260],
+  ["S", 1218],
+  ["T", 1221],
+  ["U", 1328],
+  ["V", 1303],
+  ["W", 1817],
+  ["Y", 1230],
+  ["Z", 1227],
+  ["[]", 543],
+  ["\\", 829],
+  ["^", 856],
+  ["_", 905],
+  ["`", 620],
+  ["a", 1087],
+  ["bp", 1120],
+  ["c", 1044],
+  ["d", 1126],
+  ["e", 1058],
+  ["f", 696],
+  ["g", 1123],
+  ["h", 1101],
+  ["il", 486],
+  ["j", 478],
+  ["k", 1014],
+  ["m", 1753],
+  ["n", 1103],
+  ["o", 1140],
+  ["q", 1133],
+  ["r", 677],
+  ["s", 1031],
+  ["t", 654],
+  ["u", 1100],
+  ["v", 968],
+  ["w", 1500],
+  ["xz", 991],
+  ["y", 947],
+  ["{}", 679],
+  ["|", 497],
+  ["…", 1426],
+  ["–", 1251],
+  ["—", 1751],
+  ["‘’", 400],
+  ["“”", 700],
+  ["›", 565],
+  ["·", 540],
+]);
+
+const FONTS: Record<SerpFont, GlyphTable> = {
+  arial: ARIAL,
+  roboto: ROBOTO,
+};
+
+export interface SerpLimit {
+  font: SerpFont;
+  fontSize: number;
+  maxWidth: number;
+}
+
+// Approximate truncation limits for Google results. Desktop titles render in
+// 20px Arial, descriptions in 14px Arial; mobile uses Roboto across narrower lines.
+export const SERP_LIMITS = {
+  desktop: {
+    title: { font: "arial", fontSize: 20, maxWidth: 600 },
+    description: { font: "arial", fontSize: 14, maxWidth: 920 },
+  },
+  mobile: {
+    title: { font: "roboto", fontSize: 16, maxWidth: 680 },
+    description: { font: "roboto", fontSize: 14, maxWidth: 840 },
+  },
+} satisfies Record<string, Record<string, SerpLimit>>;
+
+const ELLIPSIS = "…";
+
+export function measureText(text: string, font: SerpFont, fontSize: number): number {
+  const glyphs = FONTS[font];
+  let units = 0;
+  for (const char of text) {
+    units += glyphs.widths[char] ?? glyphs.defaultWidth;
+  }
+  return (units / glyphs.unitsPerEm) * fontSize;
+}
+
+export interface TruncationResult {
+  text: string;
+  width: number;
+  truncated: boolean;
+}
+
+// Cuts text the way search engines do: at the last whole word that still fits
+// together with a trailing ellipsis
+export function truncateToWidth(text: string, limit: SerpLimit): TruncationResult {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  const fullWidth = measureText(normalized, limit.font, limit.fontSize);
+  if (fullWidth <= limit.maxWidth) {
+    return { text: normalized, width: Math.round(fullWidth), truncated: false };
+  }
+
+  const budget = limit.maxWidth - measureText(ELLIPSIS, limit.font, limit.fontSize);
+  let cut = "";
+  for (const word of normalized.split(" ")) {
+    const candidate = cut ? `${cut} ${word}` : word;
+    if (measureText(candidate, limit.font, limit.fontSize) > budget) break;
+    cut = candidate;
+  }
+
+  // A single word longer than the line is cut mid-word
+  if (!cut) {
+    for (const char of normalized) {
+      if (measureText(cut + char, limit.font, limit.fontSize) > budget) break;
+      cut += char;
+    }
+  }
+
+  const result = cut.replace(/[\s,;:\-–—]+$/, "") + ELLIPSIS;
+  return { text: result, width: Math.round(measureText(result, limit.font, limit.fontSize)), truncated: true };
+}
+
+// "https://www.example.com/blog/seo-tips?ref=1" -> "example.com › blog › seo-tips"
+export function formatBreadcrumb(url: string): string {
+  try {
+    const parsed = new URL(/^[a-z]+:\/\//i.test(url) ? url : `https://${url}`);
+    const parts = parsed.pathname.split("/").filter(Boolean).map(part => decodeURIComponent(part));
+    return [parsed.hostname.replace(/^www\./, ""), ...parts].join(" › ");
+  } catch {
+    return url;
+  }
+}
+
+export function buildSerpPreview(title: string, description: string, url: string): SerpPreviewResponse {
+  const line = (text: string, limit: SerpLimit) => ({ ...truncateToWidth(text, limit), maxWidth: limit.maxWidth });
+  return {
+    breadcrumb: formatBreadcrumb(url),
+    desktop: {
+      title: line(title, SERP_LIMITS.desktop.title),
+      description: line(description, SERP_LIMITS.desktop.description),
+    },
+    mobile: {
+      title: line(title, SERP_LIMITS.mobile.title),
+      description: line(description, SERP_LIMITS.mobile.description),
+    },
+  };
+}
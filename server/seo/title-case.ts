@@ -0,0 +1,310 @@
+import type { TitleCaseRuleId, TitleCaseStyle, TitleCaseTraceEntry } from "@shared/schema";
+
+const ARTICLES = new Set(["a", "an", "the"]);
+
+// Terms whose casing can't be derived from capitalization rules. Callers can
+// extend this per request with their own brand and product names.
+const PROTECTED_TERMS = [
+  "I", "iPhone", "iPad", "iOS", "iCloud", "macOS", "eBay", "eCommerce", "YouTube", "LinkedIn", "GitHub",
+  "GitLab", "JavaScript", "TypeScript", "WordPress", "WooCommerce", "PayPal", "HubSpot", "TikTok",
+  "WhatsApp", "ChatGPT", "OpenAI", "SaaS", "PaaS", "B2B", "B2C", "PhD", "SEO", "SEM", "PPC", "CTR",
+  "API", "URL", "HTML", "CSS", "AI", "PDF", "FAQ",
+];
+
+const COORDINATING_CONJUNCTIONS = new Set(["and", "but", "for", "nor", "or", "so", "yet"]);
+
+const PREPOSITIONS = new Set([
+  "about", "above", "across", "after", "against", "along", "amid", "among", "around", "as", "at",
+  "before", "behind", "below", "beneath", "beside", "between", "beyond", "by", "despite", "down",
+  "during", "except", "for", "from", "in", "inside", "into", "like", "near", "of", "off", "on", "onto",
+  "out", "outside", "over", "past", "per", "since", "than", "through", "throughout", "till", "to",
+  "toward", "towards", "under", "underneath", "until", "up", "upon", "via", "with", "within", "without",
+]);
+
+interface StyleGuide {
+  capitalizeLast: boolean;
+  sentenceCase: boolean;
+  // Words at least this long are always capitalized (AP and APA use 4)
+  capitalizeFromLength?: number;
+  // Prepositions up to this length stay lowercase; Infinity lowercases all of them
+  prepositionMaxLength: number;
+  conjunctions: Set<string>;
+}
+
+export const STYLE_GUIDES: Record<TitleCaseStyle, StyleGuide> = {
+  ap: {
+    capitalizeLast: true,
+    sentenceCase: false,
+    capitalizeFromLength: 4,
+    prepositionMaxLength: 3,
+    conjunctions: COORDINATING_CONJUNCTIONS,
+  },
+  chicago: {
+    capitalizeLast: true,
+    sentenceCase: false,
+    prepositionMaxLength: Infinity,
+    conjunctions: new Set(["and", "but", "for", "nor", "or"]),
+  },
+  apa: {
+    capitalizeLast: false,
+    sentenceCase: false,
+    capitalizeFromLength: 4,
+    prepositionMaxLength: 3,
+    conjunctions: COORDINATING_CONJUNCTIONS,
+  },
+  mla: {
+    capitalizeLast: true,
+    sentenceCase: false,
+    prepositionMaxLength: Infinity,
+    conjunctions: COORDINATING_CONJUNCTIONS,
+  },
+  wikipedia: {
+    capitalizeLast: true,
+    sentenceCase: false,
+    prepositionMaxLength: 4,
+    conjunctions: COORDINATING_CONJUNCTIONS,
+  },
+  sentence: {
+    capitalizeLast: false,
+    sentenceCase: true,
+    prepositionMaxLength: 0,
+    conjunctions: new Set(),
+  },
+};
+
+function describeRule(rule: TitleCaseRuleId, guide: StyleGuide): string {
+  switch (rule) {
+    case "first-word":
+      return "Capitalized the first word";
+    case "last-word":
+      return "Capitalized the last word";
+    case "article":
+      return "Kept articles lowercase (a, an, the)";
+    case "conjunction":
+      return `Kept coordinating conjunctions lowercase (${Array.from(guide.conjunctions).join(", ")})`;
+    case "preposition":
+      return guide.prepositionMaxLength === Infinity
+        ? "Kept prepositions lowercase regardless of length"
+        : `Kept prepositions of ${guide.prepositionMaxLength} letters or fewer lowercase`;
+    case "long-word":
+      return `Capitalized words of ${guide.capitalizeFromLength} or more letters`;
+    case "major-word":
+      return "Capitalized major words (nouns, verbs, adjectives, adverbs)";
+    case "sentence-case":
+      return "Lowercased every word after the first (sentence case)";
+    case "after-colon":
+      return "Capitalized the first word after a colon or dash";
+    case "acronym-preserved":
+      return "Kept all-caps acronyms as written";
+    case "brand-preserved":
+      return "Kept mixed-case brand names as written";
+    case "protected-term":
+      return "Used dictionary casing for protected terms";
+    case "hyphenated":
+      return guide.sentenceCase
+        ? "Lowercased the parts of hyphenated compounds"
+        : "Capitalized the major parts of hyphenated compounds";
+    case "verbatim":
+      return "Left URLs, email addresses and code spans untouched";
+  }
+}
+
+type TokenKind = "word" | "verbatim" | "space" | "punct";
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+const UPPER = "A-Z\\u00C0-\\u00DE";
+const LOWER = "a-z\\u00DF-\\u00FF";
+const LETTER = `${UPPER}${LOWER}`;
+
+// Alternatives are tried in order, so verbatim spans win over plain words
+const TOKEN_PATTERN = new RegExp([
+  "`[^`]*`",
+  "(?:https?:\\/\\/|www\\.)\\S+",
+  "[\\w.+-]+@[\\w-]+(?:\\.[\\w-]+)+",
+  "[\\w-]+(?:\\.[\\w-]+)*\\.(?:com|org|net|io|dev|co|ai|app|edu|gov)\\b(?:\\/\\S*)?",
+  `(?:[${LETTER}]\\.){2,}`,
+  `[${LETTER}0-9]+(?:['’-][${LETTER}0-9]+)*`,
+  "\\s+",
+  ".",
+].map(pattern => `(${pattern})`).join("|"), "g");
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of Array.from(text.matchAll(TOKEN_PATTERN))) {
+    const [value, code, url, email, domain, dotted, word, space] = match;
+    if (code || email) {
+      tokens.push({ kind: "verbatim", text: value });
+    } else if (url || domain) {
+      // Sentence punctuation right after a link isn't part of it
+      const trailing = value.match(/[.,;:!?)\]]+$/)?.[0] ?? "";
+      tokens.push({ kind: "verbatim", text: value.slice(0, value.length - trailing.length) });
+      for (const char of trailing) tokens.push({ kind: "punct", text: char });
+    } else if (dotted || word) {
+      tokens.push({ kind: "word", text: value });
+    } else if (space) {
+      tokens.push({ kind: "space", text: " " });
+    } else {
+      tokens.push({ kind: "punct", text: value });
+    }
+  }
+  return tokens;
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+// Decides whether a word in the middle of a title stays lowercase under the given style
+function classifyWord(word: string, guide: StyleGuide): { capitalize: boolean; rule: TitleCaseRuleId } {
+  if (guide.sentenceCase) {
+    return { capitalize: false, rule: "sentence-case" };
+  }
+  if (guide.capitalizeFromLength && word.length >= guide.capitalizeFromLength) {
+    return { capitalize: true, rule: "long-word" };
+  }
+  if (ARTICLES.has(word)) {
+    return { capitalize: false, rule: "article" };
+  }
+  if (guide.conjunctions.has(word)) {
+    return { capitalize: false, rule: "conjunction" };
+  }
+  if (PREPOSITIONS.has(word) && word.length <= guide.prepositionMaxLength) {
+    return { capitalize: false, rule: "preposition" };
+  }
+  return { capitalize: true, rule: "major-word" };
+}
+
+function stripPossessive(word: string): string {
+  return word.replace(/['’]s$/i, "");
+}
+
+const HAS_LOWERCASE = new RegExp(`[${LOWER}]`);
+const UPPERCASE_LETTERS = new RegExp(`[${UPPER}]`, "g");
+const DOTTED_ACRONYM = new RegExp(`^(?:[${UPPER}]\\.){2,}$`);
+const UPPERCASE_WORD = new RegExp(`^[${UPPER}0-9]+$`);
+const MIXED_CASE = new RegExp(`^(?:[${LOWER}]+|[${UPPER}][${LOWER}]+)[${UPPER}]`);
+
+// SEO, HTML5, B2B, U.S.
+function isAcronym(word: string): boolean {
+  const base = stripPossessive(word);
+  return DOTTED_ACRONYM.test(base) || (UPPERCASE_WORD.test(base) && (base.match(UPPERCASE_LETTERS) ?? []).length >= 2);
+}
+
+// iPhone, eBay, JavaScript, YouTube
+function isMixedCase(word: string): boolean {
+  return MIXED_CASE.test(word);
+}
+
+type Position = "first" | "last" | "after-colon" | "middle";
+
+interface CaseContext {
+  guide: StyleGuide;
+  protectedTerms: Map<string, string>;
+  // Disabled for ALL-CAPS input, where every word would otherwise look like an acronym
+  preserveCasing: boolean;
+}
+
+interface WordDecision {
+  output: string;
+  rule: TitleCaseRuleId;
+}
+
+function caseWord(word: string, position: Position, context: CaseContext): WordDecision {
+  const { guide, protectedTerms, preserveCasing } = context;
+
+  const lower = word.toLowerCase();
+  const protectedTerm = protectedTerms.get(lower) ?? protectedTerms.get(stripPossessive(lower));
+  if (protectedTerm) {
+    return { output: protectedTerms.has(lower) ? protectedTerm : protectedTerm + word.slice(protectedTerm.length), rule: "protected-term" };
+  }
+  if (preserveCasing && isAcronym(word)) {
+    return { output: word, rule: "acronym-preserved" };
+  }
+  if (preserveCasing && isMixedCase(word)) {
+    return { output: word, rule: "brand-preserved" };
+  }
+
+  if (word.includes("-")) {
+    const parts = word.split("-");
+    const output = parts
+      .map((part, index) => caseWord(part, index === 0 ? position : "middle", context).output)
+      .join("-");
+    return { output, rule: "hyphenated" };
+  }
+
+  if (position === "first") {
+    return { output: capitalize(lower), rule: "first-word" };
+  }
+  if (position === "after-colon") {
+    return { output: capitalize(lower), rule: "after-colon" };
+  }
+  if (position === "last" && guide.capitalizeLast) {
+    return { output: capitalize(lower), rule: "last-word" };
+  }
+
+  const { capitalize: shouldCapitalize, rule } = classifyWord(lower, guide);
+  return { output: shouldCapitalize ? capitalize(lower) : lower, rule };
+}
+
+const BREAKING_PUNCTUATION = new Set([":", "—", "–"]);
+
+export function convertTitleCase(
+  text: string,
+  style: TitleCaseStyle,
+  extraProtectedTerms: string[] = [],
+): { converted: string; rulesApplied: string[]; trace: TitleCaseTraceEntry[] } {
+  const guide = STYLE_GUIDES[style];
+  const protectedTerms = new Map<string, string>();
+  for (const term of [...PROTECTED_TERMS, ...extraProtectedTerms]) {
+    const trimmed = term.trim();
+    if (trimmed) protectedTerms.set(trimmed.toLowerCase(), trimmed);
+  }
+  const context: CaseContext = { guide, protectedTerms, preserveCasing: HAS_LOWERCASE.test(text) };
+
+  const tokens = tokenize(text.trim());
+  const wordIndexes = tokens.flatMap((token, index) => (token.kind === "word" || token.kind === "verbatim" ? [index] : []));
+  const firstIndex = wordIndexes[0];
+  const lastIndex = wordIndexes[wordIndexes.length - 1];
+  const fired = new Set<TitleCaseRuleId>();
+  const trace: TitleCaseTraceEntry[] = [];
+
+  let afterBreak = false;
+  const output = tokens.map((token, index) => {
+    if (token.kind === "punct") {
+      // A spaced hyphen (" - ") works like a dash
+      const spacedHyphen = token.text === "-" && tokens[index - 1]?.kind === "space";
+      if (BREAKING_PUNCTUATION.has(token.text) || spacedHyphen) afterBreak = true;
+      return token.text;
+    }
+    if (token.kind === "space") {
+      return token.text;
+    }
+    if (token.kind === "verbatim") {
+      afterBreak = false;
+      fired.add("verbatim");
+      trace.push({ original: token.text, output: token.text, rule: "verbatim" });
+      return token.text;
+    }
+
+    const position: Position = index === firstIndex ? "first"
+      : afterBreak ? "after-colon"
+      : index === lastIndex ? "last"
+      : "middle";
+    afterBreak = false;
+
+    const decision = caseWord(token.text, position, context);
+    fired.add(decision.rule);
+    trace.push({ original: token.text, output: decision.output, rule: decision.rule });
+    return decision.output;
+  });
+
+  return {
+    converted: output.join(""),
+    rulesApplied: Array.from(fired).map(rule => describeRule(rule, guide)),
+    trace,
+  };
+}
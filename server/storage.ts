@@ -1,5 +1,6 @@
-import { type User, type InsertUser } from "@shared/schema";
+import { type User, type InsertUser, type ScoringProfile } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { DEFAULT_SCORING_PROFILE } from "./seo/scoring-profiles";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -8,13 +9,19 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  listScoringProfiles(): Promise<ScoringProfile[]>;
+  getScoringProfile(name: string): Promise<ScoringProfile | undefined>;
+  saveScoringProfile(profile: ScoringProfile): Promise<ScoringProfile>;
+  deleteScoringProfile(name: string): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private scoringProfiles: Map<string, ScoringProfile>;
 
   constructor() {
     this.users = new Map();
+    this.scoringProfiles = new Map([[DEFAULT_SCORING_PROFILE.name, DEFAULT_SCORING_PROFILE]]);
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -33,6 +40,24 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async listScoringProfiles(): Promise<ScoringProfile[]> {
+    return Array.from(this.scoringProfiles.values());
+  }
+
+  async getScoringProfile(name: string): Promise<ScoringProfile | undefined> {
+    return this.scoringProfiles.get(name);
+  }
+
+  // Saving under an existing name replaces that profile
+  async saveScoringProfile(profile: ScoringProfile): Promise<ScoringProfile> {
+    this.scoringProfiles.set(profile.name, profile);
+    return profile;
+  }
+
+  async deleteScoringProfile(name: string): Promise<boolean> {
+    return this.scoringProfiles.delete(name);
+  }
 }
 
 export const storage = new MemStorage();
@@ -4,42 +4,403 @@ import { z } from "zod";
 export const metaDescriptionRequestSchema = z.object({
   title: z.string().min(1, "Title is required"),
   audience: z.string().optional(),
+  variants: z.number().int().min(1).max(5).default(3),
+  ellipsis: z.boolean().default(false),
+});
+
+export const metaDescriptionVariantSchema = z.object({
+  content: z.string(),
+  length: z.number(),
+  truncation: z.object({
+    truncated: z.boolean(),
+    strategy: z.enum(["none", "sentence", "word"]),
+    removed: z.string(),
+  }),
+  score: z.object({
+    characters: z.number(),
+    pixelWidth: z.number(),
+    primaryKeyword: z.string().nullable(),
+    hasPrimaryKeyword: z.boolean(),
+    hasCallToAction: z.boolean(),
+    endsWithCompleteSentence: z.boolean(),
+    total: z.number(),
+  }),
 });
 
 export const metaDescriptionResponseSchema = z.object({
   content: z.string(),
   length: z.number(),
+  engine: z.string(),
+  variants: z.array(metaDescriptionVariantSchema),
+});
+
+// SERP Snippet Preview
+export const serpPreviewRequestSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  description: z.string().default(""),
+  url: z.string().default("https://example.com/"),
+});
+
+const serpLineSchema = z.object({
+  text: z.string(),
+  width: z.number(),
+  maxWidth: z.number(),
+  truncated: z.boolean(),
+});
+
+const serpSnippetSchema = z.object({
+  title: serpLineSchema,
+  description: serpLineSchema,
+});
+
+export const serpPreviewResponseSchema = z.object({
+  breadcrumb: z.string(),
+  desktop: serpSnippetSchema,
+  mobile: serpSnippetSchema,
 });
 
 // Title Case Converter
+export const titleCaseStyleSchema = z.enum(["ap", "chicago", "apa", "mla", "wikipedia", "sentence"]);
+
+export const titleCaseRuleIdSchema = z.enum([
+  "first-word",
+  "last-word",
+  "article",
+  "conjunction",
+  "preposition",
+  "long-word",
+  "major-word",
+  "sentence-case",
+  "after-colon",
+  "acronym-preserved",
+  "brand-preserved",
+  "protected-term",
+  "hyphenated",
+  "verbatim",
+]);
+
 export const titleCaseRequestSchema = z.object({
   text: z.string().min(1, "Text is required"),
+  style: titleCaseStyleSchema.default("ap"),
+  protectedTerms: z.array(z.string()).default([]),
 });
 
 export const titleCaseResponseSchema = z.object({
   original: z.string(),
   converted: z.string(),
+  style: titleCaseStyleSchema,
   rulesApplied: z.array(z.string()),
+  trace: z.array(z.object({
+    original: z.string(),
+    output: z.string(),
+    rule: titleCaseRuleIdSchema,
+  })),
+});
+
+// Density Scoring Profiles
+export const keywordTypeSchema = z.enum(["focus", "secondary", "generic"]);
+
+export const densityStatusSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Status ids use lowercase letters, digits and dashes"),
+  label: z.string().min(1),
+  tone: z.enum(["neutral", "positive", "warning", "negative"]),
+});
+
+// A density below `below` (percent) gets `status`; the last cutoff has no upper bound
+export const densityCutoffSchema = z.object({
+  status: z.string(),
+  below: z.number().positive().nullable(),
+});
+
+export const scoringBandSchema = z.object({
+  // Content up to this many words uses the band; the last band has no limit
+  maxWords: z.number().int().positive().nullable(),
+  focus: z.array(densityCutoffSchema).min(1),
+  secondary: z.array(densityCutoffSchema).min(1),
+  generic: z.array(densityCutoffSchema).min(1),
+});
+
+export const scoringProfileSchema = z.object({
+  name: z.string().regex(/^[a-z0-9-]+$/, "Profile names use lowercase letters, digits and dashes"),
+  description: z.string().default(""),
+  // Ordered from least to most dense
+  statuses: z.array(densityStatusSchema).min(1),
+  bands: z.array(scoringBandSchema).min(1),
+}).superRefine((profile, ctx) => {
+  const statusIds = new Set(profile.statuses.map(status => status.id));
+  const ascending = (values: Array<number | null>) =>
+    values.every((value, i) => (value === null ? i === values.length - 1 : i === 0 || (values[i - 1] ?? Infinity) < value));
+
+  if (!ascending(profile.bands.map(band => band.maxWords)) || profile.bands[profile.bands.length - 1].maxWords !== null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["bands"], message: "Bands must be in ascending word order and end with an unlimited band" });
+  }
+  profile.bands.forEach((band, bandIndex) => {
+    keywordTypeSchema.options.forEach(type => {
+      const cutoffs = band[type];
+      if (!ascending(cutoffs.map(cutoff => cutoff.below)) || cutoffs[cutoffs.length - 1].below !== null) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["bands", bandIndex, type], message: "Cutoffs must be in ascending order and end with an unbounded cutoff" });
+      }
+      cutoffs.forEach((cutoff, cutoffIndex) => {
+        if (!statusIds.has(cutoff.status)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["bands", bandIndex, type, cutoffIndex, "status"], message: `Unknown status "${cutoff.status}"` });
+        }
+      });
+    });
+  });
 });
 
 // Keyword Density Analyzer
+export const contentLanguageSchema = z.enum(["en", "es", "fr", "de", "pt", "it"]);
+// "auto" picks HTML or Markdown when the content looks like it, plain text otherwise
+export const contentFormatSchema = z.enum(["auto", "text", "html", "markdown"]);
+
 export const keywordDensityRequestSchema = z.object({
   content: z.string().min(50, "Content must be at least 50 words"),
+  format: contentFormatSchema.default("auto"),
+  ngramSizes: z.array(z.number().int().min(1).max(3)).default([1, 2, 3]),
+  language: contentLanguageSchema.default("en"),
+  removeStopWords: z.boolean().default(false),
+  customStopWords: z.array(z.string()).default([]),
+  // Stemming and lemmatization group word variants; both are English-only
+  normalization: z.enum(["none", "stem", "lemma"]).default("none"),
+  focusKeyphrase: z.string().optional(),
+  secondaryKeyphrases: z.array(z.string()).default([]),
+  // Name of the scoring profile that decides each keyword's status
+  profile: z.string().default("default"),
+});
+
+export const keywordEntrySchema = z.object({
+  word: z.string(),
+  frequency: z.number(),
+  density: z.number(),
+  // One of the scoring profile's status ids
+  status: z.string(),
+  stem: z.string().optional(),
+  forms: z.array(z.string()).optional(),
+  // Occurrences inside SEO-weighted parts of the page; HTML and Markdown only
+  zones: z.object({
+    title: z.number(),
+    headings: z.number(),
+    strong: z.number(),
+    alt: z.number(),
+    anchor: z.number(),
+  }).optional(),
+});
+
+export const targetKeyphraseResultSchema = z.object({
+  keyphrase: z.string(),
+  type: z.enum(["focus", "secondary"]),
+  exactMatches: z.number(),
+  partialMatches: z.number(),
+  exactDensity: z.number(),
+  partialDensity: z.number(),
+  inFirst100Words: z.boolean(),
+  inHeading: z.boolean(),
+  inLastParagraph: z.boolean(),
+  // 0-100: how evenly mentions are spread through the text; null when there
+  // are too few mentions to judge
+  distributionScore: z.number().nullable(),
+  distribution: z.enum(["none", "too-few", "clustered", "uneven", "spread"]),
+  // Scored on exact plus partial mentions
+  status: z.string(),
+});
+
+export const overOptimizationFlagSchema = z.object({
+  type: z.enum(["adjacent-repetition", "keyword-list", "repeated-anchor", "density-outlier"]),
+  severity: z.enum(["warning", "critical"]),
+  phrase: z.string(),
+  message: z.string(),
+  // Offending sentences; index counts every sentence in the document, headings included
+  sentences: z.array(z.object({
+    index: z.number(),
+    text: z.string(),
+  })),
+});
+
+export const overOptimizationReportSchema = z.object({
+  risk: z.enum(["low", "moderate", "high"]),
+  flags: z.array(overOptimizationFlagSchema),
 });
 
 export const keywordDensityResponseSchema = z.object({
+  format: contentFormatSchema.exclude(["auto"]),
+  title: z.string().nullable(),
+  profile: z.object({
+    name: z.string(),
+    statuses: z.array(densityStatusSchema),
+  }),
   totalWords: z.number(),
   uniqueKeywords: z.number(),
-  keywords: z.array(z.object({
-    word: z.string(),
-    frequency: z.number(),
-    density: z.number(),
-    status: z.enum(["low", "good", "optimal", "high"]),
+  keywords: z.array(keywordEntrySchema),
+  ngrams: z.array(z.object({
+    size: z.number(),
+    keywords: z.array(keywordEntrySchema),
   })),
+  targets: z.array(targetKeyphraseResultSchema),
+  overOptimization: overOptimizationReportSchema,
   avgDensity: z.number(),
   topKeywordDensity: z.number(),
 });
 
+// Readability Analyzer
+export const readabilityRequestSchema = z.object({
+  content: z.string().min(1, "Content is required"),
+  format: contentFormatSchema.default("auto"),
+});
+
+export const readabilityIndexSchema = z.object({
+  id: z.enum(["flesch-reading-ease", "flesch-kincaid", "gunning-fog", "smog", "coleman-liau"]),
+  name: z.string(),
+  score: z.number(),
+  // US school grade; Flesch Reading Ease is a 0-100 scale instead
+  gradeLevel: z.number().nullable(),
+  label: z.string(),
+  note: z.string().nullable(),
+});
+
+export const readabilitySentenceSchema = z.object({
+  text: z.string(),
+  words: z.number(),
+  grade: z.number(),
+  difficulty: z.enum(["ok", "hard", "very-hard"]),
+  passive: z.boolean(),
+  transition: z.boolean(),
+});
+
+const readabilityRatioSchema = z.object({
+  count: z.number(),
+  percent: z.number(),
+  status: z.enum(["good", "needs-improvement", "poor"]),
+});
+
+export const readabilityResponseSchema = z.object({
+  format: contentFormatSchema.exclude(["auto"]),
+  stats: z.object({
+    words: z.number(),
+    sentences: z.number(),
+    paragraphs: z.number(),
+    syllables: z.number(),
+    complexWords: z.number(),
+    avgWordsPerSentence: z.number(),
+    avgSyllablesPerWord: z.number(),
+    readingTime: z.number(),
+  }),
+  indices: z.array(readabilityIndexSchema),
+  sentenceLengths: z.object({
+    average: z.number(),
+    longest: z.number(),
+    buckets: z.array(z.object({
+      label: z.string(),
+      min: z.number(),
+      max: z.number().nullable(),
+      count: z.number(),
+      percent: z.number(),
+    })),
+  }),
+  passiveVoice: readabilityRatioSchema,
+  transitionWords: readabilityRatioSchema,
+  paragraphWarnings: z.array(z.object({
+    index: z.number(),
+    words: z.number(),
+    excerpt: z.string(),
+    message: z.string(),
+  })),
+  // The text as analyzed, for highlighting hard sentences in place
+  paragraphs: z.array(z.object({
+    type: z.enum(["heading", "paragraph"]),
+    sentences: z.array(readabilitySentenceSchema),
+  })),
+});
+
+// On-Page SEO Audit
+export const pageAuditRequestSchema = z.object({
+  // Below the server's 5 MB body limit, leaving room for JSON escaping
+  html: z.string().min(1, "HTML is required").max(4_000_000, "Pages over 4 MB are too large to audit"),
+  // Used to tell internal from external links; the canonical URL is used when omitted
+  url: z.string().optional(),
+  focusKeyphrase: z.string().optional(),
+  titleStyle: titleCaseStyleSchema.default("ap"),
+  profile: z.string().default("default"),
+});
+
+export const auditCheckSchema = z.object({
+  id: z.string(),
+  category: z.enum(["title", "meta", "headings", "images", "indexing", "social", "technical", "links", "content", "keyphrase"]),
+  label: z.string(),
+  passed: z.boolean(),
+  // How much a failure matters; passed checks keep theirs for scoring
+  severity: z.enum(["critical", "warning", "notice"]),
+  message: z.string(),
+  value: z.string().nullable(),
+});
+
+export const pageAuditResponseSchema = z.object({
+  score: z.number(),
+  title: z.string().nullable(),
+  metaDescription: z.string().nullable(),
+  stats: z.object({
+    words: z.number(),
+    headings: z.number(),
+    images: z.number(),
+    imagesWithAlt: z.number(),
+    internalLinks: z.number(),
+    externalLinks: z.number(),
+  }),
+  checks: z.array(auditCheckSchema),
+  topKeywords: z.array(keywordEntrySchema),
+  statuses: z.array(densityStatusSchema),
+});
+
+// Outline sections, shared by the outline generator and the heading analyzer.
+// Recursive, so the type is written out for z.lazy.
+export interface OutlineSection {
+  heading: string;
+  level: number;
+  // Planned words for the section, its children's included; 0 when unplanned
+  targetWords: number;
+  notes?: string;
+  children: OutlineSection[];
+}
+
+export const outlineSectionSchema: z.ZodType<OutlineSection> = z.lazy(() => z.object({
+  heading: z.string(),
+  level: z.number().int().min(1).max(6),
+  targetWords: z.number().min(0),
+  notes: z.string().optional(),
+  children: z.array(outlineSectionSchema),
+}));
+
+// Heading Structure Analyzer
+export const headingAnalysisRequestSchema = z.object({
+  content: z.string().min(1, "Content is required"),
+  format: contentFormatSchema.default("auto"),
+  style: titleCaseStyleSchema.default("ap"),
+  maxLength: z.number().int().min(20).max(200).default(70),
+});
+
+export const headingIssueSchema = z.object({
+  type: z.enum(["missing-h1", "multiple-h1", "skipped-level", "empty", "duplicate", "too-long", "casing", "inconsistent-casing"]),
+  severity: z.enum(["error", "warning", "notice"]),
+  message: z.string(),
+  // Position in `headings`; null for document-wide issues
+  headingIndex: z.number().nullable(),
+});
+
+export const headingAnalysisResponseSchema = z.object({
+  format: contentFormatSchema.exclude(["auto"]),
+  title: z.string().nullable(),
+  headings: z.array(z.object({
+    level: z.number(),
+    text: z.string(),
+    casing: z.enum(["title", "sentence", "either", "neither"]),
+    // Title-cased under the chosen style, when the heading isn't already
+    suggestion: z.string().nullable(),
+  })),
+  issues: z.array(headingIssueSchema),
+  // Same shape as a generated outline, for comparing a post with its plan
+  sections: z.array(outlineSectionSchema),
+});
+
 // Blog Outline Generator
 export const blogOutlineRequestSchema = z.object({
   topic: z.string().min(1, "Topic is required"),
@@ -49,21 +410,426 @@ export const blogOutlineRequestSchema = z.object({
 
 export const blogOutlineResponseSchema = z.object({
   title: z.string(),
-  sections: z.array(z.object({
-    heading: z.string(),
-    level: z.number(),
-    subsections: z.array(z.string()).optional(),
-  })),
+  sections: z.array(outlineSectionSchema),
   estimatedWordCount: z.number(),
   estimatedReadingTime: z.number(),
+  engine: z.string(),
+});
+
+// Regenerate one section's children, with the rest of the outline as context
+export const outlineSectionRequestSchema = z.object({
+  outline: blogOutlineResponseSchema,
+  // Child indexes from the top level down to the section
+  path: z.array(z.number().int().min(0)).min(1),
+  audience: z.string().optional(),
+  // Bumped on each retry so the offline engine offers different points
+  variant: z.number().int().min(0).default(0),
+});
+
+export const outlineSectionResponseSchema = z.object({
+  section: outlineSectionSchema,
+  engine: z.string(),
+});
+
+// Outline export
+export const outlineExportFormatSchema = z.enum(["markdown", "html", "docx", "json"]);
+
+export const outlineExportRequestSchema = z.object({
+  outline: blogOutlineResponseSchema,
+  format: outlineExportFormatSchema,
+});
+
+// Outline coverage: does a finished draft cover the sections of its outline?
+export const outlineCoverageRequestSchema = z.object({
+  outline: blogOutlineResponseSchema,
+  draft: z.string().min(1, "Draft is required"),
+  format: contentFormatSchema.default("auto"),
+});
+
+export const sectionCoverageSchema = z.object({
+  heading: z.string(),
+  // Closest draft heading, if any was similar enough
+  matchedHeading: z.string().nullable(),
+  similarity: z.number(),
+  words: z.number(),
+  // The section's planned budget
+  targetWords: z.number(),
+  status: z.enum(["missing", "thin", "on-target", "long"]),
+  // Headings anywhere below the section
+  missingSubsections: z.array(z.string()),
+});
+
+export const outlineCoverageResponseSchema = z.object({
+  format: contentFormatSchema.exclude(["auto"]),
+  titleMatched: z.boolean(),
+  // Found sections plus mentioned subsections, as a share of all of them
+  coverage: z.number(),
+  draftWords: z.number(),
+  targetWords: z.number(),
+  sections: z.array(sectionCoverageSchema),
+  // Draft headings that match nothing in the outline
+  extraHeadings: z.array(z.string()),
+});
+
+// Content Brief Generator
+export const contentBriefRequestSchema = z.object({
+  topic: z.string().min(1, "Topic is required"),
+  focusKeyphrase: z.string().trim().min(1, "Focus keyphrase is required"),
+  audience: z.string().optional(),
+  length: z.enum(["short", "medium", "long"]).default("medium"),
+  // House style for the suggested title
+  style: titleCaseStyleSchema.default("ap"),
+  profile: z.string().default("default"),
+});
+
+export const briefKeyphraseSchema = z.object({
+  phrase: z.string(),
+  type: keywordTypeSchema.exclude(["generic"]),
+  // Suggested number of mentions over the whole post; null when the profile sets no range
+  mentions: z.object({ min: z.number(), max: z.number().nullable() }).nullable(),
+  guidance: z.string(),
+});
+
+export const contentBriefResponseSchema = z.object({
+  topic: z.string(),
+  audience: z.string().nullable(),
+  title: z.string(),
+  titleStyle: titleCaseStyleSchema,
+  metaDescription: z.string(),
+  keyphrases: z.array(briefKeyphraseSchema),
+  outline: blogOutlineResponseSchema,
+  faqs: z.array(z.string()),
+  engine: z.string(),
+});
+
+// FAQ generator: likely reader questions with short answers, from a topic or a pasted article
+export const faqRequestSchema = z.object({
+  topic: z.string().optional(),
+  content: z.string().optional(),
+  format: contentFormatSchema.default("auto"),
+  audience: z.string().optional(),
+  count: z.number().int().min(3).max(10).default(6),
+  // When given, the questions are also added to this outline as a FAQ section
+  outline: blogOutlineResponseSchema.optional(),
+}).refine(request => Boolean(request.topic?.trim() || request.content?.trim()), {
+  message: "Enter a topic or paste an article",
+  path: ["topic"],
+});
+
+export const faqItemSchema = z.object({
+  question: z.string(),
+  answer: z.string(),
+});
+
+export const faqResponseSchema = z.object({
+  topic: z.string(),
+  faqs: z.array(faqItemSchema),
+  // schema.org FAQPage markup wrapped in a script tag, ready to paste
+  jsonLd: z.string(),
+  outline: blogOutlineResponseSchema.nullable(),
+  engine: z.string(),
+});
+
+// Structured data: JSON-LD generator inputs, one form schema per schema.org type
+export const structuredDataTypeSchema = z.enum([
+  "Article",
+  "BlogPosting",
+  "Product",
+  "FAQPage",
+  "HowTo",
+  "BreadcrumbList",
+  "Organization",
+  "LocalBusiness",
+]);
+
+// Form fields come through as empty strings when left blank
+const optionalText = z.string().trim().optional();
+const optionalUrl = z.string().trim().url("Enter a full URL, including https://").optional().or(z.literal(""));
+const optionalNumber = z.string().trim().regex(/^\d+(\.\d+)?$/, "Enter a number").optional().or(z.literal(""));
+// ISO 8601 date, optionally with a time
+const isoDate = z.string().trim().regex(/^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/, "Use a date like 2024-05-31");
+const optionalDate = isoDate.optional().or(z.literal(""));
+
+export const articleInputSchema = z.object({
+  headline: z.string().trim().min(1, "Headline is required").max(110, "Keep the headline under 110 characters"),
+  description: optionalText,
+  url: optionalUrl,
+  images: z.array(z.string().trim().url("Enter a full image URL")).default([]),
+  authorType: z.enum(["Person", "Organization"]).default("Person"),
+  authorName: z.string().trim().min(1, "Author is required"),
+  authorUrl: optionalUrl,
+  publisherName: optionalText,
+  publisherLogo: optionalUrl,
+  datePublished: isoDate,
+  dateModified: optionalDate,
+});
+
+export const productInputSchema = z.object({
+  name: z.string().trim().min(1, "Product name is required"),
+  description: optionalText,
+  url: optionalUrl,
+  images: z.array(z.string().trim().url("Enter a full image URL")).default([]),
+  brand: optionalText,
+  sku: optionalText,
+  gtin: z.string().trim().regex(/^(\d{8}|\d{12,14})$/, "GTINs have 8, 12, 13 or 14 digits").optional().or(z.literal("")),
+  price: optionalNumber,
+  priceCurrency: z.string().trim().regex(/^[A-Z]{3}$/, "Use a three-letter currency code like USD").optional().or(z.literal("")),
+  availability: z.enum(["InStock", "OutOfStock", "PreOrder", "BackOrder", "Discontinued", "LimitedAvailability", "SoldOut"]).optional(),
+  ratingValue: optionalNumber,
+  reviewCount: z.string().trim().regex(/^\d+$/, "Enter a whole number").optional().or(z.literal("")),
+});
+
+export const faqPageInputSchema = z.object({
+  questions: z.array(z.object({
+    question: z.string().trim().min(1, "Question is required"),
+    answer: z.string().trim().min(1, "Answer is required"),
+  })).min(1, "Add at least one question"),
+});
+
+export const howToInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  description: optionalText,
+  image: optionalUrl,
+  // ISO 8601 duration, e.g. PT30M
+  totalTime: z.string().trim().regex(/^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+S)?)?$/, "Use an ISO 8601 duration like PT30M").optional().or(z.literal("")),
+  supplies: z.array(z.string().trim().min(1)).default([]),
+  tools: z.array(z.string().trim().min(1)).default([]),
+  steps: z.array(z.object({
+    name: optionalText,
+    text: z.string().trim().min(1, "Step text is required"),
+    url: optionalUrl,
+    image: optionalUrl,
+  })).min(1, "Add at least one step"),
+});
+
+export const breadcrumbListInputSchema = z.object({
+  items: z.array(z.object({
+    name: z.string().trim().min(1, "Name is required"),
+    // The last crumb is the current page, which may leave its URL out
+    url: optionalUrl,
+  })).min(1, "Add at least one breadcrumb"),
+});
+
+export const organizationInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  url: optionalUrl,
+  logo: optionalUrl,
+  description: optionalText,
+  email: z.string().trim().email("Enter a valid email address").optional().or(z.literal("")),
+  telephone: optionalText,
+  // Profiles on other sites: social accounts, Wikipedia, business directories
+  sameAs: z.array(z.string().trim().url("Enter a full URL")).default([]),
+});
+
+export const localBusinessInputSchema = organizationInputSchema.extend({
+  businessType: z.string().trim().regex(/^[A-Z][A-Za-z]*$/, "Use a schema.org type name like Restaurant").default("LocalBusiness"),
+  image: optionalUrl,
+  priceRange: optionalText,
+  address: z.object({
+    streetAddress: z.string().trim().min(1, "Street address is required"),
+    addressLocality: z.string().trim().min(1, "City is required"),
+    addressRegion: optionalText,
+    postalCode: optionalText,
+    addressCountry: z.string().trim().min(2, "Country is required"),
+  }),
+  latitude: z.string().trim().regex(/^-?\d{1,2}(\.\d+)?$/, "Enter a latitude like 51.5074").optional().or(z.literal("")),
+  longitude: z.string().trim().regex(/^-?\d{1,3}(\.\d+)?$/, "Enter a longitude like -0.1278").optional().or(z.literal("")),
+  // One line per rule in schema.org's short form, e.g. "Mo-Fr 09:00-17:00"
+  openingHours: z.array(z.string().trim().min(1)).default([]),
+});
+
+export const structuredDataRequestSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("Article"), data: articleInputSchema }),
+  z.object({ type: z.literal("BlogPosting"), data: articleInputSchema }),
+  z.object({ type: z.literal("Product"), data: productInputSchema }),
+  z.object({ type: z.literal("FAQPage"), data: faqPageInputSchema }),
+  z.object({ type: z.literal("HowTo"), data: howToInputSchema }),
+  z.object({ type: z.literal("BreadcrumbList"), data: breadcrumbListInputSchema }),
+  z.object({ type: z.literal("Organization"), data: organizationInputSchema }),
+  z.object({ type: z.literal("LocalBusiness"), data: localBusinessInputSchema }),
+]);
+
+// Structured data validator: existing JSON-LD, or a full HTML page with JSON-LD scripts
+export const structuredDataValidationRequestSchema = z.object({
+  content: z.string().min(1, "Paste JSON-LD or an HTML page"),
+});
+
+export const structuredDataIssueSchema = z.object({
+  severity: z.enum(["error", "warning"]),
+  // JSON path into the script's data, e.g. $.mainEntity[0].acceptedAnswer
+  path: z.string(),
+  message: z.string(),
+});
+
+export const structuredDataItemSchema = z.object({
+  // Where the data came from, e.g. "JSON-LD" or "Script 2"
+  source: z.string(),
+  path: z.string(),
+  type: z.string().nullable(),
+  issues: z.array(structuredDataIssueSchema),
+});
+
+export const structuredDataValidationSchema = z.object({
+  format: z.enum(["json", "html"]),
+  items: z.array(structuredDataItemSchema),
+  errorCount: z.number(),
+  warningCount: z.number(),
+});
+
+export const structuredDataResponseSchema = z.object({
+  type: structuredDataTypeSchema,
+  jsonLd: z.record(z.unknown()),
+  // The same data wrapped in a script tag, ready to paste
+  script: z.string(),
+  validation: structuredDataValidationSchema,
+});
+
+// robots.txt: parsing into user-agent groups, URL testing (RFC 9309) and generation
+export const robotsRuleSchema = z.object({
+  type: z.enum(["allow", "disallow"]),
+  path: z.string(),
+  // 1-based line in the robots.txt
+  line: z.number(),
+});
+
+export const robotsGroupSchema = z.object({
+  userAgents: z.array(z.string()),
+  rules: z.array(robotsRuleSchema),
+  crawlDelay: z.number().nullable(),
+  line: z.number(),
+});
+
+export const robotsIssueSchema = z.object({
+  severity: z.enum(["error", "warning"]),
+  // Null for issues with the file as a whole
+  line: z.number().nullable(),
+  message: z.string(),
+});
+
+export const robotsParseRequestSchema = z.object({
+  // An empty robots.txt is valid and allows everything
+  content: z.string(),
+});
+
+export const robotsParseResponseSchema = z.object({
+  groups: z.array(robotsGroupSchema),
+  sitemaps: z.array(z.string()),
+  issues: z.array(robotsIssueSchema),
+});
+
+export const robotsTestRequestSchema = robotsParseRequestSchema.extend({
+  userAgent: z.string().trim().min(1, "Enter a user-agent"),
+  urls: z.array(z.string().trim().min(1)).min(1, "Enter at least one URL").max(500, "Test up to 500 URLs at a time"),
+});
+
+export const robotsUrlResultSchema = z.object({
+  url: z.string(),
+  // The path and query the rules were matched against
+  path: z.string(),
+  allowed: z.boolean(),
+  // The deciding rule; null when no rule matches
+  rule: robotsRuleSchema.nullable(),
+});
+
+export const robotsTestResponseSchema = robotsParseResponseSchema.extend({
+  userAgent: z.string(),
+  // Indexes into `groups` of the groups the user-agent obeys, combined
+  groupIndexes: z.array(z.number()),
+  results: z.array(robotsUrlResultSchema),
+});
+
+const robotsPathSchema = z.string().trim().regex(/^[/*]/, "Paths start with / or *");
+
+export const robotsGeneratorGroupSchema = z.object({
+  userAgents: z.array(z.string().trim().min(1)).min(1, "Add at least one user-agent"),
+  disallow: z.array(robotsPathSchema).default([]),
+  allow: z.array(robotsPathSchema).default([]),
+  crawlDelay: z.string().trim().regex(/^\d+(\.\d+)?$/, "Enter a number of seconds").optional().or(z.literal("")),
+});
+
+export const robotsGenerateRequestSchema = z.object({
+  groups: z.array(robotsGeneratorGroupSchema).min(1, "Add at least one group"),
+  sitemaps: z.array(z.string().trim().url("Enter a full sitemap URL")).default([]),
+});
+
+export const robotsGenerateResponseSchema = z.object({
+  content: z.string(),
+  issues: z.array(robotsIssueSchema),
 });
 
 // Type exports
 export type MetaDescriptionRequest = z.infer<typeof metaDescriptionRequestSchema>;
+export type MetaDescriptionVariant = z.infer<typeof metaDescriptionVariantSchema>;
 export type MetaDescriptionResponse = z.infer<typeof metaDescriptionResponseSchema>;
+export type SerpPreviewRequest = z.infer<typeof serpPreviewRequestSchema>;
+export type SerpPreviewResponse = z.infer<typeof serpPreviewResponseSchema>;
+export type TitleCaseStyle = z.infer<typeof titleCaseStyleSchema>;
+export type TitleCaseRuleId = z.infer<typeof titleCaseRuleIdSchema>;
+export type TitleCaseTraceEntry = TitleCaseResponse["trace"][number];
 export type TitleCaseRequest = z.infer<typeof titleCaseRequestSchema>;
 export type TitleCaseResponse = z.infer<typeof titleCaseResponseSchema>;
+export type KeywordType = z.infer<typeof keywordTypeSchema>;
+export type DensityStatus = z.infer<typeof densityStatusSchema>;
+export type DensityCutoff = z.infer<typeof densityCutoffSchema>;
+export type ScoringBand = z.infer<typeof scoringBandSchema>;
+export type ScoringProfile = z.infer<typeof scoringProfileSchema>;
 export type KeywordDensityRequest = z.infer<typeof keywordDensityRequestSchema>;
+export type ContentLanguage = z.infer<typeof contentLanguageSchema>;
+export type ContentFormat = z.infer<typeof contentFormatSchema>;
+export type WordNormalization = KeywordDensityRequest["normalization"];
+export type KeywordEntry = z.infer<typeof keywordEntrySchema>;
+export type KeywordZones = NonNullable<KeywordEntry["zones"]>;
+export type TargetKeyphraseResult = z.infer<typeof targetKeyphraseResultSchema>;
+export type OverOptimizationFlag = z.infer<typeof overOptimizationFlagSchema>;
+export type OverOptimizationReport = z.infer<typeof overOptimizationReportSchema>;
 export type KeywordDensityResponse = z.infer<typeof keywordDensityResponseSchema>;
+export type ReadabilityRequest = z.infer<typeof readabilityRequestSchema>;
+export type ReadabilityIndex = z.infer<typeof readabilityIndexSchema>;
+export type ReadabilitySentence = z.infer<typeof readabilitySentenceSchema>;
+export type ReadabilityResponse = z.infer<typeof readabilityResponseSchema>;
+export type PageAuditRequest = z.infer<typeof pageAuditRequestSchema>;
+export type AuditCheck = z.infer<typeof auditCheckSchema>;
+export type PageAuditResponse = z.infer<typeof pageAuditResponseSchema>;
+export type HeadingAnalysisRequest = z.infer<typeof headingAnalysisRequestSchema>;
+export type HeadingIssue = z.infer<typeof headingIssueSchema>;
+export type HeadingAnalysisResponse = z.infer<typeof headingAnalysisResponseSchema>;
 export type BlogOutlineRequest = z.infer<typeof blogOutlineRequestSchema>;
 export type BlogOutlineResponse = z.infer<typeof blogOutlineResponseSchema>;
+export type OutlineSectionRequest = z.infer<typeof outlineSectionRequestSchema>;
+export type OutlineSectionResponse = z.infer<typeof outlineSectionResponseSchema>;
+export type OutlineExportFormat = z.infer<typeof outlineExportFormatSchema>;
+export type OutlineExportRequest = z.infer<typeof outlineExportRequestSchema>;
+export type OutlineCoverageRequest = z.infer<typeof outlineCoverageRequestSchema>;
+export type SectionCoverage = z.infer<typeof sectionCoverageSchema>;
+export type OutlineCoverageResponse = z.infer<typeof outlineCoverageResponseSchema>;
+export type ContentBriefRequest = z.infer<typeof contentBriefRequestSchema>;
+export type BriefKeyphrase = z.infer<typeof briefKeyphraseSchema>;
+export type ContentBriefResponse = z.infer<typeof contentBriefResponseSchema>;
+export type FaqRequest = z.infer<typeof faqRequestSchema>;
+export type FaqItem = z.infer<typeof faqItemSchema>;
+export type FaqResponse = z.infer<typeof faqResponseSchema>;
+export type StructuredDataType = z.infer<typeof structuredDataTypeSchema>;
+export type ArticleInput = z.infer<typeof articleInputSchema>;
+export type ProductInput = z.infer<typeof productInputSchema>;
+export type FaqPageInput = z.infer<typeof faqPageInputSchema>;
+export type HowToInput = z.infer<typeof howToInputSchema>;
+export type BreadcrumbListInput = z.infer<typeof breadcrumbListInputSchema>;
+export type OrganizationInput = z.infer<typeof organizationInputSchema>;
+export type LocalBusinessInput = z.infer<typeof localBusinessInputSchema>;
+export type StructuredDataRequest = z.infer<typeof structuredDataRequestSchema>;
+export type StructuredDataValidationRequest = z.infer<typeof structuredDataValidationRequestSchema>;
+export type StructuredDataIssue = z.infer<typeof structuredDataIssueSchema>;
+export type StructuredDataItem = z.infer<typeof structuredDataItemSchema>;
+export type StructuredDataValidation = z.infer<typeof structuredDataValidationSchema>;
+export type StructuredDataResponse = z.infer<typeof structuredDataResponseSchema>;
+export type RobotsRule = z.infer<typeof robotsRuleSchema>;
+export type RobotsGroup = z.infer<typeof robotsGroupSchema>;
+export type RobotsIssue = z.infer<typeof robotsIssueSchema>;
+export type RobotsParseRequest = z.infer<typeof robotsParseRequestSchema>;
+export type RobotsParseResponse = z.infer<typeof robotsParseResponseSchema>;
+export type RobotsTestRequest = z.infer<typeof robotsTestRequestSchema>;
+export type RobotsUrlResult = z.infer<typeof robotsUrlResultSchema>;
+export type RobotsTestResponse = z.infer<typeof robotsTestResponseSchema>;
+export type RobotsGeneratorGroup = z.infer<typeof robotsGeneratorGroupSchema>;
+export type RobotsGenerateRequest = z.infer<typeof robotsGenerateRequestSchema>;
+export type RobotsGenerateResponse = z.infer<typeof robotsGenerateResponseSchema>;